@@ -1,46 +1,85 @@
 // src/editor/snippetEditor.ts
 import * as vscode from 'vscode'
-import { CodeSnippet } from '../types/types'
+import { CodeSnippet, Directory } from '../types/types'
 // import { v4 as uuidv4 } from 'uuidv4' // May not be needed for panel keys if snippet ID is used
 import { StorageManager } from '../storage/storageManager'
 import { ContextManager } from '../utils/contextManager'
+import { normalizeTags } from '../utils/tagUtils'
+import { RevisionHistoryManager } from '../utils/revisionHistoryManager'
+import { SnippetFileSystemProvider, SNIPPET_SCHEME } from './snippetFileSystemProvider'
+import { validateFileSystemSafety, checkSnippetDirectoryConflict } from '../utils/nameValidator'
+import { ProjectLibrary, isProjectLibraryPath } from '../utils/projectLibrary'
 
 /**
- * SnippetEditor负责创建和管理代码片段编辑会话 (使用WebView)
+ * Webview编辑会话：记录webview同步过来的代码和属性，保存时一起写入代码库
+ */
+interface EditingSession {
+  snippet: CodeSnippet
+  panel: vscode.WebviewPanel
+  currentCode: string
+  currentLanguage: string
+  currentName: string
+  currentDirectory: string // 目标目录路径，以 / 结尾
+  currentPrefix: string
+  currentTags: string[]
+  currentDescription: string
+  lastSavedCode: string
+  isDirtyInWebview: boolean
+}
+
+/**
+ * SnippetEditor负责创建和管理代码片段编辑会话
+ * 默认以 starcode: 文本文档打开代码片段（见 SnippetFileSystemProvider），editorMode 为 webview 时使用WebView中的Monaco编辑器
  */
 export class SnippetEditor {
   private static _instance: SnippetEditor | undefined
   private storageManager: StorageManager
   private extensionContext: vscode.ExtensionContext // Store context
+  private revisionHistory: RevisionHistoryManager | undefined // 记录每次保存的本地修订版本
+  private projectLibrary: ProjectLibrary | undefined // 元数据面板中可选择项目代码库的目录
 
   // 跟踪当前正在编辑的Webview面板
-  // Key: snippet fullPath, Value: { snippet: CodeSnippet, panel: vscode.WebviewPanel, currentCode: string, lastSavedCode: string, isDirtyInWebview: boolean }
-  private editingWebviews = new Map<
-    string,
-    {
-      snippet: CodeSnippet
-      panel: vscode.WebviewPanel
-      currentCode: string
-      lastSavedCode: string
-      isDirtyInWebview: boolean
-    }
-  >()
+  // Key: snippet fullPath（重命名或移动后更新为新的 fullPath）, Value: 编辑会话
+  private editingWebviews = new Map<string, EditingSession>()
 
   private _onDidSaveSnippet = new vscode.EventEmitter<CodeSnippet>()
   public readonly onDidSaveSnippet = this._onDidSaveSnippet.event
 
-  private constructor(context: vscode.ExtensionContext, storageManager: StorageManager) {
+  private constructor(
+    context: vscode.ExtensionContext,
+    storageManager: StorageManager,
+    revisionHistory?: RevisionHistoryManager,
+    projectLibrary?: ProjectLibrary
+  ) {
     this.extensionContext = context
     this.storageManager = storageManager
+    this.revisionHistory = revisionHistory
+    this.projectLibrary = projectLibrary
   }
 
-  public static initialize(context: vscode.ExtensionContext, storageManager: StorageManager): SnippetEditor {
+  public static initialize(
+    context: vscode.ExtensionContext,
+    storageManager: StorageManager,
+    revisionHistory?: RevisionHistoryManager,
+    projectLibrary?: ProjectLibrary
+  ): SnippetEditor {
     if (!SnippetEditor._instance) {
-      SnippetEditor._instance = new SnippetEditor(context, storageManager)
+      SnippetEditor._instance = new SnippetEditor(context, storageManager, revisionHistory, projectLibrary)
     }
     return SnippetEditor._instance
   }
 
+  /**
+   * 记录保存后的修订版本，记录失败不影响保存结果
+   */
+  private async recordRevision(saved: CodeSnippet, previous: CodeSnippet): Promise<void> {
+    try {
+      await this.revisionHistory?.recordRevision(saved, previous)
+    } catch (error) {
+      console.error('记录修订版本失败:', error)
+    }
+  }
+
   public static getInstance(): SnippetEditor {
     if (!SnippetEditor._instance) {
       throw new Error('SnippetEditor未初始化，请先调用initialize')
@@ -63,7 +102,28 @@ export class SnippetEditor {
     return (snippet as any).fullPath || (snippet as any).id || snippet.name
   }
 
+  /**
+   * 获取编辑代码片段的方式：document 以 starcode: 文本文档打开，webview 使用内置的 Monaco 编辑器
+   */
+  public static getEditorMode(): 'document' | 'webview' {
+    return vscode.workspace.getConfiguration('starcode-snippets').get<'document' | 'webview'>('editorMode', 'document')
+  }
+
   public async edit(snippet: CodeSnippet): Promise<void> {
+    // starcode: 文件系统只支持全局代码库中V2格式的代码片段，其余情况使用Monaco编辑器
+    if (SnippetEditor.getEditorMode() === 'document' && snippet.fullPath && !isProjectLibraryPath(snippet.fullPath)) {
+      const document = await vscode.workspace.openTextDocument(SnippetFileSystemProvider.toUri(snippet.fullPath))
+      await vscode.window.showTextDocument(document, { preview: false })
+      return
+    }
+
+    await this.editProperties(snippet)
+  }
+
+  /**
+   * 始终在Monaco编辑器面板中打开代码片段，面板中可以修改名称、目录、前缀、标签和描述
+   */
+  public async editProperties(snippet: CodeSnippet): Promise<void> {
     const column = vscode.window.activeTextEditor ? vscode.window.activeTextEditor.viewColumn : undefined
 
     const snippetId = this.getSnippetId(snippet)
@@ -89,10 +149,16 @@ export class SnippetEditor {
     )
 
     const initialCode = snippet.code || ''
-    const session = {
+    const session: EditingSession = {
       snippet,
       panel,
       currentCode: initialCode,
+      currentLanguage: snippet.language || 'plaintext',
+      currentName: snippet.name,
+      currentDirectory: snippet.fullPath ? getParentPath(snippet.fullPath) : '/',
+      currentPrefix: snippet.prefix || '',
+      currentTags: snippet.tags || [],
+      currentDescription: snippet.description || '',
       lastSavedCode: initialCode,
       isDirtyInWebview: false, // Webview会通过消息更新这个状态
     }
@@ -102,32 +168,22 @@ export class SnippetEditor {
 
     panel.onDidDispose(
       () => {
-        const disposedSession = this.editingWebviews.get(snippetId)
+        // 重命名或移动后会话的键已变化，按面板查找
+        const disposedEntry = [...this.editingWebviews].find(([, s]) => s.panel === panel)
+        const disposedSession = disposedEntry?.[1]
         if (disposedSession && disposedSession.isDirtyInWebview) {
           // console.log(`Webview for ${snippet.name} disposed with unsaved changes. Auto-saving.`)
-          // 自动保存逻辑
-          const codeToSave = disposedSession.currentCode // 使用webview同步过来的最新代码
-          const languageToSave = this.mapVSCodeLanguageIdToOurs(
-            this.mapLanguageToVSCode(disposedSession.snippet.language || 'plaintext'), // 假设webview用的也是这个
-            disposedSession.snippet.language
-          )
-          const updatedSnippet: CodeSnippet = {
-            ...disposedSession.snippet,
-            code: codeToSave,
-            language: languageToSave,
-          }
-          this.storageManager
-            .updateSnippet(updatedSnippet)
-            .then(() => {
-              this._onDidSaveSnippet.fire(updatedSnippet)
-              // console.log(`代码片段 "${updatedSnippet.name}" 已在关闭时自动保存。`)
-            })
-            .catch((error) => {
-              // console.error(`关闭时自动保存代码片段 "${updatedSnippet.name}" 失败:`, error)
-              vscode.window.showErrorMessage(`关闭时自动保存代码片段 "${updatedSnippet.name}" 失败。`)
-            })
+          // 自动保存逻辑：使用webview同步过来的最新代码和属性
+          this.saveSession(disposedSession).catch((error) => {
+            // console.error(`关闭时自动保存代码片段 "${disposedSession.snippet.name}" 失败:`, error)
+            vscode.window.showErrorMessage(
+              `关闭时自动保存代码片段 "${disposedSession.snippet.name}" 失败: ${error instanceof Error ? error.message : error}`
+            )
+          })
+        }
+        if (disposedEntry) {
+          this.editingWebviews.delete(disposedEntry[0])
         }
-        this.editingWebviews.delete(snippetId)
         if (this.editingWebviews.size === 0) {
           ContextManager.setEditingSnippet(false)
         }
@@ -179,6 +235,13 @@ export class SnippetEditor {
                 data: {
                   code: currentSession.currentCode,
                   language: this.mapLanguageToVSCode(currentSession.snippet.language || 'plaintext'),
+                  name: currentSession.currentName,
+                  directory: currentSession.currentDirectory,
+                  // 只有V2格式的代码片段可以移动到其他目录
+                  directories: currentSession.snippet.fullPath ? await this.getDirectoryPaths() : undefined,
+                  prefix: currentSession.currentPrefix,
+                  tags: currentSession.currentTags,
+                  description: currentSession.currentDescription,
                   snippetId: this.getSnippetId(currentSession.snippet),
                 },
               })
@@ -188,27 +251,13 @@ export class SnippetEditor {
             // console.log('已发送loadSnippet消息到WebView')
             break
           case 'saveSnippet': {
-            const codeToSave = message.data.code
-            const languageFromWebview = message.data.language
-            const languageToSave = this.mapVSCodeLanguageIdToOurs(languageFromWebview, currentSession.snippet.language)
             const saveMethod = message.data.saveMethod || 'unknown' // 获取保存方式
+            this.applyWebviewData(currentSession, message.data)
 
-
-
-            currentSession.currentCode = codeToSave
-
-            const updatedSnippet: CodeSnippet = {
-              ...currentSession.snippet,
-              code: codeToSave,
-              language: languageToSave,
-            }
             try {
-              await this.storageManager.updateSnippet(updatedSnippet)
-              currentSession.snippet = updatedSnippet
-              currentSession.lastSavedCode = codeToSave
-              currentSession.isDirtyInWebview = false
-              this._onDidSaveSnippet.fire(updatedSnippet)
-              
+              // 代码和名称、目录等属性一起校验后保存，校验失败时不做任何修改
+              const updatedSnippet = await this.saveSession(currentSession)
+
               // 【修复】确保所有保存方式都有明确的用户反馈
               const saveMessage = saveMethod === 'shortcut' 
                 ? `代码片段 "${updatedSnippet.name}" 已保存 (Ctrl+S)`
@@ -219,7 +268,8 @@ export class SnippetEditor {
               try {
                 panel.webview.postMessage({ 
                   type: 'saveSuccess', 
-                  snippetId: this.getSnippetId(currentSession.snippet),
+                  snippetId: messageSnippetId,
+                  newSnippetId: this.getSnippetId(updatedSnippet),
                   saveMethod: saveMethod
                 })
               } catch (error) {
@@ -227,14 +277,14 @@ export class SnippetEditor {
               }
             } catch (error) {
               console.error('保存代码片段失败 (来自webview):', error)
-              const errorMessage = `保存代码片段 "${updatedSnippet.name}" 失败`
+              const errorMessage = `保存代码片段 "${currentSession.snippet.name}" 失败: ${error instanceof Error ? error.message : error}`
               vscode.window.showErrorMessage(errorMessage)
               
               // 【重要修复】发送消息前检查webview是否还有效
               try {
                 panel.webview.postMessage({ 
                   type: 'saveError', 
-                  snippetId: this.getSnippetId(currentSession.snippet),
+                  snippetId: messageSnippetId,
                   saveMethod: saveMethod,
                   error: error instanceof Error ? error.message : '未知错误'
                 })
@@ -245,8 +295,16 @@ export class SnippetEditor {
             break
           }
           case 'contentChanged': {
-            currentSession.currentCode = message.data.code
+            this.applyWebviewData(currentSession, message.data)
             currentSession.isDirtyInWebview = true
+
+            // 属性面板实时显示名称和目录的校验结果
+            const validationError = await this.validateMetadata(currentSession)
+            try {
+              panel.webview.postMessage({ type: 'metadataValidation', snippetId: messageSnippetId, error: validationError })
+            } catch (error) {
+              console.warn('发送metadataValidation消息失败，webview可能已被销毁:', error)
+            }
             break
           }
         }
@@ -258,11 +316,159 @@ export class SnippetEditor {
     ContextManager.setEditingSnippet(true)
   }
 
-  public closeAllSessions(): void {
-    for (const [id, session] of this.editingWebviews) {
-      session.panel.dispose()
+  /**
+   * 记录webview同步过来的代码和属性
+   */
+  private applyWebviewData(session: EditingSession, data: any): void {
+    session.currentCode = data.code
+    session.currentLanguage = this.mapVSCodeLanguageIdToOurs(data.language, session.snippet.language)
+    session.currentName = typeof data.name === 'string' ? data.name : session.currentName
+    session.currentDirectory = typeof data.directory === 'string' ? data.directory : session.currentDirectory
+    session.currentPrefix = data.prefix || ''
+    session.currentTags = normalizeTags(data.tags)
+    session.currentDescription = data.description || ''
+  }
+
+  /**
+   * 校验会话中的名称和目录，返回错误信息，有效时返回 undefined
+   */
+  private async validateMetadata(session: EditingSession): Promise<string | undefined> {
+    const name = session.currentName.trim()
+    const nameValidation = validateFileSystemSafety(name)
+    if (!nameValidation.isValid) {
+      return `名称无效: ${nameValidation.error}`
     }
+
+    const previousPath = session.snippet.fullPath
+    if (!previousPath || `${session.currentDirectory}${name}` === previousPath) {
+      return undefined
+    }
+
+    const directories: Directory[] = await this.getAllDirectories()
+    if (
+      session.currentDirectory !== '/' &&
+      !directories.some((d) => toDirectoryPath(d.fullPath) === session.currentDirectory)
+    ) {
+      return `目录 "${session.currentDirectory}" 不存在`
+    }
+    if (checkSnippetDirectoryConflict(name, directories, session.currentDirectory, 'v2')) {
+      return `目标目录中已存在名为 "${name}" 的目录`
+    }
+    const snippets: CodeSnippet[] = [
+      ...(await this.storageManager.getAllSnippets()),
+      ...((await this.projectLibrary?.getAllSnippets()) || []),
+    ]
+    if (snippets.some((s) => s.fullPath === `${session.currentDirectory}${name}`)) {
+      return `目标目录中已存在名为 "${name}" 的代码片段`
+    }
+    return undefined
+  }
+
+  /**
+   * 校验并一次保存会话中的代码和全部属性，名称或目录变化时移动代码片段（uuid 保持不变）
+   * 校验失败时抛出错误，不做任何修改
+   */
+  private async saveSession(session: EditingSession): Promise<CodeSnippet> {
+    const validationError = await this.validateMetadata(session)
+    if (validationError) {
+      throw new Error(validationError)
+    }
+
+    const previous = session.snippet
+    const previousId = this.getSnippetId(previous)
+    const name = session.currentName.trim()
+    const updatedSnippet: CodeSnippet = {
+      ...previous,
+      name,
+      code: session.currentCode,
+      language: session.currentLanguage,
+      prefix: session.currentPrefix.trim() || undefined,
+      tags: session.currentTags.length > 0 ? session.currentTags : undefined,
+      description: session.currentDescription.trim() ? session.currentDescription : undefined,
+    }
+
+    const newFullPath = previous.fullPath ? `${session.currentDirectory}${name}` : previous.fullPath
+    if (newFullPath !== previous.fullPath) {
+      updatedSnippet.fullPath = newFullPath
+      updatedSnippet.category = getDirectoryLabel(session.currentDirectory)
+      await this.storageManager.moveSnippet(previous.fullPath, updatedSnippet)
+    } else {
+      await this.storageManager.updateSnippet(updatedSnippet)
+    }
+    await this.recordRevision(updatedSnippet, previous)
+
+    session.snippet = updatedSnippet
+    session.currentName = name
+    session.lastSavedCode = updatedSnippet.code
+    session.isDirtyInWebview = false
+
+    const newId = this.getSnippetId(updatedSnippet)
+    if (newId !== previousId && this.editingWebviews.get(previousId) === session) {
+      this.editingWebviews.delete(previousId)
+      this.editingWebviews.set(newId, session)
+      session.panel.title = `编辑: ${updatedSnippet.name}`
+    }
+
+    this._onDidSaveSnippet.fire(updatedSnippet)
+    return updatedSnippet
+  }
+
+  /**
+   * 获取可选的目标目录路径（以 / 结尾），根目录在最前
+   */
+  private async getDirectoryPaths(): Promise<string[]> {
+    const directories: Directory[] = await this.getAllDirectories()
+    const paths = directories.map((d) => toDirectoryPath(d.fullPath)).sort((a, b) => a.localeCompare(b))
+    return ['/', ...new Set(paths)]
+  }
+
+  /**
+   * 获取全局代码库和项目代码库中的所有目录
+   */
+  private async getAllDirectories(): Promise<Directory[]> {
+    return [...(await this.storageManager.getAllDirectories()), ...((await this.projectLibrary?.getAllDirectories()) || [])]
+  }
+
+  /**
+   * 是否有未保存的编辑面板或 starcode: 文档
+   */
+  public hasUnsavedEdits(): boolean {
+    return (
+      [...this.editingWebviews.values()].some((session) => session.isDirtyInWebview) ||
+      getDirtySnippetDocuments().length > 0
+    )
+  }
+
+  /**
+   * 保存所有未保存的编辑面板和 starcode: 文档，切换代码库前调用，确保修改写入原代码库
+   * 有内容未能保存时提示错误并返回 false
+   */
+  public async saveAllEdits(): Promise<boolean> {
+    try {
+      for (const session of [...this.editingWebviews.values()]) {
+        if (session.isDirtyInWebview) {
+          await this.saveSession(session)
+        }
+      }
+      const results = await Promise.all(getDirtySnippetDocuments().map((document) => document.save()))
+      if (results.includes(false)) {
+        throw new Error('部分代码片段文档未能保存')
+      }
+      return true
+    } catch (error) {
+      console.error('保存正在编辑的代码片段失败:', error)
+      vscode.window.showErrorMessage(`保存正在编辑的代码片段失败: ${error instanceof Error ? error.message : error}`)
+      return false
+    }
+  }
+
+  /**
+   * 关闭所有编辑面板，不会自动保存（切换代码库后保存会写入新的代码库，需要先调用 saveAllEdits）
+   */
+  public closeAllSessions(): void {
+    const sessions = [...this.editingWebviews.values()]
     this.editingWebviews.clear()
+    sessions.forEach((session) => session.panel.dispose())
     ContextManager.setEditingSnippet(false)
   }
 
@@ -339,7 +545,6 @@ export class SnippetEditor {
         <link rel="stylesheet" href="${monacoMainCss}">
         <style nonce="${nonce}">
           body, html { margin: 0; padding: 0; height: 100%; overflow: hidden; display: flex; flex-direction: column; font-family: var(--vscode-font-family); color: var(--vscode-editor-foreground); background-color: var(--vscode-editor-background);}
-          #editor-container { flex-grow: 1; }
           .controls { 
             padding: 8px 12px; 
             background-color: var(--vscode-sideBar-background, #252526); 
@@ -389,26 +594,80 @@ export class SnippetEditor {
             border: 1px solid rgba(255, 255, 255, 0.2);
             box-shadow: 0 2px 8px rgba(0, 0, 0, 0.3);
           }
-          .language-selector-container {
+          #main {
+            flex-grow: 1;
             display: flex;
-            align-items: center;
-            margin-right: 15px;
+            min-height: 0;
+          }
+          #editor-container {
+            flex-grow: 1;
+            min-width: 0;
+          }
+          #metadata-toggle {
+            padding: 4px 8px;
+            background-color: var(--vscode-button-secondaryBackground, #3a3d41);
+            color: var(--vscode-button-secondaryForeground, #ffffff);
+            border: 1px solid var(--vscode-button-border, transparent);
+            border-radius: 2px;
+            cursor: pointer;
+            outline: none;
+          }
+          #metadata-toggle:hover {
+            background-color: var(--vscode-button-secondaryHoverBackground, #45494e);
           }
-          .language-selector-label {
-            margin-right: 8px;
+          #metadata-panel {
+            width: 280px;
+            flex-shrink: 0;
+            overflow-y: auto;
+            padding: 8px 12px;
+            box-sizing: border-box;
+            background-color: var(--vscode-sideBar-background, #252526);
+            border-left: 1px solid var(--vscode-editorWidget-border, #454545);
+          }
+          .field {
+            margin-bottom: 12px;
+          }
+          .field label {
+            display: block;
+            margin-bottom: 4px;
             color: var(--vscode-foreground);
           }
-          #language-select {
-            background-color: var(--vscode-dropdown-background);
-            color: var(--vscode-dropdown-foreground);
-            border: 1px solid var(--vscode-dropdown-border);
+          .field input, .field select, .field textarea {
+            box-sizing: border-box;
+            width: 100%;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
             padding: 4px 8px;
             border-radius: 2px;
             outline: none;
+            font-family: inherit;
           }
-          #language-select:focus {
+          .field select {
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border-color: var(--vscode-dropdown-border);
+          }
+          .field textarea {
+            height: 120px;
+            resize: vertical;
+            font-family: var(--vscode-editor-font-family);
+          }
+          .field input:focus, .field select:focus, .field textarea:focus {
             border-color: var(--vscode-focusBorder);
           }
+          .field input.invalid {
+            border-color: var(--vscode-inputValidation-errorBorder);
+          }
+          .field-hint {
+            margin-top: 4px;
+            font-size: 0.9em;
+            color: var(--vscode-descriptionForeground);
+          }
+          #metadata-error {
+            margin-bottom: 12px;
+            color: var(--vscode-errorForeground);
+          }
           #debug-toggle {
             margin-left: auto; /* 推到控制栏右侧 */
             padding: 4px 8px;
@@ -428,34 +687,61 @@ export class SnippetEditor {
       <body>
         <div class="controls">
           <button id="save-button" nonce="${nonce}">保存代码片段 (Ctrl+S)</button>
-          <div class="language-selector-container">
-            <label class="language-selector-label" for="language-select">语言:</label>
-            <select id="language-select">
-              <option value="plaintext">纯文本</option>
-              <option value="typescript">TypeScript</option>
-              <option value="javascript">JavaScript</option>
-              <option value="html">HTML</option>
-              <option value="css">CSS</option>
-              <option value="json">JSON</option>
-              <option value="vue">Vue</option>
-              <option value="python">Python</option>
-              <option value="java">Java</option>
-              <option value="csharp">C#</option>
-              <option value="cpp">C++</option>
-              <option value="go">Go</option>
-              <option value="php">PHP</option>
-              <option value="ruby">Ruby</option>
-              <option value="rust">Rust</option>
-              <option value="sql">SQL</option>
-              <option value="markdown">Markdown</option>
-              <option value="yaml">YAML</option>
-              <option value="shell">Shell</option>
-            </select>
-          </div>
+          <button id="metadata-toggle">属性</button>
           <span id="status-message" class="status-message"></span>
           <button id="debug-toggle">显示调试信息</button>
         </div>
-        <div id="editor-container"></div>
+        <div id="main">
+          <div id="editor-container"></div>
+          <div id="metadata-panel">
+            <div id="metadata-error"></div>
+            <div class="field">
+              <label for="name-input">名称</label>
+              <input id="name-input" type="text">
+            </div>
+            <div class="field">
+              <label for="directory-select">目录</label>
+              <select id="directory-select"></select>
+            </div>
+            <div class="field">
+              <label for="language-select">语言</label>
+              <select id="language-select">
+                <option value="plaintext">纯文本</option>
+                <option value="typescript">TypeScript</option>
+                <option value="javascript">JavaScript</option>
+                <option value="html">HTML</option>
+                <option value="css">CSS</option>
+                <option value="json">JSON</option>
+                <option value="vue">Vue</option>
+                <option value="python">Python</option>
+                <option value="java">Java</option>
+                <option value="csharp">C#</option>
+                <option value="cpp">C++</option>
+                <option value="go">Go</option>
+                <option value="php">PHP</option>
+                <option value="ruby">Ruby</option>
+                <option value="rust">Rust</option>
+                <option value="sql">SQL</option>
+                <option value="markdown">Markdown</option>
+                <option value="yaml">YAML</option>
+                <option value="shell">Shell</option>
+              </select>
+            </div>
+            <div class="field">
+              <label for="prefix-input">前缀</label>
+              <input id="prefix-input" type="text" placeholder="智能提示触发前缀">
+            </div>
+            <div class="field">
+              <label for="tags-input">标签</label>
+              <input id="tags-input" type="text" placeholder="多个标签用逗号分隔">
+            </div>
+            <div class="field">
+              <label for="description-input">描述</label>
+              <textarea id="description-input" placeholder="描述代码片段的用途和使用场景（支持 Markdown）"></textarea>
+            </div>
+            <div class="field-hint">名称、目录等属性与代码一起保存</div>
+          </div>
+        </div>
         <div id="debug-info"></div>
 
         <script nonce="${nonce}" src="${monacoLoaderUri}"></script>
@@ -469,6 +755,13 @@ export class SnippetEditor {
           const statusMessageElement = document.getElementById('status-message');
           const debugInfoElement = document.getElementById('debug-info');
           const languageSelect = document.getElementById('language-select');
+          const nameInput = document.getElementById('name-input');
+          const directorySelect = document.getElementById('directory-select');
+          const prefixInput = document.getElementById('prefix-input');
+          const tagsInput = document.getElementById('tags-input');
+          const metadataPanel = document.getElementById('metadata-panel');
+          const metadataError = document.getElementById('metadata-error');
+          const descriptionInput = document.getElementById('description-input');
           let isDebugVisible = false; // 默认隐藏调试面板
           
           // 调试日志函数
@@ -489,6 +782,19 @@ export class SnippetEditor {
             debugInfoElement.style.display = isDebugVisible ? 'block' : 'none';
           });
 
+          // 代码和属性面板中的全部内容，保存时一起提交
+          function getEditorData() {
+            return {
+              code: editor.getValue(),
+              language: currentLanguage,
+              name: nameInput.value,
+              directory: directorySelect.value,
+              prefix: prefixInput.value,
+              tags: tagsInput.value,
+              description: descriptionInput.value
+            };
+          }
+
           function updateStatus(message, isError = false) {
             if (statusMessageElement) {
               statusMessageElement.textContent = message;
@@ -516,15 +822,39 @@ export class SnippetEditor {
             vscode.postMessage({
               type: 'contentChanged',
               snippetId: currentSnippetId,
-              data: { 
-                code: editor.getValue(),
-                language: currentLanguage 
-              }
+              data: getEditorData()
             });
             
             updateStatus('语言已更改为: ' + currentLanguage);
           });
 
+          // 初始化属性面板切换按钮
+          document.getElementById('metadata-toggle').addEventListener('click', () => {
+            const isHidden = metadataPanel.style.display === 'none';
+            metadataPanel.style.display = isHidden ? 'block' : 'none';
+          });
+
+          // 初始化属性面板中的输入框
+          function handleMetadataInput() {
+            if (!editor) return;
+
+            internalDirtyFlag = true;
+
+            vscode.postMessage({
+              type: 'contentChanged',
+              snippetId: currentSnippetId,
+              data: getEditorData()
+            });
+
+            updateStatus('未保存的更改');
+          }
+
+          nameInput.addEventListener('input', handleMetadataInput);
+          directorySelect.addEventListener('change', handleMetadataInput);
+          prefixInput.addEventListener('input', handleMetadataInput);
+          tagsInput.addEventListener('input', handleMetadataInput);
+          descriptionInput.addEventListener('input', handleMetadataInput);
+
           debugLog('WebView 初始化完成');
           debugLog('Snippet ID: ' + currentSnippetId);
           debugLog('发送 ready 消息到扩展');
@@ -547,6 +877,21 @@ export class SnippetEditor {
                 
                 // 更新当前语言并设置选择器的值
                 currentLanguage = message.data.language;
+                nameInput.value = message.data.name || '';
+                prefixInput.value = message.data.prefix || '';
+                tagsInput.value = (message.data.tags || []).join(', ');
+                descriptionInput.value = message.data.description || '';
+
+                // 目录列表，V2以外的格式不能移动代码片段
+                directorySelect.innerHTML = '';
+                (message.data.directories || [message.data.directory]).forEach((directoryPath) => {
+                  const option = document.createElement('option');
+                  option.value = directoryPath;
+                  option.text = directoryPath === '/' ? '/（根目录）' : directoryPath;
+                  directorySelect.add(option);
+                });
+                directorySelect.value = message.data.directory;
+                directorySelect.disabled = !message.data.directories;
                 
                 // 设置语言选择器的初始值
                 if (languageSelect && currentLanguage) {
@@ -632,10 +977,7 @@ export class SnippetEditor {
                         vscode.postMessage({ 
                           type: 'contentChanged', 
                           snippetId: currentSnippetId, 
-                          data: { 
-                            code: editor.getValue(),
-                            language: currentLanguage
-                          } 
+                          data: getEditorData()
                         });
                         updateStatus('未保存的更改');
                         debugLog('内容已更改，已发送 contentChanged 消息');
@@ -685,6 +1027,11 @@ export class SnippetEditor {
                 debugLog('保存成功 (方式: ' + saveMethod + ')');
                 internalDirtyFlag = false; 
                 saveInProgress = false;
+                // 重命名或移动后代码片段的标识随路径变化
+                if (message.newSnippetId) {
+                  currentSnippetId = message.newSnippetId;
+                }
+                metadataError.textContent = '';
                 const successMessage = saveMethod === 'shortcut' ? '已保存! (Ctrl+S)' : '已保存!';
                 updateStatus(successMessage);
                 break;
@@ -697,6 +1044,11 @@ export class SnippetEditor {
                 updateStatus(errorMessage, true);
                 // 显示详细错误信息
                 debugLog('错误详情: ' + errorDetails);
+                metadataError.textContent = errorDetails;
+                break;
+              case 'metadataValidation':
+                metadataError.textContent = message.error || '';
+                nameInput.classList.toggle('invalid', !!message.error);
                 break;
             }
           });
@@ -714,8 +1066,7 @@ export class SnippetEditor {
                 type: 'saveSnippet',
                 snippetId: currentSnippetId,
                 data: {
-                  code: codeToSave,
-                  language: currentLanguage,
+                  ...getEditorData(),
                   saveMethod: saveMethod
                 }
               });
@@ -745,3 +1096,32 @@ export class SnippetEditor {
       </html>`
   }
 }
+
+/**
+ * 获取代码片段所在的目录路径（以 / 结尾）
+ */
+function getParentPath(fullPath: string): string {
+  return fullPath.substring(0, fullPath.lastIndexOf('/') + 1)
+}
+
+/**
+ * 规范化目录路径，确保以 / 结尾（从Git仓库推导的目录路径可能没有结尾的 /）
+ */
+function toDirectoryPath(fullPath: string): string {
+  return fullPath.endsWith('/') ? fullPath : `${fullPath}/`
+}
+
+/**
+ * 代码片段分类显示的目录名称，与“移动到目录”命令一致
+ */
+function getDirectoryLabel(directoryPath: string): string {
+  const parts = directoryPath.split('/').filter((p) => p)
+  return parts.length > 0 ? parts[parts.length - 1] : '根目录'
+}
+
+/**
+ * 获取未保存的 starcode: 文档
+ */
+function getDirtySnippetDocuments(): vscode.TextDocument[] {
+  return vscode.workspace.textDocuments.filter((document) => document.uri.scheme === SNIPPET_SCHEME && document.isDirty)
+}
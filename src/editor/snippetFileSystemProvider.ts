@@ -0,0 +1,390 @@
+import * as vscode from 'vscode'
+import { CodeSnippet, Directory } from '../types/types'
+import { StorageManager } from '../storage/storageManager'
+import { StorageContext } from '../utils/storageContext'
+import { TrashManager } from '../utils/trashManager'
+import { RevisionHistoryManager } from '../utils/revisionHistoryManager'
+import { fromVSCodeLanguageId, getVSCodeLanguageIds } from '../utils/languageUtils'
+import {
+  validateFileSystemSafety,
+  checkSnippetDirectoryConflict,
+  checkDirectorySnippetConflict,
+} from '../utils/nameValidator'
+
+export const SNIPPET_SCHEME = 'starcode'
+
+/**
+ * 以 starcode: 文件系统的形式提供代码片段库（仅支持V2格式）
+ * 代码片段是文件，目录是文件夹，URI 的路径即代码片段的 fullPath，如 starcode:/lims/人员选择template。
+ * 代码片段作为普通文本文档打开，可以使用语言服务、格式化、快捷键和其他扩展；
+ * 保存通过 StorageManager.updateSnippet 写回代码库，重命名、移动和删除对应代码库中的操作（删除会移入回收站）
+ */
+export class SnippetFileSystemProvider implements vscode.FileSystemProvider, vscode.Disposable {
+  private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>()
+  readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event
+
+  // 文件的修改时间：代码片段没有修改时间，代码变化时记为当前时间，VS Code 据此判断文档是否需要重新加载
+  private mtimes = new Map<string, { code: string; mtime: number }>()
+  private disposables: vscode.Disposable[] = []
+
+  constructor(
+    private storageManager: StorageManager,
+    private storageContext: StorageContext,
+    private trashManager: TrashManager,
+    private revisionHistory: RevisionHistoryManager | undefined,
+    private onDidChangeLibrary: () => void
+  ) {
+    this.disposables.push(
+      // 代码库在其他地方被修改（树视图、同步等）时通知已打开的文档重新读取
+      this.storageContext.onDidChangeData(() => {
+        const events = vscode.workspace.textDocuments
+          .filter((document) => document.uri.scheme === SNIPPET_SCHEME)
+          .map((document) => ({ type: vscode.FileChangeType.Changed, uri: document.uri }))
+        if (events.length > 0) {
+          this._onDidChangeFile.fire(events)
+        }
+      }),
+      // 路径中没有扩展名，打开时按代码片段的语言设置文档语言
+      vscode.workspace.onDidOpenTextDocument((document) => this.applySnippetLanguage(document))
+    )
+  }
+
+  /**
+   * 注册 starcode: 文件系统
+   */
+  public static register(
+    context: vscode.ExtensionContext,
+    storageManager: StorageManager,
+    storageContext: StorageContext,
+    trashManager: TrashManager,
+    revisionHistory: RevisionHistoryManager | undefined,
+    onDidChangeLibrary: () => void
+  ): SnippetFileSystemProvider {
+    const provider = new SnippetFileSystemProvider(
+      storageManager,
+      storageContext,
+      trashManager,
+      revisionHistory,
+      onDidChangeLibrary
+    )
+    context.subscriptions.push(
+      provider,
+      vscode.workspace.registerFileSystemProvider(SNIPPET_SCHEME, provider, { isCaseSensitive: true })
+    )
+    return provider
+  }
+
+  /**
+   * 获取代码片段或目录对应的 URI
+   */
+  public static toUri(fullPath: string): vscode.Uri {
+    return vscode.Uri.from({ scheme: SNIPPET_SCHEME, path: fullPath.replace(/(.)\/$/, '$1') })
+  }
+
+  public watch(): vscode.Disposable {
+    // 代码库的所有变化都通过 onDidChangeData 通知，不需要单独监听
+    return new vscode.Disposable(() => {})
+  }
+
+  public async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const snippet = await this.getSnippet(uri)
+    if (snippet) {
+      return {
+        type: vscode.FileType.File,
+        ctime: snippet.createTime || 0,
+        mtime: this.getMtime(snippet),
+        size: Buffer.byteLength(snippet.code || '', 'utf8'),
+      }
+    }
+    if (await this.getDirectory(uri)) {
+      return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 }
+    }
+    throw vscode.FileSystemError.FileNotFound(uri)
+  }
+
+  public async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    if (!(await this.getDirectory(uri))) {
+      throw vscode.FileSystemError.FileNotADirectory(uri)
+    }
+
+    const directoryPath = toDirectoryPath(uri.path)
+    const [snippets, directories]: [CodeSnippet[], Directory[]] = await Promise.all([
+      this.storageContext.getAllSnippets(),
+      this.storageContext.getAllDirectories(),
+    ])
+    return [
+      ...directories
+        .filter((d) => getParentPath(d.fullPath) === directoryPath)
+        .map((d): [string, vscode.FileType] => [d.name, vscode.FileType.Directory]),
+      ...snippets
+        .filter((s) => getParentPath(s.fullPath) === directoryPath)
+        .map((s): [string, vscode.FileType] => [s.name, vscode.FileType.File]),
+    ]
+  }
+
+  public async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const snippet = await this.getSnippet(uri)
+    if (!snippet) {
+      throw vscode.FileSystemError.FileNotFound(uri)
+    }
+    return Buffer.from(snippet.code || '', 'utf8')
+  }
+
+  public async writeFile(
+    uri: vscode.Uri,
+    content: Uint8Array,
+    options: { readonly create: boolean; readonly overwrite: boolean }
+  ): Promise<void> {
+    const code = Buffer.from(content).toString('utf8')
+    const snippet = await this.getSnippet(uri)
+
+    if (snippet) {
+      if (!options.overwrite) {
+        throw vscode.FileSystemError.FileExists(uri)
+      }
+      const updatedSnippet: CodeSnippet = { ...snippet, code }
+      await this.storageManager.updateSnippet(updatedSnippet)
+      try {
+        await this.revisionHistory?.recordRevision(updatedSnippet, snippet)
+      } catch (error) {
+        console.error('记录修订版本失败:', error)
+      }
+      this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }])
+    } else {
+      if (!options.create) {
+        throw vscode.FileSystemError.FileNotFound(uri)
+      }
+      await this.createSnippet(uri, code)
+      this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Created, uri }])
+    }
+    this.onDidChangeLibrary()
+  }
+
+  public async createDirectory(uri: vscode.Uri): Promise<void> {
+    const { name, parentPath } = await this.checkNewEntry(uri)
+    const snippets: CodeSnippet[] = await this.storageContext.getAllSnippets()
+    if (checkDirectorySnippetConflict(name, snippets, parentPath, 'v2')) {
+      throw vscode.FileSystemError.FileExists(uri)
+    }
+
+    await this.storageContext.createDirectory({ name, fullPath: `${parentPath}${name}/`, order: 0 })
+    this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Created, uri }])
+    this.onDidChangeLibrary()
+  }
+
+  public async delete(uri: vscode.Uri, options: { readonly recursive: boolean }): Promise<void> {
+    this.checkStorageVersion()
+
+    const snippet = await this.getSnippet(uri)
+    const directory = snippet ? undefined : await this.getDirectory(uri)
+    if (snippet) {
+      await this.trashManager.trashSnippet(snippet)
+    } else if (directory && directory.fullPath !== '/') {
+      if (!options.recursive && (await this.readDirectory(uri)).length > 0) {
+        throw vscode.FileSystemError.NoPermissions('目录不为空')
+      }
+      await this.trashManager.trashDirectory(directory)
+    } else {
+      throw vscode.FileSystemError.FileNotFound(uri)
+    }
+
+    this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Deleted, uri }])
+    this.onDidChangeLibrary()
+  }
+
+  public async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { readonly overwrite: boolean }): Promise<void> {
+    const snippet = await this.getSnippet(oldUri)
+    const directory = snippet ? undefined : await this.getDirectory(oldUri)
+    if (!snippet && (!directory || directory.fullPath === '/')) {
+      throw vscode.FileSystemError.FileNotFound(oldUri)
+    }
+
+    // 覆盖同名代码片段时，被覆盖的代码片段不参与是否已存在的校验，校验通过后在移动前移入回收站
+    const overwrittenSnippet = snippet && options.overwrite ? await this.getSnippet(newUri) : undefined
+    const { name, parentPath } = await this.checkNewEntry(newUri, overwrittenSnippet)
+    if (snippet) {
+      await this.moveSnippet(snippet, name, parentPath, newUri, overwrittenSnippet)
+    } else {
+      await this.moveDirectory(directory!, name, parentPath, newUri)
+    }
+
+    this._onDidChangeFile.fire([
+      { type: vscode.FileChangeType.Deleted, uri: oldUri },
+      { type: vscode.FileChangeType.Created, uri: newUri },
+    ])
+    this.onDidChangeLibrary()
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((d) => d.dispose())
+    this.disposables = []
+    this._onDidChangeFile.dispose()
+  }
+
+  private async moveSnippet(
+    snippet: CodeSnippet,
+    name: string,
+    parentPath: string,
+    uri: vscode.Uri,
+    overwrittenSnippet?: CodeSnippet
+  ): Promise<void> {
+    const directories: Directory[] = await this.storageContext.getAllDirectories()
+    if (checkSnippetDirectoryConflict(name, directories, parentPath, 'v2')) {
+      throw vscode.FileSystemError.FileExists(uri)
+    }
+
+    if (overwrittenSnippet) {
+      await this.trashManager.trashSnippet(overwrittenSnippet)
+    }
+
+    await this.storageContext.moveSnippet(snippet.fullPath, {
+      ...snippet,
+      name,
+      fullPath: `${parentPath}${name}`,
+      category: getDirectoryLabel(parentPath),
+    })
+  }
+
+  private async moveDirectory(directory: Directory, name: string, parentPath: string, uri: vscode.Uri): Promise<void> {
+    const oldPath = toDirectoryPath(directory.fullPath)
+    const newPath = `${parentPath}${name}/`
+    if (newPath.startsWith(oldPath)) {
+      throw vscode.FileSystemError.NoPermissions('不能将目录移动到自身或其子目录中')
+    }
+
+    const snippets: CodeSnippet[] = await this.storageContext.getAllSnippets()
+    if (checkDirectorySnippetConflict(name, snippets, parentPath, 'v2')) {
+      throw vscode.FileSystemError.FileExists(uri)
+    }
+
+    await this.storageContext.moveDirectory(directory.fullPath, { ...directory, name, fullPath: newPath })
+  }
+
+  /**
+   * 在已存在的目录中创建代码片段（如“另存为”），语言取自已打开的同名文档
+   */
+  private async createSnippet(uri: vscode.Uri, code: string): Promise<void> {
+    const { name, parentPath } = await this.checkNewEntry(uri)
+    const directories: Directory[] = await this.storageContext.getAllDirectories()
+    if (checkSnippetDirectoryConflict(name, directories, parentPath, 'v2')) {
+      throw vscode.FileSystemError.FileExists(uri)
+    }
+
+    const document = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString())
+    await this.storageContext.saveSnippet({
+      name,
+      code,
+      language: document ? fromVSCodeLanguageId(document.languageId) : 'plaintext',
+      fileName: '',
+      filePath: '',
+      category: getDirectoryLabel(parentPath),
+      fullPath: `${parentPath}${name}`,
+      order: 0,
+      createTime: Date.now(),
+    })
+  }
+
+  /**
+   * 检查新的代码片段或目录：名称有效、所在目录存在且目标位置为空
+   * overwrittenSnippet 为覆盖时将移入回收站的代码片段，不视为已存在
+   */
+  private async checkNewEntry(
+    uri: vscode.Uri,
+    overwrittenSnippet?: CodeSnippet
+  ): Promise<{ name: string; parentPath: string }> {
+    this.checkStorageVersion()
+
+    const name = uri.path.substring(uri.path.lastIndexOf('/') + 1)
+    const validation = validateFileSystemSafety(name)
+    if (!validation.isValid) {
+      throw vscode.FileSystemError.NoPermissions(`名称无效: ${validation.error}`)
+    }
+
+    const parentPath = getParentPath(uri.path)
+    if (!(await this.getDirectory(SnippetFileSystemProvider.toUri(parentPath)))) {
+      throw vscode.FileSystemError.FileNotFound(SnippetFileSystemProvider.toUri(parentPath))
+    }
+    if ((!overwrittenSnippet && (await this.getSnippet(uri))) || (await this.getDirectory(uri))) {
+      throw vscode.FileSystemError.FileExists(uri)
+    }
+    return { name, parentPath }
+  }
+
+  private checkStorageVersion(): void {
+    if (this.storageContext.getCurrentStorageVersion() !== 'v2') {
+      throw vscode.FileSystemError.NoPermissions('仅支持 V2 存储格式，请先迁移数据')
+    }
+  }
+
+  private async getSnippet(uri: vscode.Uri): Promise<CodeSnippet | undefined> {
+    if (uri.path === '/' || uri.path.endsWith('/')) {
+      return undefined
+    }
+    return (await this.storageContext.getSnippetByPath(uri.path)) || undefined
+  }
+
+  /**
+   * 获取目录，根目录返回虚拟的 / 目录（从Git仓库推导的目录路径可能没有结尾的 /）
+   */
+  private async getDirectory(uri: vscode.Uri): Promise<Directory | undefined> {
+    const directoryPath = toDirectoryPath(uri.path)
+    if (directoryPath === '/') {
+      return { name: '', fullPath: '/', order: 0 }
+    }
+    const directories: Directory[] = await this.storageContext.getAllDirectories()
+    return directories.find((d) => toDirectoryPath(d.fullPath) === directoryPath)
+  }
+
+  private getMtime(snippet: CodeSnippet): number {
+    const code = snippet.code || ''
+    let entry = this.mtimes.get(snippet.fullPath)
+    if (!entry || entry.code !== code) {
+      entry = { code, mtime: Math.max(Date.now(), (entry?.mtime ?? 0) + 1) }
+      this.mtimes.set(snippet.fullPath, entry)
+    }
+    return entry.mtime
+  }
+
+  private async applySnippetLanguage(document: vscode.TextDocument): Promise<void> {
+    if (document.uri.scheme !== SNIPPET_SCHEME || document.languageId !== 'plaintext') {
+      return
+    }
+
+    try {
+      const snippet = await this.getSnippet(document.uri)
+      if (!snippet?.language || snippet.language === 'plaintext') {
+        return
+      }
+      const availableLanguages = await vscode.languages.getLanguages()
+      const languageId = getVSCodeLanguageIds(snippet.language).find((id) => availableLanguages.includes(id))
+      if (languageId) {
+        await vscode.languages.setTextDocumentLanguage(document, languageId)
+      }
+    } catch (error) {
+      console.warn('设置代码片段文档语言失败:', error)
+    }
+  }
+}
+
+/**
+ * 获取代码片段或目录所在的父目录路径（以 / 结尾）
+ */
+function getParentPath(fullPath: string): string {
+  const trimmed = fullPath.replace(/\/$/, '')
+  return trimmed.substring(0, trimmed.lastIndexOf('/') + 1)
+}
+
+/**
+ * 规范化目录路径，确保以 / 结尾（从Git仓库推导的目录路径可能没有结尾的 /）
+ */
+function toDirectoryPath(fullPath: string): string {
+  return fullPath.endsWith('/') ? fullPath : `${fullPath}/`
+}
+
+/**
+ * 代码片段分类显示的目录名称，与“移动到目录”命令一致
+ */
+function getDirectoryLabel(directoryPath: string): string {
+  const parts = directoryPath.split('/').filter((p) => p)
+  return parts.length > 0 ? parts[parts.length - 1] : '根目录'
+}
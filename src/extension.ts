@@ -3,11 +3,17 @@ import { StorageManager } from './storage/storageManager'
 import { v4 as uuidv4 } from 'uuid'
 import { CodeSnippet, Directory } from './types/types'
 import { SnippetEditor } from './editor/snippetEditor'
+import { SnippetFileSystemProvider } from './editor/snippetFileSystemProvider'
 import { SnippetsTreeDataProvider } from './provider/treeProvider'
+import { SnippetCompletionProvider } from './provider/snippetCompletionProvider'
+import { SnippetDragAndDropController } from './provider/snippetDragAndDropController'
 import { ImportExportManager } from './utils/importExport'
-import { SearchManager } from './utils/searchManager'
+import { SearchManager, SearchMode } from './utils/searchManager'
+import { SnippetSearchIndex } from './utils/snippetSearchIndex'
 import { SettingsWebviewProvider } from './provider/settingsWebviewProvider'
 import { HistoryWebviewProvider } from './provider/historyWebviewProvider'
+import { SnippetHistoryWebviewProvider } from './provider/snippetHistoryWebviewProvider'
+import { LibraryTimeMachineWebviewProvider } from './provider/libraryTimeMachineWebviewProvider'
 import { DataViewerWebviewProvider } from './provider/dataViewerWebviewProvider'
 import { SettingsManager } from './utils/settingsManager'
 import { CloudSyncManager } from './utils/cloudSyncManager'
@@ -18,6 +24,16 @@ import { StorageStrategyFactory, V1StorageStrategy, V2StorageStrategy } from './
 import { StorageContext } from './utils/storageContext'
 import { PathBasedManager } from './utils/pathBasedManager'
 import { ContextMenuManager } from './utils/contextMenuManager'
+import { CodeSnippetsMirrorManager } from './utils/codeSnippetsMirrorManager'
+import { TrashManager } from './utils/trashManager'
+import { RevisionHistoryManager } from './utils/revisionHistoryManager'
+import { ProjectLibrary, PROJECT_LIBRARY_ROOT, isProjectLibraryPath } from './utils/projectLibrary'
+import { LibraryManager } from './utils/libraryManager'
+import { SnippetGitHistoryManager } from './utils/sync/snippetGitHistoryManager'
+import { LibraryTimeMachine } from './utils/sync/libraryTimeMachine'
+import { findMatchingItem } from './utils/snippetIdentityUtils'
+import { normalizeTags } from './utils/tagUtils'
+import { toCommentBlock, SNIPPET_LANGUAGES, withLanguageSuffix } from './utils/languageUtils'
 import { 
   validateFileSystemSafety, 
   checkSnippetDirectoryConflict, 
@@ -310,22 +326,50 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       }
     })()
 
+    // 创建项目代码库，代码片段保存在工作区的 .starcode 目录中
+    const projectLibrary = new ProjectLibrary(storageContext)
+    context.subscriptions.push(projectLibrary)
+
+    // 创建代码库管理器，在状态栏显示当前代码库并切换
+    const libraryManager = new LibraryManager(context, storageContext)
+    context.subscriptions.push(libraryManager)
+
     // 创建适配的StorageManager，代理到StorageContext
     const storageManager = new StorageManager(context)
     
     // 重写StorageManager的关键方法，代理到StorageContext
+    // 项目代码库的路径以 /.starcode/ 开头，写入时转到项目代码库；读取只返回全局代码库，云端同步不包含项目代码库
     storageManager.getAllSnippets = () => storageContext.getAllSnippets()
     storageManager.getAllDirectories = () => storageContext.getAllDirectories()
-    storageManager.saveSnippet = (snippet: any) => storageContext.saveSnippet(snippet)
-    storageManager.updateSnippet = (snippet: any) => storageContext.updateSnippet(snippet)
-    storageManager.deleteSnippet = (id: string) => storageContext.deleteSnippet(id)
-    storageManager.createDirectory = (directory: any) => storageContext.createDirectory(directory)
-    storageManager.updateDirectory = (directory: any) => storageContext.updateDirectory(directory)
-    storageManager.deleteDirectory = (id: string) => storageContext.deleteDirectory(id)
-    storageManager.clearCache = () => storageContext.clearCache()
+    storageManager.saveSnippet = (snippet: any) =>
+      isProjectLibraryPath(snippet.fullPath) ? projectLibrary.saveSnippet(snippet) : storageContext.saveSnippet(snippet)
+    storageManager.updateSnippet = (snippet: any) =>
+      isProjectLibraryPath(snippet.fullPath) ? projectLibrary.updateSnippet(snippet) : storageContext.updateSnippet(snippet)
+    storageManager.deleteSnippet = (id: string) =>
+      isProjectLibraryPath(id) ? projectLibrary.deleteSnippet(id) : storageContext.deleteSnippet(id)
+    storageManager.moveSnippet = async (oldFullPath: string, snippet: any) => {
+      const fromProject = isProjectLibraryPath(oldFullPath)
+      if (fromProject === isProjectLibraryPath(snippet.fullPath)) {
+        return fromProject ? projectLibrary.moveSnippet(oldFullPath, snippet) : storageContext.moveSnippet(oldFullPath, snippet)
+      }
+      // 在全局代码库和项目代码库之间移动时先写入目标代码库，再从原代码库删除
+      await storageManager.saveSnippet(snippet)
+      await storageManager.deleteSnippet(oldFullPath)
+    }
+    storageManager.createDirectory = (directory: any) =>
+      isProjectLibraryPath(directory.fullPath) ? projectLibrary.createDirectory(directory) : storageContext.createDirectory(directory)
+    storageManager.updateDirectory = (directory: any) =>
+      isProjectLibraryPath(directory.fullPath) ? projectLibrary.updateDirectory(directory) : storageContext.updateDirectory(directory)
+    storageManager.deleteDirectory = (id: string) =>
+      isProjectLibraryPath(id) ? projectLibrary.deleteDirectory(id) : storageContext.deleteDirectory(id)
+    storageManager.clearCache = () => {
+      projectLibrary.clearCache()
+      return storageContext.clearCache()
+    }
     
     // 添加V2格式支持的方法
-    ;(storageManager as any).getSnippetByPath = (path: string) => storageContext.getSnippetByPath(path)
+    ;(storageManager as any).getSnippetByPath = (path: string) =>
+      isProjectLibraryPath(path) ? projectLibrary.getSnippetByPath(path) : storageContext.getSnippetByPath(path)
     ;(storageManager as any).getDirectoryByPath = (path: string) => storageContext.getDirectoryByPath(path)
     ;(storageManager as any).getSnippetById = (id: string) => storageContext.getSnippetById(id)
     ;(storageManager as any).getDirectoryById = (id: string) => storageContext.getDirectoryById(id)
@@ -334,12 +378,21 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     ;(storageManager as any).getStorageContext = () => storageContext
 
     // 创建标准组件
-    const searchManager = new SearchManager()
+    const searchIndex = new SnippetSearchIndex(storageContext)
+    context.subscriptions.push(searchIndex)
+    const searchManager = new SearchManager(searchIndex)
     const treeDataProvider = new SnippetsTreeDataProvider(storageManager, searchManager)
     
     // 设置TreeDataProvider的扩展上下文以启用详细状态管理
     treeDataProvider.setContext(context)
 
+    // 创建回收站管理器，并清除超过保留天数的条目
+    const trashManager = new TrashManager(context, storageContext)
+    treeDataProvider.setTrashManager(trashManager)
+    treeDataProvider.setProjectLibrary(projectLibrary)
+    context.subscriptions.push(trashManager)
+    trashManager.purgeExpired().catch((error) => console.error('清除过期回收站条目失败:', error))
+
     // 添加在注册命令前，注册迁移命令
     context.subscriptions.push(...registerMigrateCommands(context, storageContext))
 
@@ -404,7 +457,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     const treeView = vscode.window.createTreeView('starCodeSnippetsExplorer', {
       treeDataProvider: treeDataProvider,
       showCollapseAll: true,
-      canSelectMany: false,
+      canSelectMany: true,
+      dragAndDropController: new SnippetDragAndDropController(storageContext, () => treeDataProvider.refresh()),
     })
 
     // console.log('树视图注册成功，ID:', treeView.title)
@@ -417,6 +471,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       },
     })
 
+    // 注册智能提示提供程序，随树视图刷新同步更新代码片段
+    context.subscriptions.push(...SnippetCompletionProvider.register(storageManager, treeDataProvider.onDidChangeTreeData, projectLibrary))
+
+    // 将代码片段库镜像到 VS Code 原生 .code-snippets 文件（按配置启用）
+    context.subscriptions.push(new CodeSnippetsMirrorManager(context, storageContext))
+
     // 确保树视图在激活后能正确显示内容
     setTimeout(() => {
       treeDataProvider.refresh()
@@ -441,13 +501,31 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     try {
       // 初始化代码片段编辑器
       // console.log('初始化代码片段编辑器...')
-      const snippetEditor = SnippetEditor.initialize(context, storageManager)
+      // 创建本地修订历史管理器，编辑器每次保存时记录修订版本
+      const revisionHistoryManager = new RevisionHistoryManager(context)
+      context.subscriptions.push(revisionHistoryManager)
+
+      const snippetEditor = SnippetEditor.initialize(context, storageManager, revisionHistoryManager, projectLibrary)
+
+      // 注册 starcode: 文件系统，代码片段以普通文本文档编辑，保存、重命名和删除同步到代码库
+      SnippetFileSystemProvider.register(context, storageManager, storageContext, trashManager, revisionHistoryManager, () =>
+        treeDataProvider.refresh()
+      )
 
       // 监听SnippetEditor的保存事件，以便刷新视图
       snippetEditor.onDidSaveSnippet(() => {
         treeDataProvider.refresh()
       })
 
+      // 切换代码库前先保存正在编辑的代码片段，切换后关闭编辑面板并刷新视图
+      libraryManager.setPendingEdits(snippetEditor)
+      context.subscriptions.push(
+        libraryManager.onDidSwitchLibrary(() => {
+          snippetEditor.closeAllSessions()
+          treeDataProvider.refresh()
+        })
+      )
+
       // 注册完成编辑命令
       // console.log('注册完成编辑命令...')
       const finishEditing = vscode.commands.registerCommand('starcode-snippets.finishEditing', async () => {
@@ -468,7 +546,11 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         treeDataProvider,
         searchManager,
         autoSyncManager,
-        storageContext
+        storageContext,
+        trashManager,
+        revisionHistoryManager,
+        projectLibrary,
+        libraryManager
       )
 
       // 添加命令到订阅中
@@ -487,8 +569,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
           // 添加配置变化监听器
     const configurationChangeListener = vscode.workspace.onDidChangeConfiguration(event => {
-      // 检查是否是云端同步相关的配置变化
-      if (event.affectsConfiguration('starcode-snippets.multiPlatformCloudSync')) {
+      // 检查是否是云端同步相关的配置变化（切换代码库或修改代码库绑定的同步配置时同样需要重启）
+      if (
+        event.affectsConfiguration('starcode-snippets.multiPlatformCloudSync') ||
+        event.affectsConfiguration('starcode-snippets.libraries') ||
+        event.affectsConfiguration('starcode-snippets.activeLibraryId')
+      ) {
         console.log('检测到云端同步配置变化，重启自动同步...')
         
         // 延迟一点时间确保配置已经更新
@@ -538,13 +624,20 @@ function registerCommands(
   treeDataProvider: SnippetsTreeDataProvider,
   searchManager: SearchManager,
   autoSyncManager: AutoSyncManager,
-  storageContext: StorageContext
+  storageContext: StorageContext,
+  trashManager: TrashManager,
+  revisionHistoryManager: RevisionHistoryManager,
+  projectLibrary: ProjectLibrary,
+  libraryManager: LibraryManager
 ): vscode.Disposable[] {
   // 创建导入导出管理器
   const importExportManager = new ImportExportManager(storageManager, storageContext)
   
   // 创建上下文菜单管理器
-  const contextMenuManager = new ContextMenuManager(storageManager, storageContext)
+  const contextMenuManager = new ContextMenuManager(storageManager, storageContext, projectLibrary)
+
+  // 批量移动复用拖放控制器的移动逻辑
+  const snippetMover = new SnippetDragAndDropController(storageContext, () => refreshTreeView())
 
   // 内部刷新视图函数
   function refreshTreeView(): void {
@@ -552,6 +645,95 @@ function registerCommands(
     // console.log('视图已刷新')
   }
 
+  /**
+   * 获取命令作用的树节点：从多选中的节点触发时为所有选中的节点，否则为触发命令的节点
+   */
+  function getTargetItems(item: any, selectedItems?: any[]): any[] {
+    if (item && selectedItems && selectedItems.length > 1 && selectedItems.includes(item)) {
+      return selectedItems.filter((selected) => selected.snippet || selected.directory)
+    }
+    return item?.snippet || item?.directory ? [item] : []
+  }
+
+  /**
+   * 选择保存到全局代码库还是项目代码库，返回所选代码库的根路径，取消时返回 undefined
+   * 项目代码库不可用（未打开工作区、未启用或为V1格式）时直接使用全局代码库
+   */
+  async function pickLibraryRoot(): Promise<string | undefined> {
+    if (!projectLibrary.isAvailable()) {
+      return '/'
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      [
+        { label: '$(globe) 全局代码库', description: '在所有项目中可用，参与云端同步', root: '/' },
+        {
+          label: `$(repo) ${projectLibrary.getLabel()}`,
+          description: '保存在工作区的 .starcode 目录中，随项目一起提交',
+          root: PROJECT_LIBRARY_ROOT,
+        },
+      ],
+      { placeHolder: '选择保存到哪个代码库' }
+    )
+    return selected?.root
+  }
+
+  /**
+   * 按路径查找代码片段，项目代码库的路径在项目代码库中查找
+   */
+  async function findSnippetByPath(fullPath: string): Promise<CodeSnippet | null> {
+    return isProjectLibraryPath(fullPath) ? projectLibrary.getSnippetByPath(fullPath) : storageContext.getSnippetByPath(fullPath)
+  }
+
+  /**
+   * 获取全局代码库和项目代码库中的所有代码片段，用于搜索和插入
+   */
+  async function getAllLibrarySnippets(): Promise<CodeSnippet[]> {
+    const [snippets, projectSnippets] = await Promise.all([storageManager.getAllSnippets(), projectLibrary.getAllSnippets()])
+    return [...snippets, ...projectSnippets]
+  }
+
+  /**
+   * 判断代码片段或目录是否位于指定的某个目录之下
+   */
+  function isInsideDirectories(entry: any, directories: any[], allDirectories: any[]): boolean {
+    if (entry.fullPath) {
+      return directories.some((directory) => {
+        const directoryPath = directory.fullPath.endsWith('/') ? directory.fullPath : `${directory.fullPath}/`
+        return entry.fullPath !== directoryPath && entry.fullPath.startsWith(directoryPath)
+      })
+    }
+
+    // V1格式：沿parentId向上查找
+    const directoryIds = new Set(directories.map((directory) => directory.id))
+    let parentId = entry.parentId
+    while (parentId) {
+      if (directoryIds.has(parentId)) {
+        return true
+      }
+      parentId = allDirectories.find((directory) => directory.id === parentId)?.parentId
+    }
+    return false
+  }
+
+  /**
+   * 收集选中节点包含的代码片段，选中的目录展开为其下的所有代码片段
+   */
+  async function collectSnippets(items: any[]): Promise<any[]> {
+    const selectedDirectories = items.filter((i) => i.directory).map((i) => i.directory)
+    if (selectedDirectories.length === 0) {
+      return items.map((i) => i.snippet)
+    }
+
+    const [allSnippets, allDirectories] = await Promise.all([getAllLibrarySnippets(), storageManager.getAllDirectories()])
+    const selectedSnippetIds = new Set(items.filter((i) => i.snippet).map((i) => getSnippetId(i.snippet)))
+    return allSnippets.filter(
+      (snippet: any) =>
+        selectedSnippetIds.has(getSnippetId(snippet)) ||
+        isInsideDirectories(snippet, selectedDirectories, allDirectories)
+    )
+  }
+
   // V2兼容性辅助函数
   function getSnippetId(snippet: any): string {
     // V2格式：使用fullPath作为唯一标识符
@@ -581,19 +763,71 @@ function registerCommands(
   }
 
   // 插入代码片段的通用函数
+  // 默认按 VS Code 代码片段语法插入（支持 $1、${1:name}、${1|a,b|}、$0 等占位符），
+  // 标记为纯文本插入的代码片段则原样插入，避免 shell、PHP 等代码中的 $ 被解析
   async function insertSnippet(snippet: any): Promise<boolean> {
     const editor = vscode.window.activeTextEditor
     if (editor) {
       const position = editor.selection.active
-      await editor.edit((editBuilder) => {
-        editBuilder.insert(position, snippet.code)
-      })
+      if (snippet.insertAsPlainText) {
+        await editor.edit((editBuilder) => {
+          editBuilder.insert(position, snippet.code)
+        })
+      } else {
+        await editor.insertSnippet(new vscode.SnippetString(snippet.code), position)
+      }
       await vscode.commands.executeCommand('workbench.action.focusActiveEditorGroup')
       return true
     }
     return false
   }
 
+  // 在侧边以只读文档预览代码片段，preserveFocus 为 true 时焦点保留在当前位置（如导航器的输入框）
+  async function showSnippetPreview(snippet: any, preserveFocus: boolean): Promise<vscode.Uri> {
+    const language = snippet.language || 'plaintext'
+    const snippetId = getSnippetId(snippet)
+    const scheme = 'starcode-preview'
+    const safeName = snippet.name || '未命名代码片段'
+    const safeSnippetId = snippetId.replace(/[/\\:*?"<>|]/g, '_')
+    const uri = vscode.Uri.parse(`${scheme}:${safeName}_${safeSnippetId}.${language}`)
+
+    if (!TextDocumentContentProvider.instance) {
+      TextDocumentContentProvider.register(context)
+    }
+
+    // 如果代码片段为空，显示友好提示
+    let codeContent = snippet.code || '// 这是一个空的代码片段\n// 点击编辑按钮开始添加代码'
+
+    // 以注释形式在代码前显示描述
+    const descriptionHeader = snippet.description ? toCommentBlock(snippet.description, language) : undefined
+    if (descriptionHeader) {
+      codeContent = `${descriptionHeader}\n\n${codeContent}`
+    }
+    TextDocumentContentProvider.instance.update(uri, codeContent, language)
+    TextDocumentContentProvider.instance.setOpenPreview(snippetId, uri)
+
+    const document = await vscode.workspace.openTextDocument(uri)
+
+    const vscodeLangId = mapLanguageToVSCode(language)
+    if (vscodeLangId !== 'plaintext') {
+      try {
+        await vscode.languages.setTextDocumentLanguage(document, vscodeLangId)
+      } catch (error) {
+        console.warn(`无法设置语言为 ${vscodeLangId}:`, error)
+        if (language === 'vue') {
+          await vscode.languages.setTextDocumentLanguage(document, 'html')
+        }
+      }
+    }
+
+    await vscode.window.showTextDocument(document, {
+      viewColumn: vscode.ViewColumn.Beside,
+      preserveFocus,
+      preview: true,
+    })
+    return uri
+  }
+
   // 检查同一目录下是否有重名代码片段
   // V2兼容的重复检查函数
   async function checkDuplicateSnippetName(name: string, parentId: string | null): Promise<boolean> {
@@ -697,8 +931,15 @@ function registerCommands(
           return
         }
 
-        const directories = await storageManager.getAllDirectories()
         const currentVersion = storageContext.getCurrentStorageVersion()
+        const libraryRoot = currentVersion === 'v2' ? await pickLibraryRoot() : '/'
+        if (!libraryRoot) {
+          return
+        }
+
+        // 项目代码库的目录列表以项目代码库的根目录开头
+        const directories =
+          libraryRoot === PROJECT_LIBRARY_ROOT ? await projectLibrary.getAllDirectories() : await storageManager.getAllDirectories()
         
         // 根据存储版本准备目录选项
         let directoryItems: Array<{ label: string; id: string | null; fullPath?: string }>
@@ -706,7 +947,7 @@ function registerCommands(
         if (currentVersion === 'v2') {
           // V2格式：使用fullPath
           directoryItems = [
-            { label: '根目录', id: null, fullPath: '/' },
+            ...(libraryRoot === '/' ? [{ label: '根目录', id: null, fullPath: '/' }] : []),
             ...directories.map((dir: any) => ({ 
               label: dir.name, 
               id: PathBasedManager.generateIdFromPath(dir.fullPath),
@@ -734,28 +975,6 @@ function registerCommands(
             return
           }
 
-          // 3. 检查代码片段重名
-          let isDuplicate = false
-          
-          if (currentVersion === 'v2') {
-            // V2格式：基于路径检查重复
-            const targetPath = selectedDirectory.fullPath === '/' 
-              ? `/${name}` 
-              : `${selectedDirectory.fullPath}${name}`
-            
-            const existingSnippet = await storageContext.getSnippetByPath(targetPath)
-            isDuplicate = existingSnippet !== null
-                  } else {
-          // V1格式：使用原有逻辑
-          const selectedId = selectedDirectory.id || null
-          isDuplicate = await checkDuplicateSnippetName(name, selectedId)
-        }
-          
-          if (isDuplicate) {
-            vscode.window.showErrorMessage(`所选目录中已存在名为 "${name}" 的代码片段`)
-            return
-          }
-
           // 自动检测语言
           let language = 'plaintext'
           const fileExt = fileName.split('.').pop()?.toLowerCase()
@@ -802,17 +1021,40 @@ function registerCommands(
             }
           }
 
+          // 3. 检查代码片段重名
+          // V2格式：已有同名但语言不同的代码片段时，在名称后附加语言加以区分，如 debounce (python)
+          let snippetName = name
+          let isDuplicate = false
+
+          if (currentVersion === 'v2') {
+            // V2格式：基于路径检查重复
+            const existingSnippet = await findSnippetByPath(`${selectedDirectory.fullPath || '/'}${name}`)
+            if (existingSnippet && (existingSnippet.language || 'plaintext') !== language) {
+              snippetName = withLanguageSuffix(name, language)
+            }
+            isDuplicate = (await findSnippetByPath(`${selectedDirectory.fullPath || '/'}${snippetName}`)) !== null
+          } else {
+            // V1格式：使用原有逻辑
+            const selectedId = selectedDirectory.id || null
+            isDuplicate = await checkDuplicateSnippetName(name, selectedId)
+          }
+
+          if (isDuplicate) {
+            vscode.window.showErrorMessage(`所选目录中已存在名为 "${snippetName}" 的代码片段`)
+            return
+          }
+
           // 根据存储版本创建代码片段
           let snippet: any
           
           if (currentVersion === 'v2') {
             // V2格式：使用fullPath
             const fullPath = selectedDirectory.fullPath === '/' 
-              ? `/${name}` 
-              : `${selectedDirectory.fullPath}${name}`
+              ? `/${snippetName}` 
+              : `${selectedDirectory.fullPath}${snippetName}`
             
             snippet = {
-              name,
+              name: snippetName,
               code,
               fileName,
               filePath: editor.document.fileName,
@@ -869,7 +1111,6 @@ function registerCommands(
           return
         }
 
-        const language = snippet.language || 'plaintext'
         const snippetId = getSnippetId(snippet)
 
         // 检查是否已有预览窗口
@@ -890,39 +1131,7 @@ function registerCommands(
           }
         }
 
-        const scheme = 'starcode-preview'
-        const safeName = snippet.name || '未命名代码片段'
-        const safeSnippetId = snippetId.replace(/[/\\:*?"<>|]/g, '_')
-        const uri = vscode.Uri.parse(`${scheme}:${safeName}_${safeSnippetId}.${language}`)
-
-        if (!TextDocumentContentProvider.instance) {
-          TextDocumentContentProvider.register(context)
-        }
-
-        // 如果代码片段为空，显示友好提示
-        const codeContent = snippet.code || '// 这是一个空的代码片段\n// 点击编辑按钮开始添加代码'
-        TextDocumentContentProvider.instance.update(uri, codeContent, language)
-        TextDocumentContentProvider.instance.setOpenPreview(snippetId, uri)
-
-        const document = await vscode.workspace.openTextDocument(uri)
-
-        const vscodeLangId = mapLanguageToVSCode(language)
-        if (vscodeLangId !== 'plaintext') {
-          try {
-            await vscode.languages.setTextDocumentLanguage(document, vscodeLangId)
-          } catch (error) {
-            console.warn(`无法设置语言为 ${vscodeLangId}:`, error)
-            if (language === 'vue') {
-              await vscode.languages.setTextDocumentLanguage(document, 'html')
-            }
-          }
-        }
-
-        await vscode.window.showTextDocument(document, {
-          viewColumn: vscode.ViewColumn.Beside,
-          preserveFocus: false,
-          preview: true,
-        })
+        await showSnippetPreview(snippet, false)
 
         // vscode.window.showInformationMessage(`预览: ${snippet.name}`);
       } catch (error) {
@@ -940,7 +1149,7 @@ function registerCommands(
 
     const newName = await vscode.window.showInputBox({
       prompt: '重命名...',
-      value: item.label,
+      value: item.snippet?.name ?? item.directory?.name ?? item.label,
     })
 
     if (newName) {
@@ -1135,10 +1344,15 @@ function registerCommands(
       }
 
       const currentVersion = storageContext.getCurrentStorageVersion()
+      const libraryRoot = currentVersion === 'v2' ? await pickLibraryRoot() : '/'
+      if (!libraryRoot) {
+        return
+      }
       
       // 2. 检查是否与代码片段名称冲突
-      const snippets = await storageManager.getAllSnippets()
-      const hasSnippetConflict = checkDirectorySnippetConflict(name, snippets, null, currentVersion)
+      const snippets =
+        libraryRoot === PROJECT_LIBRARY_ROOT ? await projectLibrary.getAllSnippets() : await storageManager.getAllSnippets()
+      const hasSnippetConflict = checkDirectorySnippetConflict(name, snippets, currentVersion === 'v2' ? libraryRoot : null, currentVersion)
       if (hasSnippetConflict) {
         vscode.window.showErrorMessage(`不能创建目录 "${name}"，因为已存在同名代码片段`)
         return
@@ -1149,8 +1363,11 @@ function registerCommands(
       
       if (currentVersion === 'v2') {
         // V2格式：基于路径检查重复
-        const targetPath = `/${name}/`
-        const existingDirectory = await storageContext.getDirectoryByPath(targetPath)
+        const targetPath = `${libraryRoot}${name}/`
+        const existingDirectory =
+          libraryRoot === PROJECT_LIBRARY_ROOT
+            ? (await projectLibrary.getAllDirectories()).find((d) => d.fullPath === targetPath) || null
+            : await storageContext.getDirectoryByPath(targetPath)
         isDuplicate = existingDirectory !== null
       } else {
         // V1格式：使用原有逻辑
@@ -1168,7 +1385,7 @@ function registerCommands(
         // V2格式：使用fullPath
         directory = {
           name,
-          fullPath: `/${name}/`,
+          fullPath: `${libraryRoot}${name}/`,
           order: 0,
         }
       } else {
@@ -1210,7 +1427,9 @@ function registerCommands(
         const storageVersion = storageContext.getCurrentStorageVersion()
         
         // 2. 检查是否与目录名称冲突
-        const directories = await storageManager.getAllDirectories()
+        const directories = isProjectLibraryPath(item.directory.fullPath)
+          ? await projectLibrary.getAllDirectories()
+          : await storageManager.getAllDirectories()
         const parentPath = storageVersion === 'v2' ? (item.directory.fullPath || '/') : (item.directory.id || null)
         const hasDirectoryConflict = checkSnippetDirectoryConflict(name, directories, parentPath, storageVersion)
         if (hasDirectoryConflict) {
@@ -1227,7 +1446,7 @@ function registerCommands(
             ? `/${name}` 
             : `${item.directory.fullPath}${name}`
           
-          const existingSnippet = await storageContext.getSnippetByPath(targetPath)
+          const existingSnippet = await findSnippetByPath(targetPath)
           isDuplicate = existingSnippet !== null
         } else {
           // V1格式：使用原有逻辑
@@ -1359,10 +1578,15 @@ function registerCommands(
         }
 
         const storageVersion = storageContext.getCurrentStorageVersion()
+        const libraryRoot = storageVersion === 'v2' ? await pickLibraryRoot() : '/'
+        if (!libraryRoot) {
+          return
+        }
         
         // 2. 检查是否与目录名称冲突
-        const directories = await storageManager.getAllDirectories()
-        const parentPath = storageVersion === 'v2' ? '/' : null
+        const directories =
+          libraryRoot === PROJECT_LIBRARY_ROOT ? await projectLibrary.getAllDirectories() : await storageManager.getAllDirectories()
+        const parentPath = storageVersion === 'v2' ? libraryRoot : null
         const hasDirectoryConflict = checkSnippetDirectoryConflict(name, directories, parentPath, storageVersion)
         if (hasDirectoryConflict) {
           vscode.window.showErrorMessage(`不能创建代码片段 "${name}"，因为已存在同名目录`)
@@ -1374,8 +1598,8 @@ function registerCommands(
         
         if (storageVersion === 'v2') {
           // V2格式：基于路径检查重复
-          const targetPath = `/${name}`
-          const existingSnippet = await storageContext.getSnippetByPath(targetPath)
+          const targetPath = `${libraryRoot}${name}`
+          const existingSnippet = await findSnippetByPath(targetPath)
           isDuplicate = existingSnippet !== null
         } else {
           // V1格式：使用原有逻辑
@@ -1443,14 +1667,14 @@ function registerCommands(
         let snippet: any
         
         if (version === 'v2') {
-          // V2格式：在根目录创建
+          // V2格式：在所选代码库的根目录创建
           snippet = {
             name,
             code: '',
             fileName: fileName,
             filePath: '',
-            category: '根目录',
-            fullPath: `/${name}`,
+            category: libraryRoot === '/' ? '根目录' : projectLibrary.getLabel(),
+            fullPath: `${libraryRoot}${name}`,
             order: 0,
             createTime: Date.now(),
             language: selectedLanguage.value,
@@ -1484,53 +1708,173 @@ function registerCommands(
     }
   )
 
-  // 删除命令
-  const deleteItem = vscode.commands.registerCommand('starcode-snippets.delete', async (item: any) => {
-    if (!item) {
-      return
+  // 删除命令（支持多选，V2格式下移入回收站）
+  const deleteItem = vscode.commands.registerCommand(
+    'starcode-snippets.delete',
+    async (item: any, selectedItems?: any[]) => {
+      const items = getTargetItems(item, selectedItems)
+      if (items.length === 0) {
+        return
+      }
+
+      const currentVersion = storageContext.getCurrentStorageVersion()
+      // 项目代码库不使用回收站，删除的内容可以通过项目的版本控制找回
+      const isProjectItem = (target: any) => isProjectLibraryPath((target.snippet || target.directory).fullPath)
+      const action = currentVersion === 'v2' && !items.every(isProjectItem) ? '移到回收站' : '删除'
+
+      let confirmMessage: string
+      if (items.length === 1) {
+        confirmMessage = items[0].snippet
+          ? `确定要将代码片段 "${items[0].snippet.name}" ${action}吗？`
+          : `确定要将目录 "${items[0].directory.name}" 及其所有内容${action}吗？`
+      } else {
+        const snippetCount = items.filter((i) => i.snippet).length
+        const directoryCount = items.length - snippetCount
+        confirmMessage =
+          directoryCount > 0
+            ? `确定要将选中的 ${snippetCount} 个代码片段和 ${directoryCount} 个目录（包括目录中的所有内容）${action}吗？`
+            : `确定要将选中的 ${snippetCount} 个代码片段${action}吗？`
+      }
+
+      const confirm = await vscode.window.showWarningMessage(confirmMessage, { modal: true }, '确定')
+
+      if (confirm === '确定') {
+        try {
+          const selectedDirectories = items.filter((i) => i.directory).map((i) => i.directory)
+          const allDirectories = selectedDirectories.length > 0 ? await storageManager.getAllDirectories() : []
+
+          const snippetsToTrash: CodeSnippet[] = []
+          const directoriesToTrash: Directory[] = []
+
+          // 所有删除完成后只通知一次数据变化
+          await storageContext.batch(async () => {
+            for (const target of items) {
+              // 位于选中目录中的项目会随目录一起删除
+              const entry = target.snippet || target.directory
+              if (isInsideDirectories(entry, selectedDirectories, allDirectories)) {
+                continue
+              }
+
+              if (isProjectItem(target)) {
+                if (target.snippet) {
+                  await storageManager.deleteSnippet(entry.fullPath)
+                } else {
+                  await storageManager.deleteDirectory(entry.fullPath)
+                }
+                continue
+              }
+
+              if (currentVersion === 'v2') {
+                // V2格式：代码片段和目录（连同其所有内容）各作为一个条目，最后一次移入回收站
+                if (target.snippet) {
+                  snippetsToTrash.push(target.snippet)
+                } else if (target.directory) {
+                  directoriesToTrash.push(target.directory)
+                }
+              } else if (target.snippet) {
+                // V1格式：使用id删除
+                await storageManager.deleteSnippet(target.snippet.id)
+              } else if (target.directory) {
+                // V1格式：使用id删除
+                await storageManager.deleteDirectory(target.directory.id)
+              }
+            }
+
+            await trashManager.trashItems(snippetsToTrash, directoriesToTrash)
+          })
+        } catch (error) {
+          console.error('删除失败:', error)
+          vscode.window.showErrorMessage(`删除失败: ${error}`)
+        } finally {
+          refreshTreeView()
+        }
+      }
     }
+  )
 
-    const confirmMessage = item.snippet
-      ? `确定要删除代码片段 "${item.snippet.name}" 吗？`
-      : `确定要删除目录 "${item.directory.name}" 及其所有内容吗？`
+  /**
+   * 获取命令作用的回收站条目：从多选中的节点触发时为所有选中的条目
+   */
+  function getTrashEntries(item: any, selectedItems?: any[]): any[] {
+    const items = item && selectedItems && selectedItems.includes(item) ? selectedItems : [item]
+    return items.filter((i) => i?.trashEntry).map((i) => i.trashEntry)
+  }
 
-    const confirm = await vscode.window.showWarningMessage(confirmMessage, { modal: true }, '确定')
+  // 从回收站恢复命令（支持多选）
+  const restoreFromTrash = vscode.commands.registerCommand(
+    'starcode-snippets.restoreFromTrash',
+    async (item: any, selectedItems?: any[]) => {
+      const entries = getTrashEntries(item, selectedItems)
+      const failures: string[] = []
 
-    if (confirm === '确定') {
-      try {
-        const currentVersion = storageContext.getCurrentStorageVersion()
-        
-        if (item.snippet) {
-          if (currentVersion === 'v2') {
-            // V2格式：使用fullPath生成的ID删除
-            const deleteId = PathBasedManager.generateIdFromPath(item.snippet.fullPath)
-            // console.log('删除代码片段:', item.snippet.name, 'fullPath:', item.snippet.fullPath, 'deleteId:', deleteId)
-            await storageManager.deleteSnippet(deleteId)
-          } else {
-            // V1格式：使用id删除
-            // console.log('删除代码片段:', item.snippet.name, 'ID:', item.snippet.id)
-            await storageManager.deleteSnippet(item.snippet.id)
-          }
-          // console.log('代码片段删除成功')
-        } else if (item.directory) {
-          if (currentVersion === 'v2') {
-            // V2格式：使用fullPath生成的ID删除
-            const deleteId = PathBasedManager.generateIdFromPath(item.directory.fullPath)
-            // console.log('删除目录:', item.directory.name, 'fullPath:', item.directory.fullPath, 'deleteId:', deleteId)
-            await storageManager.deleteDirectory(deleteId)
-          } else {
-            // V1格式：使用id删除
-            // console.log('删除目录:', item.directory.name, 'ID:', item.directory.id)
-            await storageManager.deleteDirectory(item.directory.id)
-          }
-          // console.log('目录删除成功')
+      for (const entry of entries) {
+        try {
+          await trashManager.restore(entry.id)
+        } catch (error) {
+          console.error('恢复失败:', error)
+          failures.push(`${entry.name}: ${error instanceof Error ? error.message : error}`)
         }
-        refreshTreeView()
+      }
+
+      refreshTreeView()
+      if (failures.length > 0) {
+        vscode.window.showErrorMessage(`恢复失败: ${failures.join('；')}`)
+      } else if (entries.length > 0) {
+        vscode.window.showInformationMessage(`✅ 已恢复 ${entries.length} 个项目`)
+      }
+    }
+  )
+
+  // 彻底删除回收站条目命令（支持多选）
+  const deleteFromTrash = vscode.commands.registerCommand(
+    'starcode-snippets.deleteFromTrash',
+    async (item: any, selectedItems?: any[]) => {
+      const entries = getTrashEntries(item, selectedItems)
+      if (entries.length === 0) {
+        return
+      }
+
+      const confirmMessage =
+        entries.length === 1
+          ? `确定要彻底删除 "${entries[0].name}" 吗？下次同步时也会从云端删除，此操作无法撤销。`
+          : `确定要彻底删除选中的 ${entries.length} 个项目吗？下次同步时也会从云端删除，此操作无法撤销。`
+      const confirm = await vscode.window.showWarningMessage(confirmMessage, { modal: true }, '彻底删除')
+      if (confirm !== '彻底删除') {
+        return
+      }
+
+      try {
+        await trashManager.deletePermanently(entries.map((entry) => entry.id))
       } catch (error) {
-        console.error('删除失败:', error)
-        vscode.window.showErrorMessage(`删除失败: ${error}`)
+        console.error('彻底删除失败:', error)
+        vscode.window.showErrorMessage(`彻底删除失败: ${error}`)
       }
     }
+  )
+
+  // 清空回收站命令
+  const emptyTrash = vscode.commands.registerCommand('starcode-snippets.emptyTrash', async () => {
+    const count = trashManager.getEntries().length
+    if (count === 0) {
+      vscode.window.showInformationMessage('回收站是空的')
+      return
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `确定要清空回收站中的 ${count} 个项目吗？下次同步时也会从云端删除，此操作无法撤销。`,
+      { modal: true },
+      '清空'
+    )
+    if (confirm !== '清空') {
+      return
+    }
+
+    try {
+      await trashManager.empty()
+    } catch (error) {
+      console.error('清空回收站失败:', error)
+      vscode.window.showErrorMessage(`清空回收站失败: ${error}`)
+    }
   })
 
   // 追加粘贴命令
@@ -1562,57 +1906,616 @@ function registerCommands(
     }
   })
 
-  // 移动到目录命令
-  const moveToDirectory = vscode.commands.registerCommand('starcode-snippets.moveToDirectory', async (item: any) => {
-    if (!item?.snippet) {
-      return
+  // 编辑属性命令：始终在编辑面板中打开，starcode: 文档的标题栏中同样提供该入口
+  const editSnippetProperties = vscode.commands.registerCommand(
+    'starcode-snippets.editSnippetProperties',
+    async (target: any) => {
+      const snippet = target instanceof vscode.Uri ? await storageContext.getSnippetByPath(target.path) : target?.snippet
+      if (!snippet) {
+        return
+      }
+
+      try {
+        await SnippetEditor.getInstance().editProperties(snippet)
+      } catch (error) {
+        console.error('编辑代码片段属性失败:', error)
+        vscode.window.showErrorMessage(`编辑代码片段属性失败: ${error}`)
+      }
     }
+  )
 
-    try {
-      const directories = await storageManager.getAllDirectories()
-      const currentVersion = storageContext.getCurrentStorageVersion()
-      
-      // 根据存储版本准备目录选项
-      let directoryItems: Array<{ label: string; id: string | null; fullPath?: string }>
-      
-      if (currentVersion === 'v2') {
-        // V2格式：使用fullPath
-        directoryItems = [
-          { label: '根目录', id: null, fullPath: '/' },
-          ...directories.map((dir: any) => ({ 
-            label: dir.name, 
-            id: PathBasedManager.generateIdFromPath(dir.fullPath),
-            fullPath: dir.fullPath 
-          })),
-        ]
-      } else {
-        // V1格式：使用id
-        directoryItems = [
-          { label: '根目录', id: null },
-          ...directories.map((dir: any) => ({ label: dir.name, id: dir.id })),
-        ]
+  // 查看代码片段修订历史命令：比较任意两个版本或恢复某个版本
+  const showSnippetHistory = vscode.commands.registerCommand(
+    'starcode-snippets.showSnippetHistory',
+    async (item: any) => {
+      if (!item?.snippet) {
+        return
       }
 
-      const selectedDirectory = await vscode.window.showQuickPick(directoryItems, {
-        placeHolder: '选择目标目录',
+      const snippet = item.snippet
+      const revisions = revisionHistoryManager.getRevisions(snippet)
+      if (revisions.length === 0) {
+        vscode.window.showInformationMessage(`代码片段 "${snippet.name}" 还没有修订历史，在编辑器中保存后会自动记录`)
+        return
+      }
+
+      const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString()
+      const revisionItems = revisions.map((revision, index) => ({
+        label: `$(history) ${formatTime(revision.timestamp)}`,
+        description: `${revision.name} · ${revision.language}${index === 0 ? '（最新）' : ''}`,
+        detail: `${revision.code.split('\n').length} 行`,
+        revision,
+      }))
+
+      const selected = await vscode.window.showQuickPick(revisionItems, {
+        placeHolder: `代码片段 "${snippet.name}" 的修订历史`,
       })
+      if (!selected) {
+        return
+      }
 
-      if (selectedDirectory) {
-        // 检查目标目录中是否有重名代码片段
-        let isDuplicate = false
-        
-        if (currentVersion === 'v2') {
-          // V2格式：基于路径检查重复
-          const targetPath = selectedDirectory.fullPath === '/' 
-            ? `/${item.snippet.name}` 
-            : `${selectedDirectory.fullPath}${item.snippet.name}`
-          
-          const existingSnippet = await storageContext.getSnippetByPath(targetPath)
-          isDuplicate = existingSnippet !== null && existingSnippet.fullPath !== item.snippet.fullPath
+      const action = await vscode.window.showQuickPick(
+        [
+          { label: '$(diff) 与当前版本比较', action: 'diffCurrent' },
+          { label: '$(diff) 与其他修订版本比较', action: 'diffRevision' },
+          { label: '$(discard) 恢复此版本', action: 'restore' },
+        ],
+        { placeHolder: `修订版本 ${formatTime(selected.revision.timestamp)}` }
+      )
+      if (!action) {
+        return
+      }
+
+      try {
+        const toDiffSide = (revision: { name: string; code: string; language: string; timestamp: number }) => ({
+          title: `${revision.name} (${formatTime(revision.timestamp)})`.replace(/[/\\]/g, '_'),
+          code: revision.code,
+          language: revision.language,
+        })
+
+        if (action.action === 'diffCurrent') {
+          await revisionHistoryManager.showDiff(
+            toDiffSide(selected.revision),
+            {
+              title: `${snippet.name} (当前)`.replace(/[/\\]/g, '_'),
+              code: snippet.code,
+              language: snippet.language || 'plaintext',
+            },
+            `${snippet.name}: ${formatTime(selected.revision.timestamp)} ↔ 当前`
+          )
+        } else if (action.action === 'diffRevision') {
+          const other = await vscode.window.showQuickPick(
+            revisionItems.filter((revisionItem) => revisionItem !== selected),
+            { placeHolder: '选择要比较的另一个修订版本' }
+          )
+          if (!other) {
+            return
+          }
+
+          // 较早的版本显示在左侧
+          const [older, newer] = [selected.revision, other.revision].sort((a, b) => a.timestamp - b.timestamp)
+          await revisionHistoryManager.showDiff(
+            toDiffSide(older),
+            toDiffSide(newer),
+            `${snippet.name}: ${formatTime(older.timestamp)} ↔ ${formatTime(newer.timestamp)}`
+          )
         } else {
-          // V1格式：使用原有逻辑
-          const selectedId = selectedDirectory.id || null
-          isDuplicate = await checkDuplicateSnippetName(item.snippet.name, selectedId)
+          const confirm = await vscode.window.showWarningMessage(
+            `确定要将代码片段 "${snippet.name}" 的代码和语言恢复到 ${formatTime(selected.revision.timestamp)} 的版本吗？当前版本会保留在修订历史中。`,
+            { modal: true },
+            '恢复'
+          )
+          if (confirm !== '恢复') {
+            return
+          }
+
+          const restored = { ...snippet, code: selected.revision.code, language: selected.revision.language }
+          await storageManager.updateSnippet(restored)
+          await revisionHistoryManager.recordRevision(restored, snippet)
+          refreshTreeView()
+          vscode.window.showInformationMessage(`✅ 代码片段 "${snippet.name}" 已恢复到 ${formatTime(selected.revision.timestamp)} 的版本`)
+        }
+      } catch (error) {
+        console.error('查看修订历史失败:', error)
+        vscode.window.showErrorMessage(`查看修订历史失败: ${error}`)
+      }
+    }
+  )
+
+  // 代码片段比较：左侧为编辑器选区或另一个代码片段，右侧为代码库中的代码片段
+  // 差异编辑器标题栏可将左侧应用到代码库，或将右侧应用到编辑器选区
+  const snippetComparisons = new Map<string, SnippetComparison>()
+  let comparisonCounter = 0
+
+  // 以 starcode-preview 只读文档显示比较的一侧
+  const openComparisonDocument = async (title: string, code: string, language: string): Promise<vscode.Uri> => {
+    if (!TextDocumentContentProvider.instance) {
+      TextDocumentContentProvider.register(context)
+    }
+
+    const safeTitle = title.replace(/[/\\:*?"<>|]/g, '_')
+    const uri = vscode.Uri.parse(`starcode-preview:${safeTitle}`).with({ query: `compare=${++comparisonCounter}` })
+    TextDocumentContentProvider.instance.update(uri, code, language)
+
+    const document = await vscode.workspace.openTextDocument(uri)
+    const vscodeLangId = mapLanguageToVSCode(language)
+    if (vscodeLangId !== 'plaintext') {
+      try {
+        await vscode.languages.setTextDocumentLanguage(document, vscodeLangId)
+      } catch (error) {
+        console.warn(`无法设置语言为 ${vscodeLangId}:`, error)
+      }
+    }
+    return uri
+  }
+
+  const showSnippetComparison = async (comparison: SnippetComparison, title: string): Promise<void> => {
+    snippetComparisons.set(comparison.leftUri.toString(), comparison)
+    snippetComparisons.set(comparison.rightUri.toString(), comparison)
+    await vscode.commands.executeCommand('vscode.diff', comparison.leftUri, comparison.rightUri, title)
+  }
+
+  // 标题栏按钮传入的是差异编辑器中的文档，从命令面板调用时使用当前编辑器
+  const getActiveComparison = (uri?: vscode.Uri): SnippetComparison | undefined => {
+    const documentUri = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri
+    return documentUri ? snippetComparisons.get(documentUri.toString()) : undefined
+  }
+
+  const updateComparisonContext = () => {
+    const comparison = getActiveComparison()
+    ContextManager.setSnippetComparison(comparison ? (comparison.selection ? 'selection' : 'snippet') : undefined)
+  }
+
+  context.subscriptions.push(
+    vscode.window.onDidChangeActiveTextEditor(updateComparisonContext),
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      const comparison = snippetComparisons.get(document.uri.toString())
+      if (comparison) {
+        snippetComparisons.delete(comparison.leftUri.toString())
+        snippetComparisons.delete(comparison.rightUri.toString())
+      }
+    })
+  )
+
+  // 与编辑器选区比较命令
+  const compareWithSelection = vscode.commands.registerCommand(
+    'starcode-snippets.compareWithSelection',
+    async (item: any) => {
+      if (!item?.snippet) {
+        return
+      }
+
+      const editor = vscode.window.activeTextEditor
+      if (!editor || editor.selection.isEmpty) {
+        vscode.window.showWarningMessage('请先在编辑器中选择要比较的代码')
+        return
+      }
+
+      try {
+        const snippet: CodeSnippet = item.snippet
+        const language = snippet.language || 'plaintext'
+        const selectedCode = editor.document.getText(editor.selection)
+        const fileName = editor.document.uri.path.split('/').pop() || editor.document.uri.path
+
+        await showSnippetComparison(
+          {
+            snippet,
+            leftCode: selectedCode,
+            leftUri: await openComparisonDocument(`${fileName} (选区)`, selectedCode, language),
+            rightUri: await openComparisonDocument(snippet.name, snippet.code, language),
+            selection: { uri: editor.document.uri, range: new vscode.Range(editor.selection.start, editor.selection.end) },
+          },
+          `${fileName} (选区) ↔ ${snippet.name}`
+        )
+      } catch (error) {
+        console.error('与选区比较失败:', error)
+        vscode.window.showErrorMessage(`与选区比较失败: ${error}`)
+      }
+    }
+  )
+
+  // 与另一个代码片段比较命令
+  const compareWithSnippet = vscode.commands.registerCommand(
+    'starcode-snippets.compareWithSnippet',
+    async (item: any) => {
+      if (!item?.snippet) {
+        return
+      }
+
+      try {
+        const snippet: CodeSnippet = item.snippet
+        const snippets: CodeSnippet[] = await getAllLibrarySnippets()
+        const snippetId = getSnippetId(snippet)
+        const otherItems = snippets
+          .filter((s) => getSnippetId(s) !== snippetId)
+          .map((s) => ({
+            label: s.name,
+            description: `${s.fullPath ? s.fullPath.substring(0, s.fullPath.lastIndexOf('/') + 1) : s.category} · ${s.language || 'plaintext'}`,
+            snippet: s,
+          }))
+        if (otherItems.length === 0) {
+          vscode.window.showInformationMessage('代码库中没有其他代码片段')
+          return
+        }
+
+        const selected = await vscode.window.showQuickPick(otherItems, {
+          placeHolder: `选择要与 "${snippet.name}" 比较的代码片段`,
+          matchOnDescription: true,
+        })
+        if (!selected) {
+          return
+        }
+
+        const other = selected.snippet
+        await showSnippetComparison(
+          {
+            snippet,
+            leftCode: other.code,
+            leftUri: await openComparisonDocument(other.name, other.code, other.language || 'plaintext'),
+            rightUri: await openComparisonDocument(snippet.name, snippet.code, snippet.language || 'plaintext'),
+          },
+          `${other.name} ↔ ${snippet.name}`
+        )
+      } catch (error) {
+        console.error('比较代码片段失败:', error)
+        vscode.window.showErrorMessage(`比较代码片段失败: ${error}`)
+      }
+    }
+  )
+
+  // 将差异编辑器左侧的代码写入右侧的代码片段
+  const applyComparisonLeftToLibrary = vscode.commands.registerCommand(
+    'starcode-snippets.applyComparisonLeftToLibrary',
+    async (uri?: vscode.Uri) => {
+      const comparison = getActiveComparison(uri)
+      if (!comparison) {
+        return
+      }
+
+      try {
+        // 差异编辑器打开期间代码片段可能已被修改、重命名或删除，按 uuid（没有时按路径）重新读取
+        const snippet = findMatchingItem(await getAllLibrarySnippets(), comparison.snippet)
+        if (!snippet) {
+          vscode.window.showErrorMessage(`代码片段 "${comparison.snippet.name}" 已不存在，无法应用`)
+          return
+        }
+        if (snippet.code === comparison.leftCode) {
+          vscode.window.showInformationMessage(`代码片段 "${snippet.name}" 的代码与左侧相同`)
+          return
+        }
+
+        const updatedSnippet = { ...snippet, code: comparison.leftCode }
+        await storageManager.updateSnippet(updatedSnippet)
+        await revisionHistoryManager.recordRevision(updatedSnippet, snippet)
+        comparison.snippet = updatedSnippet
+        TextDocumentContentProvider.instance.update(comparison.rightUri, updatedSnippet.code)
+        refreshTreeView()
+        vscode.window.showInformationMessage(`✅ 已将左侧代码应用到代码片段 "${snippet.name}"，可在修订历史中恢复之前的版本`)
+      } catch (error) {
+        console.error('应用到代码库失败:', error)
+        vscode.window.showErrorMessage(`应用到代码库失败: ${error}`)
+      }
+    }
+  )
+
+  // 用差异编辑器右侧代码片段的代码替换比较时的编辑器选区
+  const applyComparisonRightToEditor = vscode.commands.registerCommand(
+    'starcode-snippets.applyComparisonRightToEditor',
+    async (uri?: vscode.Uri) => {
+      const comparison = getActiveComparison(uri)
+      if (!comparison?.selection) {
+        return
+      }
+
+      try {
+        const { selection, snippet } = comparison
+        const document = await vscode.workspace.openTextDocument(selection.uri)
+        // 比较之后选区所在的代码可能已被修改，此时不能按原来的范围替换
+        if (document.getText(selection.range) !== comparison.leftCode) {
+          vscode.window.showWarningMessage('编辑器中比较时选中的代码已被修改，请重新比较')
+          return
+        }
+
+        const edit = new vscode.WorkspaceEdit()
+        edit.replace(selection.uri, selection.range, snippet.code)
+        if (!(await vscode.workspace.applyEdit(edit))) {
+          vscode.window.showErrorMessage('应用到编辑器失败: 无法修改文档')
+          return
+        }
+
+        const start = document.offsetAt(selection.range.start)
+        selection.range = new vscode.Range(selection.range.start, document.positionAt(start + snippet.code.length))
+        comparison.leftCode = snippet.code
+        TextDocumentContentProvider.instance.update(comparison.leftUri, snippet.code)
+        vscode.window.showInformationMessage(`✅ 已将代码片段 "${snippet.name}" 应用到编辑器`)
+      } catch (error) {
+        console.error('应用到编辑器失败:', error)
+        vscode.window.showErrorMessage(`应用到编辑器失败: ${error}`)
+      }
+    }
+  )
+
+  /**
+   * 检查当前代码库能否使用本地同步仓库，不能使用时提示原因
+   * 未绑定或绑定了其他仓库的代码库不能读取或写入当前同步配置的仓库，避免看到或覆盖其他代码库的数据
+   */
+  const checkLibrarySyncRepository = (): boolean => {
+    const blockReason = SettingsManager.getLibrarySyncBlockReason()
+    if (blockReason) {
+      vscode.window.showWarningMessage(blockReason)
+      return false
+    }
+    return true
+  }
+
+  /**
+   * 创建代码片段Git历史管理器，当前代码库不能使用同步仓库或仓库不存在时提示并返回 undefined
+   */
+  const createGitHistoryManager = (): SnippetGitHistoryManager | undefined => {
+    if (!checkLibrarySyncRepository()) {
+      return undefined
+    }
+    const historyManager = new SnippetGitHistoryManager(storageContext)
+    if (!historyManager.hasRepository()) {
+      vscode.window.showWarningMessage('本地同步仓库不存在，请先配置云端同步并完成一次同步')
+      return undefined
+    }
+    return historyManager
+  }
+
+  // 查看代码片段同步历史命令：浏览同步仓库中的提交和差异，恢复任意历史版本
+  const showSnippetGitHistory = vscode.commands.registerCommand(
+    'starcode-snippets.showSnippetGitHistory',
+    async (item: any) => {
+      if (!item?.snippet) {
+        return
+      }
+
+      try {
+        const historyManager = createGitHistoryManager()
+        if (historyManager) {
+          SnippetHistoryWebviewProvider.show(historyManager, item.snippet, () => refreshTreeView())
+        }
+      } catch (error) {
+        console.error('查看同步历史失败:', error)
+        vscode.window.showErrorMessage(`查看同步历史失败: ${error}`)
+      }
+    }
+  )
+
+  // 查找已删除的代码片段命令：从同步仓库的提交历史中找回已删除的代码片段
+  const findDeletedSnippets = vscode.commands.registerCommand('starcode-snippets.findDeletedSnippets', async () => {
+    try {
+      const historyManager = createGitHistoryManager()
+      if (historyManager) {
+        SnippetHistoryWebviewProvider.show(historyManager, undefined, () => refreshTreeView())
+      }
+    } catch (error) {
+      console.error('查找已删除的代码片段失败:', error)
+      vscode.window.showErrorMessage(`查找已删除的代码片段失败: ${error}`)
+    }
+  })
+
+  // 代码库时光机命令：预览任意一次同步提交时的代码库，并将整个本地代码库恢复到该状态
+  const openTimeMachine = vscode.commands.registerCommand('starcode-snippets.openTimeMachine', async () => {
+    try {
+      if (storageContext.getCurrentStorageVersion() !== 'v2') {
+        vscode.window.showWarningMessage('代码库时光机仅支持 V2 存储格式，请先迁移数据')
+        return
+      }
+      if (!checkLibrarySyncRepository()) {
+        return
+      }
+      const timeMachine = new LibraryTimeMachine(storageContext)
+      if (!timeMachine.hasRepository()) {
+        vscode.window.showWarningMessage('本地同步仓库不存在，请先配置云端同步并完成一次同步')
+        return
+      }
+
+      const commits = await timeMachine.getSyncCommits()
+      if (commits.length === 0) {
+        vscode.window.showInformationMessage('本地同步仓库中还没有提交记录')
+        return
+      }
+
+      const selected = await vscode.window.showQuickPick(
+        commits.map((commit) => ({
+          label: `$(git-commit) ${commit.message}`,
+          description: `${commit.hash.substring(0, 7)} · ${commit.author}`,
+          detail: new Date(commit.date).toLocaleString(),
+          commit,
+        })),
+        { placeHolder: '选择要预览的同步版本', matchOnDescription: true, matchOnDetail: true }
+      )
+      if (!selected) {
+        return
+      }
+
+      const { snapshot, comparison } = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: '正在读取历史版本...' },
+        async () => {
+          const snapshot = await timeMachine.readSnapshot(selected.commit)
+          return { snapshot, comparison: await timeMachine.compareWithCurrent(snapshot) }
+        }
+      )
+
+      if (!(await LibraryTimeMachineWebviewProvider.show(snapshot, comparison))) {
+        return
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `确定要将整个代码库恢复到 ${new Date(selected.commit.date).toLocaleString()} 的版本吗？`,
+        { modal: true, detail: '当前的所有代码片段和目录将被替换，恢复前会自动创建备份。下次同步时恢复后的代码库会推送到云端。' },
+        '恢复'
+      )
+      if (confirm !== '恢复') {
+        return
+      }
+
+      if (SettingsManager.getCloudSyncStatus().isSyncing) {
+        vscode.window.showWarningMessage('正在同步中，请等待同步完成后再恢复')
+        return
+      }
+
+      // 恢复期间暂停自动同步，避免推送恢复了一半的代码库
+      const wasAutoSyncRunning = autoSyncManager.getStatus().isRunning
+      if (wasAutoSyncRunning) {
+        autoSyncManager.stop()
+      }
+
+      try {
+        const { backupDir } = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: '正在恢复代码库...' },
+          () => timeMachine.restoreSnapshot(snapshot)
+        )
+        refreshTreeView()
+        vscode.window.showInformationMessage(
+          `✅ 代码库已恢复到 ${selected.commit.hash.substring(0, 7)} 的版本${backupDir ? `，恢复前的数据已备份到 ${backupDir}` : ''}`
+        )
+      } finally {
+        if (wasAutoSyncRunning) {
+          autoSyncManager.start()
+        }
+      }
+    } catch (error) {
+      console.error('恢复历史版本失败:', error)
+      vscode.window.showErrorMessage(`恢复历史版本失败: ${error}`)
+    }
+  })
+
+  // 切换纯文本插入命令
+  const togglePlainTextInsert = vscode.commands.registerCommand(
+    'starcode-snippets.togglePlainTextInsert',
+    async (item: any) => {
+      if (!item?.snippet) {
+        return
+      }
+
+      try {
+        const insertAsPlainText = !item.snippet.insertAsPlainText
+        await storageManager.updateSnippet({ ...item.snippet, insertAsPlainText })
+        refreshTreeView()
+        vscode.window.showInformationMessage(
+          insertAsPlainText
+            ? `代码片段 "${item.snippet.name}" 将按纯文本插入（不解析占位符）`
+            : `代码片段 "${item.snippet.name}" 将按代码片段语法插入（支持占位符）`
+        )
+      } catch (error) {
+        console.error('切换插入模式失败:', error)
+        vscode.window.showErrorMessage(`切换插入模式失败: ${error}`)
+      }
+    }
+  )
+
+  // 设置智能提示前缀命令
+  const setSnippetPrefix = vscode.commands.registerCommand('starcode-snippets.setSnippetPrefix', async (item: any) => {
+    if (!item?.snippet) {
+      return
+    }
+
+    const prefix = await vscode.window.showInputBox({
+      prompt: `设置代码片段 "${item.snippet.name}" 的智能提示前缀（留空则使用名称）`,
+      placeHolder: '例如: log、forof',
+      value: item.snippet.prefix || '',
+      validateInput: (value) => (/\s/.test(value.trim()) ? '前缀不能包含空白字符' : null),
+    })
+
+    if (prefix === undefined) {
+      return
+    }
+
+    try {
+      await storageManager.updateSnippet({ ...item.snippet, prefix: prefix.trim() || undefined })
+      refreshTreeView()
+    } catch (error) {
+      console.error('设置智能提示前缀失败:', error)
+      vscode.window.showErrorMessage(`设置智能提示前缀失败: ${error}`)
+    }
+  })
+
+  // 编辑标签命令
+  const editSnippetTags = vscode.commands.registerCommand('starcode-snippets.editSnippetTags', async (item: any) => {
+    if (!item?.snippet) {
+      return
+    }
+
+    const input = await vscode.window.showInputBox({
+      prompt: `编辑代码片段 "${item.snippet.name}" 的标签（多个标签用逗号分隔，留空则清除标签）`,
+      placeHolder: '例如: react, hooks',
+      value: (item.snippet.tags || []).join(', '),
+    })
+
+    if (input === undefined) {
+      return
+    }
+
+    try {
+      const tags = normalizeTags(input)
+      await storageManager.updateSnippet({ ...item.snippet, tags: tags.length > 0 ? tags : undefined })
+      refreshTreeView()
+    } catch (error) {
+      console.error('编辑标签失败:', error)
+      vscode.window.showErrorMessage(`编辑标签失败: ${error}`)
+    }
+  })
+
+  // 移动到目录命令（多选或目录时批量移动）
+  const moveToDirectory = vscode.commands.registerCommand('starcode-snippets.moveToDirectory', async (item: any, selectedItems?: any[]) => {
+    const items = getTargetItems(item, selectedItems)
+    if (items.length > 1 || items[0]?.directory) {
+      await moveItemsToDirectory(items)
+      return
+    }
+
+    if (!item?.snippet) {
+      return
+    }
+
+    try {
+      const directories = await storageManager.getAllDirectories()
+      const currentVersion = storageContext.getCurrentStorageVersion()
+      
+      // 根据存储版本准备目录选项
+      let directoryItems: Array<{ label: string; id: string | null; fullPath?: string }>
+      
+      if (currentVersion === 'v2') {
+        // V2格式：使用fullPath
+        directoryItems = [
+          { label: '根目录', id: null, fullPath: '/' },
+          ...directories.map((dir: any) => ({ 
+            label: dir.name, 
+            id: PathBasedManager.generateIdFromPath(dir.fullPath),
+            fullPath: dir.fullPath 
+          })),
+        ]
+      } else {
+        // V1格式：使用id
+        directoryItems = [
+          { label: '根目录', id: null },
+          ...directories.map((dir: any) => ({ label: dir.name, id: dir.id })),
+        ]
+      }
+
+      const selectedDirectory = await vscode.window.showQuickPick(directoryItems, {
+        placeHolder: '选择目标目录',
+      })
+
+      if (selectedDirectory) {
+        // 检查目标目录中是否有重名代码片段
+        let isDuplicate = false
+        
+        if (currentVersion === 'v2') {
+          // V2格式：基于路径检查重复
+          const targetPath = selectedDirectory.fullPath === '/' 
+            ? `/${item.snippet.name}` 
+            : `${selectedDirectory.fullPath}${item.snippet.name}`
+          
+          const existingSnippet = await storageContext.getSnippetByPath(targetPath)
+          isDuplicate = existingSnippet !== null && existingSnippet.fullPath !== item.snippet.fullPath
+        } else {
+          // V1格式：使用原有逻辑
+          const selectedId = selectedDirectory.id || null
+          isDuplicate = await checkDuplicateSnippetName(item.snippet.name, selectedId)
         }
         
         if (isDuplicate) {
@@ -1665,6 +2568,45 @@ function registerCommands(
     }
   })
 
+  /**
+   * 批量移动目录和代码片段到选择的目录中（仅支持V2格式）
+   */
+  async function moveItemsToDirectory(items: any[]): Promise<void> {
+    if (storageContext.getCurrentStorageVersion() !== 'v2') {
+      vscode.window.showWarningMessage('批量移动仅支持 V2 存储格式，请先迁移数据')
+      return
+    }
+
+    try {
+      const directories = await storageContext.getAllDirectories()
+      const toDirectoryPath = (fullPath: string) => (fullPath.endsWith('/') ? fullPath : `${fullPath}/`)
+      const movingPaths = items.filter((i) => i.directory).map((i) => toDirectoryPath(i.directory.fullPath))
+
+      // 不能移动到正在移动的目录或其子目录中
+      const directoryItems = [
+        { label: '根目录', fullPath: '/' },
+        ...directories
+          .map((dir: any) => ({ label: dir.name, description: dir.fullPath, fullPath: toDirectoryPath(dir.fullPath) }))
+          .filter((dir) => !movingPaths.some((movingPath) => dir.fullPath.startsWith(movingPath))),
+      ]
+
+      const selectedDirectory = await vscode.window.showQuickPick(directoryItems, {
+        placeHolder: `选择 ${items.length} 个项目的目标目录`,
+      })
+      if (!selectedDirectory) {
+        return
+      }
+
+      await snippetMover.moveToDirectory(items, selectedDirectory.fullPath)
+      vscode.window.showInformationMessage(`✅ 已将 ${items.length} 个项目移动到 "${selectedDirectory.label}"`)
+    } catch (error) {
+      console.error('批量移动失败:', error)
+      vscode.window.showErrorMessage(`批量移动失败: ${error}`)
+    } finally {
+      refreshTreeView()
+    }
+  }
+
   // 注册插入代码片段命令
       const insertSnippetCommand = vscode.commands.registerCommand(
       'starcode-snippets.insertSnippet',
@@ -1673,14 +2615,77 @@ function registerCommands(
     }
   )
 
-  // 注册导出单个代码片段命令
-  const exportSnippet = vscode.commands.registerCommand('starcode-snippets.exportSnippet', async (item: any) => {
-    if (!item?.snippet) {
-      vscode.window.showErrorMessage('请选择要导出的代码片段')
-      return
+  // 注册导出代码片段命令（多选或目录时导出其中的所有代码片段）
+  const exportSnippet = vscode.commands.registerCommand(
+    'starcode-snippets.exportSnippet',
+    async (item: any, selectedItems?: any[]) => {
+      const items = getTargetItems(item, selectedItems)
+      if (items.length === 0) {
+        vscode.window.showErrorMessage('请选择要导出的代码片段')
+        return
+      }
+
+      if (items.length === 1 && items[0].snippet) {
+        await importExportManager.exportSnippet(items[0].snippet)
+        return
+      }
+
+      try {
+        const snippets = await collectSnippets(items)
+        if (snippets.length === 0) {
+          vscode.window.showInformationMessage('选中的目录中没有代码片段')
+          return
+        }
+        await importExportManager.exportSnippets(snippets)
+      } catch (error) {
+        console.error('导出代码片段失败:', error)
+        vscode.window.showErrorMessage(`导出代码片段失败: ${error}`)
+      }
     }
-    await importExportManager.exportSnippet(item.snippet)
-  })
+  )
+
+  // 修改语言命令（支持多选，目录中的代码片段一并修改）
+  const changeLanguage = vscode.commands.registerCommand(
+    'starcode-snippets.changeLanguage',
+    async (item: any, selectedItems?: any[]) => {
+      const items = getTargetItems(item, selectedItems)
+      if (items.length === 0) {
+        return
+      }
+
+      try {
+        const snippets = await collectSnippets(items)
+        if (snippets.length === 0) {
+          vscode.window.showInformationMessage('选中的目录中没有代码片段')
+          return
+        }
+
+        const currentLanguages = new Set(snippets.map((snippet: any) => snippet.language || 'plaintext'))
+        const selectedLanguage = await vscode.window.showQuickPick(
+          SNIPPET_LANGUAGES.map((language) => ({
+            label: language.label,
+            description: currentLanguages.has(language.id) ? `${language.id}（当前）` : language.id,
+            id: language.id,
+          })),
+          { placeHolder: `为 ${snippets.length} 个代码片段选择语言` }
+        )
+        if (!selectedLanguage) {
+          return
+        }
+
+        for (const snippet of snippets) {
+          if ((snippet.language || 'plaintext') !== selectedLanguage.id) {
+            await storageManager.updateSnippet({ ...snippet, language: selectedLanguage.id })
+          }
+        }
+        refreshTreeView()
+        vscode.window.showInformationMessage(`✅ 已将 ${snippets.length} 个代码片段的语言修改为 ${selectedLanguage.label}`)
+      } catch (error) {
+        console.error('修改语言失败:', error)
+        vscode.window.showErrorMessage(`修改语言失败: ${error}`)
+      }
+    }
+  )
 
   // 注册导出所有代码片段命令
   const exportAll = vscode.commands.registerCommand('starcode-snippets.exportAll', async () => {
@@ -1693,6 +2698,12 @@ function registerCommands(
     refreshTreeView()
   })
 
+  // 注册从其他编辑器格式导入命令
+  const importExternalSnippets = vscode.commands.registerCommand('starcode-snippets.importExternalSnippets', async () => {
+    await importExportManager.importExternalSnippets()
+    refreshTreeView()
+  })
+
   // 注册搜索命令
   const searchSnippets = vscode.commands.registerCommand('starcode-snippets.searchSnippets', async () => {
     await searchManager.startSearch()
@@ -1705,6 +2716,22 @@ function registerCommands(
     searchManager.clearSearch()
   })
 
+  // 注册按标签过滤命令
+  const filterByTag = vscode.commands.registerCommand('starcode-snippets.filterByTag', async () => {
+    try {
+      const snippets = await getAllLibrarySnippets()
+      await searchManager.startTagFilter(snippets)
+    } catch (error) {
+      console.error('按标签过滤失败:', error)
+      vscode.window.showErrorMessage(`按标签过滤失败: ${error}`)
+    }
+  })
+
+  // 注册清除标签过滤命令
+  const clearTagFilter = vscode.commands.registerCommand('starcode-snippets.clearTagFilter', () => {
+    searchManager.clearTagFilter()
+  })
+
   // 注册切换搜索模式命令
   const toggleSearchMode = vscode.commands.registerCommand('starcode-snippets.toggleSearchMode', async () => {
     await searchManager.toggleSearchMode()
@@ -2255,6 +3282,121 @@ function registerCommands(
     }
   })
 
+  // 注册代码片段导航器命令：边输入边在整个代码库中模糊搜索，在侧边预览高亮的代码片段
+  // Enter 插入到打开导航器时的编辑器，条目上的按钮可复制代码或打开编辑器
+  const openSnippetNavigator = vscode.commands.registerCommand('starcode-snippets.openSnippetNavigator', async () => {
+    try {
+      const snippets: CodeSnippet[] = await getAllLibrarySnippets()
+      if (snippets.length === 0) {
+        vscode.window.showInformationMessage('代码库中还没有代码片段')
+        return
+      }
+
+      const targetEditor = vscode.window.activeTextEditor
+      const copyButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('copy'), tooltip: '复制代码' }
+      const editButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('edit'), tooltip: '编辑代码片段' }
+
+      const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { snippet: CodeSnippet }>()
+      quickPick.placeholder = '输入关键字模糊搜索名称、路径和代码，可加 lang: path: tag: in: 限定；Enter 插入代码片段'
+
+      const updateItems = () => {
+        const results = searchManager.findSnippets(snippets, quickPick.value.trim(), SearchMode.FUZZY)
+        // 结果已按相关度排序，alwaysShow 避免 QuickPick 再按标签过滤
+        quickPick.items = results.slice(0, 200).map((result) => ({
+          label: result.snippet.name,
+          description: `${result.snippet.fullPath.substring(0, result.snippet.fullPath.lastIndexOf('/') + 1)} · ${result.snippet.language || 'plaintext'}`,
+          detail: result.matchType === 'content' ? result.matchText.replace(/\s+/g, ' ') : undefined,
+          alwaysShow: true,
+          buttons: [copyButton, editButton],
+          snippet: result.snippet,
+        }))
+      }
+
+      // 导航器打开的预览在关闭导航器时一并关闭
+      const previewUris = new Set<string>()
+      let hidden = false
+      const closePreviews = async () => {
+        const tabs = vscode.window.tabGroups.all
+          .flatMap((group) => group.tabs)
+          .filter((tab) => tab.input instanceof vscode.TabInputText && previewUris.has(tab.input.uri.toString()))
+        previewUris.clear()
+        if (tabs.length > 0) {
+          await vscode.window.tabGroups.close(tabs, true)
+        }
+      }
+
+      quickPick.onDidChangeValue(updateItems)
+      quickPick.onDidChangeActive(async (items) => {
+        if (items.length === 0 || hidden) {
+          return
+        }
+        try {
+          previewUris.add((await showSnippetPreview(items[0].snippet, true)).toString())
+          // 预览打开期间导航器可能已关闭
+          if (hidden) {
+            await closePreviews()
+          }
+        } catch (error) {
+          console.error('预览代码片段失败:', error)
+        }
+      })
+      quickPick.onDidTriggerItemButton(async ({ button, item }) => {
+        if (button === copyButton) {
+          await vscode.env.clipboard.writeText(item.snippet.code)
+          vscode.window.showInformationMessage(`已复制代码片段: ${item.snippet.name}`)
+        } else if (button === editButton) {
+          quickPick.hide()
+          await SnippetEditor.getInstance().edit(item.snippet)
+        }
+      })
+      quickPick.onDidAccept(async () => {
+        const selected = quickPick.selectedItems[0]
+        if (!selected) {
+          return
+        }
+        quickPick.hide()
+        await closePreviews()
+
+        if (!targetEditor) {
+          vscode.window.showWarningMessage('请先打开一个编辑器窗口')
+          return
+        }
+        await vscode.window.showTextDocument(targetEditor.document, targetEditor.viewColumn)
+        if (await insertSnippet(selected.snippet)) {
+          vscode.window.showInformationMessage(`✅ 已插入代码片段: ${selected.snippet.name}`)
+        }
+      })
+      quickPick.onDidHide(async () => {
+        hidden = true
+        quickPick.dispose()
+        await closePreviews()
+      })
+
+      updateItems()
+      quickPick.show()
+    } catch (error) {
+      console.error('打开代码片段导航器失败:', error)
+      vscode.window.showErrorMessage(`打开代码片段导航器失败: ${error}`)
+    }
+  })
+
+  // 代码库切换和管理命令
+  const switchLibrary = vscode.commands.registerCommand('starcode-snippets.switchLibrary', async () => {
+    await libraryManager.pickLibrary()
+  })
+
+  const createLibrary = vscode.commands.registerCommand('starcode-snippets.createLibrary', async () => {
+    await libraryManager.createLibrary()
+  })
+
+  const bindLibrarySyncConfig = vscode.commands.registerCommand('starcode-snippets.bindLibrarySyncConfig', async () => {
+    await libraryManager.bindSyncConfig()
+  })
+
+  const deleteLibrary = vscode.commands.registerCommand('starcode-snippets.deleteLibrary', async () => {
+    await libraryManager.deleteLibrary()
+  })
+
   // 返回所有注册的命令
   return [
     refreshExplorer,
@@ -2263,17 +3405,36 @@ function registerCommands(
     renameItem,
     createDirectory,
     deleteItem,
+    restoreFromTrash,
+    deleteFromTrash,
+    emptyTrash,
     appendCode,
     editSnippet,
+    editSnippetProperties,
+    showSnippetHistory,
+    compareWithSelection,
+    compareWithSnippet,
+    applyComparisonLeftToLibrary,
+    applyComparisonRightToEditor,
+    showSnippetGitHistory,
+    findDeletedSnippets,
+    openTimeMachine,
+    togglePlainTextInsert,
+    setSnippetPrefix,
+    editSnippetTags,
     moveToDirectory,
+    changeLanguage,
     insertSnippetCommand,
     createSnippetInDirectory,
     createSnippet,
     exportSnippet,
     exportAll,
     importSnippets,
+    importExternalSnippets,
     searchSnippets,
     clearSearch,
+    filterByTag,
+    clearTagFilter,
     toggleSearchMode,
     openSettings,
     viewHistory,
@@ -2291,6 +3452,11 @@ function registerCommands(
     forceImportFromGitRepo,
     applyResolvedConflicts,
     pasteSnippetHierarchical,
+    openSnippetNavigator,
+    switchLibrary,
+    createLibrary,
+    bindLibrarySyncConfig,
+    deleteLibrary,
     // testRealFileStorage, // 【已删除】测试命令
   ]
 }
@@ -2299,6 +3465,17 @@ export function deactivate(): void {
   // 清理工作
 }
 
+/**
+ * 差异编辑器中的一次代码片段比较
+ */
+interface SnippetComparison {
+  snippet: CodeSnippet // 右侧：代码库中的代码片段
+  leftCode: string
+  leftUri: vscode.Uri
+  rightUri: vscode.Uri
+  selection?: { uri: vscode.Uri; range: vscode.Range } // 左侧为编辑器选区时，选区所在的文档和范围
+}
+
 /**
  * 虚拟文档内容提供程序
  */
@@ -51,6 +51,12 @@ export class HistoryWebviewProvider {
         case 'openSyncSettings':
           await this._openSyncSettings()
           break
+        case 'findDeletedSnippets':
+          await vscode.commands.executeCommand('starcode-snippets.findDeletedSnippets')
+          break
+        case 'openTimeMachine':
+          await vscode.commands.executeCommand('starcode-snippets.openTimeMachine')
+          break
       }
     })
   }
@@ -226,6 +232,21 @@ export class HistoryWebviewProvider {
             </p>
         </div>
 
+        <div class="feature-section">
+            <h3>⏪ 代码库时光机</h3>
+            <p>预览任意一次同步时的代码库，并将整个本地代码库恢复到该版本。恢复前会自动创建备份。</p>
+            <button id="openTimeMachineBtn" class="btn btn-primary">🕰️ 打开时光机</button>
+        </div>
+
+        <div class="feature-section">
+            <h3>🗑️ 找回已删除的代码片段</h3>
+            <p>从同步仓库的提交历史中查找已删除的代码片段，并恢复到原来的位置。</p>
+            <button id="findDeletedBtn" class="btn btn-primary">🔎 查找已删除的代码片段</button>
+            <p style="margin-top: 15px; font-size: 14px; color: var(--vscode-descriptionForeground);">
+                查看单个代码片段的同步历史：在代码片段上右键选择"查看同步历史"。
+            </p>
+        </div>
+
         <div class="feature-section">
             <h3>⚙️ 配置 Git 同步</h3>
             <p>如果您还没有配置 Git 同步，请前往设置页面进行配置：</p>
@@ -255,6 +276,18 @@ export class HistoryWebviewProvider {
             });
         });
 
+        document.getElementById('openTimeMachineBtn').addEventListener('click', () => {
+            vscode.postMessage({
+                type: 'openTimeMachine'
+            });
+        });
+
+        document.getElementById('findDeletedBtn').addEventListener('click', () => {
+            vscode.postMessage({
+                type: 'findDeletedSnippets'
+            });
+        });
+
         document.getElementById('openSettingsBtn').addEventListener('click', () => {
             vscode.postMessage({
                 type: 'openSyncSettings'
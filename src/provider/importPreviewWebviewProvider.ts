@@ -0,0 +1,347 @@
+import * as vscode from 'vscode'
+import { diffLines } from 'diff'
+import { ImportPlanItem } from '../utils/importExport'
+import { CodeSnippetV2 } from '../types/types'
+
+const STATUS_LABELS: Record<ImportPlanItem['status'], string> = {
+  new: '新增',
+  changed: '变更',
+  conflict: '冲突',
+  unchanged: '未变化',
+}
+
+const METADATA_FIELD_LABELS: Partial<Record<keyof CodeSnippetV2, string>> = {
+  name: '名称',
+  language: '语言',
+  category: '分类',
+  prefix: '智能提示前缀',
+  description: '描述',
+  insertAsPlainText: '纯文本插入',
+  tags: '标签',
+}
+
+/**
+ * 导入预览面板
+ * 在写入任何数据之前列出新增、变更和冲突的代码片段及其差异，由用户确认后再执行导入
+ */
+export class ImportPreviewWebviewProvider {
+  public static readonly viewType = 'starcode-snippets.importPreview'
+
+  private constructor() {}
+
+  /**
+   * 显示导入预览，用户确认导入时返回 true，取消或关闭面板时返回 false
+   */
+  public static show(plan: ImportPlanItem[], policyLabel: string): Promise<boolean> {
+    const panel = vscode.window.createWebviewPanel(
+      ImportPreviewWebviewProvider.viewType,
+      '导入预览',
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+      }
+    )
+
+    const provider = new ImportPreviewWebviewProvider()
+    panel.webview.html = provider._getHtmlForWebview(plan, policyLabel)
+
+    return new Promise<boolean>((resolve) => {
+      let settled = false
+      const finish = (confirmed: boolean) => {
+        if (!settled) {
+          settled = true
+          resolve(confirmed)
+        }
+      }
+
+      panel.webview.onDidReceiveMessage((message) => {
+        switch (message.type) {
+          case 'confirm':
+            finish(true)
+            panel.dispose()
+            break
+          case 'cancel':
+            finish(false)
+            panel.dispose()
+            break
+        }
+      })
+
+      panel.onDidDispose(() => finish(false))
+    })
+  }
+
+  private _renderItem(item: ImportPlanItem): string {
+    const action = this._renderAction(item)
+    let details = ''
+
+    if (item.existing && item.status !== 'unchanged') {
+      details += this._renderMetadataChanges(item)
+      if (item.existing.code !== item.incoming.code) {
+        details += this._renderCodeDiff(item.existing.code, item.incoming.code)
+      }
+    } else if (item.status === 'new') {
+      details += `<pre class="code">${escapeHtml(item.incoming.code)}</pre>`
+    }
+
+    return `
+      <details class="item ${item.status}">
+        <summary>
+          <span class="path">${escapeHtml(item.incoming.fullPath)}</span>
+          <span class="badge ${item.action}">${action}</span>
+        </summary>
+        ${details || '<p class="muted">内容完全一致</p>'}
+      </details>`
+  }
+
+  private _renderAction(item: ImportPlanItem): string {
+    switch (item.action) {
+      case 'add':
+        return '添加'
+      case 'overwrite':
+        return '覆盖现有'
+      case 'rename':
+        return `重命名为 ${escapeHtml(item.targetPath)}`
+      case 'skip':
+        return '跳过'
+    }
+  }
+
+  private _renderMetadataChanges(item: ImportPlanItem): string {
+    const fields = Object.keys(METADATA_FIELD_LABELS) as (keyof CodeSnippetV2)[]
+    const rows = fields
+      .filter((field) => {
+        const existingValue = item.existing?.[field] ?? null
+        const incomingValue = item.incoming[field] ?? null
+        return JSON.stringify(existingValue) !== JSON.stringify(incomingValue)
+      })
+      .map(
+        (field) => `
+          <tr>
+            <td>${METADATA_FIELD_LABELS[field]}</td>
+            <td class="removed">${escapeHtml(formatValue(item.existing?.[field]))}</td>
+            <td class="added">${escapeHtml(formatValue(item.incoming[field]))}</td>
+          </tr>`
+      )
+
+    if (rows.length === 0) {
+      return ''
+    }
+
+    return `
+      <table class="metadata">
+        <thead><tr><th>属性</th><th>现有</th><th>导入</th></tr></thead>
+        <tbody>${rows.join('')}</tbody>
+      </table>`
+  }
+
+  private _renderCodeDiff(existingCode: string, incomingCode: string): string {
+    const lines = diffLines(existingCode, incomingCode).flatMap((change) => {
+      const className = change.added ? 'added' : change.removed ? 'removed' : 'context'
+      const marker = change.added ? '+' : change.removed ? '-' : ' '
+      return change.value
+        .replace(/\n$/, '')
+        .split('\n')
+        .map((line) => `<div class="${className}">${marker} ${escapeHtml(line)}</div>`)
+    })
+    return `<div class="diff">${lines.join('')}</div>`
+  }
+
+  private _getHtmlForWebview(plan: ImportPlanItem[], policyLabel: string): string {
+    const count = (predicate: (item: ImportPlanItem) => boolean) => plan.filter(predicate).length
+    const sections = (['new', 'changed', 'conflict', 'unchanged'] as ImportPlanItem['status'][])
+      .map((status) => {
+        const items = plan.filter((item) => item.status === status)
+        if (items.length === 0) {
+          return ''
+        }
+        return `
+          <section>
+            <h2>${STATUS_LABELS[status]} (${items.length})</h2>
+            ${items.map((item) => this._renderItem(item)).join('')}
+          </section>`
+      })
+      .join('')
+
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>导入预览</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+            line-height: 1.5;
+        }
+
+        .summary {
+            padding: 12px 16px;
+            margin-bottom: 20px;
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 6px;
+            background-color: var(--vscode-sideBar-background);
+        }
+
+        h2 {
+            font-size: 16px;
+            margin: 24px 0 8px 0;
+        }
+
+        .item {
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 4px;
+            margin-bottom: 6px;
+            padding: 6px 10px;
+        }
+
+        .item summary {
+            cursor: pointer;
+            display: flex;
+            justify-content: space-between;
+            gap: 12px;
+        }
+
+        .path {
+            font-family: var(--vscode-editor-font-family);
+        }
+
+        .badge {
+            padding: 0 8px;
+            border-radius: 10px;
+            font-size: 12px;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+
+        .badge.skip {
+            opacity: 0.6;
+        }
+
+        .code, .diff {
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 8px;
+            margin: 8px 0 0 0;
+            overflow-x: auto;
+            white-space: pre;
+        }
+
+        .added {
+            background-color: var(--vscode-diffEditor-insertedTextBackground);
+        }
+
+        .removed {
+            background-color: var(--vscode-diffEditor-removedTextBackground);
+        }
+
+        .metadata {
+            border-collapse: collapse;
+            margin-top: 8px;
+        }
+
+        .metadata th, .metadata td {
+            border: 1px solid var(--vscode-widget-border);
+            padding: 2px 8px;
+            text-align: left;
+        }
+
+        .muted {
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .actions {
+            position: sticky;
+            bottom: 0;
+            padding: 12px 0;
+            background-color: var(--vscode-editor-background);
+        }
+
+        .btn {
+            padding: 8px 18px;
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            font-family: inherit;
+            font-size: inherit;
+            margin-right: 8px;
+        }
+
+        .btn-primary {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+
+        .btn-primary:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+
+        .btn-secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        .btn-secondary:hover {
+            background-color: var(--vscode-button-secondaryHoverBackground);
+        }
+    </style>
+</head>
+<body>
+    <div class="summary">
+        <div>冲突处理策略：<strong>${escapeHtml(policyLabel)}</strong></div>
+        <div>
+            将添加 ${count((item) => item.action === 'add')} 个，
+            覆盖 ${count((item) => item.action === 'overwrite')} 个，
+            重命名保留 ${count((item) => item.action === 'rename')} 个，
+            跳过 ${count((item) => item.action === 'skip')} 个代码片段
+        </div>
+        <div class="muted">在确认之前不会写入任何数据</div>
+    </div>
+
+    ${sections || '<p class="muted">导入文件中没有代码片段</p>'}
+
+    <div class="actions">
+        <button id="confirmBtn" class="btn btn-primary">确认导入</button>
+        <button id="cancelBtn" class="btn btn-secondary">取消</button>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        document.getElementById('confirmBtn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'confirm' });
+        });
+
+        document.getElementById('cancelBtn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'cancel' });
+        });
+    </script>
+</body>
+</html>`
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '（空）'
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : '（空）'
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
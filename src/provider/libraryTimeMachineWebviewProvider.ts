@@ -0,0 +1,267 @@
+import * as vscode from 'vscode'
+import { diffLines } from 'diff'
+import { LibrarySnapshot, SnapshotComparisonItem } from '../utils/sync/libraryTimeMachine'
+
+const STATUS_LABELS: Record<SnapshotComparisonItem['status'], string> = {
+  added: '将恢复',
+  changed: '将还原修改',
+  removed: '将删除',
+  unchanged: '未变化',
+}
+
+/**
+ * 代码库时光机预览面板
+ * 显示历史提交时的代码库及其与当前代码库的差异，由用户确认后再恢复整个代码库
+ */
+export class LibraryTimeMachineWebviewProvider {
+  public static readonly viewType = 'starcode-snippets.libraryTimeMachine'
+
+  private constructor() {}
+
+  /**
+   * 显示历史版本预览，用户确认恢复时返回 true，取消或关闭面板时返回 false
+   */
+  public static show(snapshot: LibrarySnapshot, comparison: SnapshotComparisonItem[]): Promise<boolean> {
+    const panel = vscode.window.createWebviewPanel(
+      LibraryTimeMachineWebviewProvider.viewType,
+      `代码库时光机: ${snapshot.commit.hash.substring(0, 7)}`,
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+      }
+    )
+
+    const provider = new LibraryTimeMachineWebviewProvider()
+    panel.webview.html = provider._getHtmlForWebview(snapshot, comparison)
+
+    return new Promise<boolean>((resolve) => {
+      let settled = false
+      const finish = (confirmed: boolean) => {
+        if (!settled) {
+          settled = true
+          resolve(confirmed)
+        }
+      }
+
+      panel.webview.onDidReceiveMessage((message) => {
+        switch (message.type) {
+          case 'restore':
+            finish(true)
+            panel.dispose()
+            break
+          case 'cancel':
+            finish(false)
+            panel.dispose()
+            break
+        }
+      })
+
+      panel.onDidDispose(() => finish(false))
+    })
+  }
+
+  private _renderItem(item: SnapshotComparisonItem): string {
+    let details = ''
+    if (item.status === 'changed' && item.current) {
+      if (item.current.fullPath !== item.snippet.fullPath) {
+        details += `<p class="muted">当前位置：${escapeHtml(item.current.fullPath)}</p>`
+      }
+      details +=
+        item.current.code !== item.snippet.code
+          ? this._renderCodeDiff(item.current.code, item.snippet.code)
+          : '<p class="muted">代码相同，语言或其他属性不同</p>'
+    } else {
+      details = `<pre class="code">${escapeHtml(item.snippet.code)}</pre>`
+    }
+
+    return `
+      <details class="item">
+        <summary>
+          <span class="path">${escapeHtml(item.snippet.fullPath)}</span>
+          <span class="muted">${escapeHtml(item.snippet.language || 'plaintext')}</span>
+        </summary>
+        ${details}
+      </details>`
+  }
+
+  private _renderCodeDiff(currentCode: string, snapshotCode: string): string {
+    const lines = diffLines(currentCode, snapshotCode).flatMap((change) => {
+      const className = change.added ? 'added' : change.removed ? 'removed' : 'context'
+      const marker = change.added ? '+' : change.removed ? '-' : ' '
+      return change.value
+        .replace(/\n$/, '')
+        .split('\n')
+        .map((line) => `<div class="${className}">${marker} ${escapeHtml(line)}</div>`)
+    })
+    return `<div class="diff">${lines.join('')}</div>`
+  }
+
+  private _getHtmlForWebview(snapshot: LibrarySnapshot, comparison: SnapshotComparisonItem[]): string {
+    const count = (status: SnapshotComparisonItem['status']) => comparison.filter((item) => item.status === status).length
+    const sections = (['added', 'changed', 'removed', 'unchanged'] as SnapshotComparisonItem['status'][])
+      .map((status) => {
+        const items = comparison.filter((item) => item.status === status)
+        if (items.length === 0) {
+          return ''
+        }
+        return `
+          <section>
+            <h2>${STATUS_LABELS[status]} (${items.length})</h2>
+            ${items.map((item) => this._renderItem(item)).join('')}
+          </section>`
+      })
+      .join('')
+
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>代码库时光机</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+            line-height: 1.5;
+        }
+
+        .summary {
+            padding: 12px 16px;
+            margin-bottom: 20px;
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 6px;
+            background-color: var(--vscode-sideBar-background);
+        }
+
+        .hash, .path {
+            font-family: var(--vscode-editor-font-family);
+        }
+
+        h2 {
+            font-size: 16px;
+            margin: 24px 0 8px 0;
+        }
+
+        .item {
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 4px;
+            margin-bottom: 6px;
+            padding: 6px 10px;
+        }
+
+        .item summary {
+            cursor: pointer;
+            display: flex;
+            justify-content: space-between;
+            gap: 12px;
+        }
+
+        .code, .diff {
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 8px;
+            margin: 8px 0 0 0;
+            overflow-x: auto;
+            white-space: pre;
+        }
+
+        .added {
+            background-color: var(--vscode-diffEditor-insertedTextBackground);
+        }
+
+        .removed {
+            background-color: var(--vscode-diffEditor-removedTextBackground);
+        }
+
+        .muted {
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .actions {
+            position: sticky;
+            bottom: 0;
+            padding: 12px 0;
+            background-color: var(--vscode-editor-background);
+        }
+
+        .btn {
+            padding: 8px 18px;
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            font-family: inherit;
+            font-size: inherit;
+            margin-right: 8px;
+        }
+
+        .btn-primary {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+
+        .btn-primary:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+
+        .btn-secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        .btn-secondary:hover {
+            background-color: var(--vscode-button-secondaryHoverBackground);
+        }
+    </style>
+</head>
+<body>
+    <div class="summary">
+        <div>
+            <span class="hash">${snapshot.commit.hash.substring(0, 7)}</span>
+            ${escapeHtml(snapshot.commit.message)}
+        </div>
+        <div class="muted">
+            ${escapeHtml(snapshot.commit.author)} · ${new Date(snapshot.commit.date).toLocaleString('zh-CN')}
+        </div>
+        <div>
+            该版本包含 ${snapshot.snippets.length} 个代码片段、${snapshot.directories.length} 个目录。
+            恢复后将重新添加 ${count('added')} 个，还原 ${count('changed')} 个，删除 ${count('removed')} 个代码片段
+        </div>
+        <div class="muted">恢复前会自动备份当前代码库；在确认之前不会修改任何数据</div>
+    </div>
+
+    ${sections || '<p class="muted">该版本中没有代码片段</p>'}
+
+    <div class="actions">
+        <button id="restoreBtn" class="btn btn-primary">恢复到此版本</button>
+        <button id="cancelBtn" class="btn btn-secondary">取消</button>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        document.getElementById('restoreBtn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'restore' });
+        });
+
+        document.getElementById('cancelBtn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'cancel' });
+        });
+    </script>
+</body>
+</html>`
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode'
+import { StorageManager } from '../storage/storageManager'
+import { CodeSnippet } from '../types/types'
+import { matchesLanguageId } from '../utils/languageUtils'
+import { ProjectLibrary } from '../utils/projectLibrary'
+
+/**
+ * 基于代码片段库的智能提示提供程序
+ * 按当前文档的 languageId 过滤代码片段，以 prefix（未设置时使用名称）作为触发词
+ * 同时提供全局代码库和项目代码库中的代码片段
+ */
+export class SnippetCompletionProvider implements vscode.CompletionItemProvider {
+  private snippets: CodeSnippet[] = []
+  private isDirty = true
+  private loading: Promise<void> | null = null
+
+  constructor(private storageManager: StorageManager, private projectLibrary?: ProjectLibrary) {}
+
+  /**
+   * 注册智能提示提供程序，并在树视图刷新时同步刷新代码片段缓存
+   */
+  public static register(
+    storageManager: StorageManager,
+    onDidRefresh: vscode.Event<unknown>,
+    projectLibrary?: ProjectLibrary
+  ): vscode.Disposable[] {
+    const provider = new SnippetCompletionProvider(storageManager, projectLibrary)
+    return [
+      vscode.languages.registerCompletionItemProvider([{ scheme: 'file' }, { scheme: 'untitled' }], provider),
+      onDidRefresh(() => provider.refresh()),
+    ]
+  }
+
+  /**
+   * 标记缓存失效，下次触发补全时重新加载
+   */
+  public refresh(): void {
+    this.isDirty = true
+  }
+
+  public async provideCompletionItems(document: vscode.TextDocument): Promise<vscode.CompletionItem[]> {
+    const enabled = vscode.workspace.getConfiguration('starcode-snippets').get<boolean>('enableCompletion', true)
+    if (!enabled) {
+      return []
+    }
+
+    try {
+      await this.ensureLoaded()
+    } catch (error) {
+      console.error('加载代码片段补全数据失败:', error)
+      return []
+    }
+
+    return this.snippets
+      .filter((snippet) => matchesLanguageId(snippet.language, document.languageId))
+      .map((snippet) => this.createCompletionItem(snippet))
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.isDirty) {
+      return
+    }
+    if (!this.loading) {
+      this.isDirty = false
+      this.loading = Promise.all([this.storageManager.getAllSnippets(), this.projectLibrary?.getAllSnippets() || []])
+        .then(([snippets, projectSnippets]) => {
+          this.snippets = [...snippets, ...projectSnippets]
+        })
+        .catch((error) => {
+          this.isDirty = true
+          throw error
+        })
+        .finally(() => {
+          this.loading = null
+        })
+    }
+    await this.loading
+  }
+
+  private createCompletionItem(snippet: CodeSnippet): vscode.CompletionItem {
+    const trigger = snippet.prefix?.trim() || snippet.name
+    const item = new vscode.CompletionItem(
+      { label: trigger, description: trigger === snippet.name ? 'StarCode' : snippet.name },
+      vscode.CompletionItemKind.Snippet
+    )
+    item.filterText = trigger
+    item.sortText = trigger
+    item.detail = snippet.fullPath
+    item.insertText = snippet.insertAsPlainText ? snippet.code : new vscode.SnippetString(snippet.code)
+
+    const documentation = new vscode.MarkdownString()
+    if (snippet.description) {
+      documentation.appendMarkdown(`${snippet.description}\n\n`)
+    }
+    item.documentation = documentation.appendCodeblock(snippet.code, snippet.language || 'plaintext')
+    return item
+  }
+}
@@ -0,0 +1,415 @@
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { CodeSnippet, Directory } from '../types/types'
+import { StorageContext } from '../utils/storageContext'
+import { fromVSCodeLanguageId } from '../utils/languageUtils'
+import {
+  validateFileSystemSafety,
+  checkSnippetDirectoryConflict,
+  checkDirectorySnippetConflict,
+  sanitizeName,
+} from '../utils/nameValidator'
+import { isProjectLibraryPath } from '../utils/projectLibrary'
+import { SnippetTreeItem } from './treeProvider'
+
+const TREE_MIME_TYPE = 'application/vnd.code.tree.starcodesnippetsexplorer'
+
+/**
+ * 代码片段树的拖放控制器
+ * 支持在目录之间移动代码片段和目录、调整同级顺序，以及把编辑器中的文本或资源管理器中的文件拖入目录创建代码片段
+ */
+export class SnippetDragAndDropController implements vscode.TreeDragAndDropController<SnippetTreeItem> {
+  readonly dragMimeTypes = [TREE_MIME_TYPE]
+  readonly dropMimeTypes = [TREE_MIME_TYPE, 'text/uri-list', 'text/plain']
+
+  constructor(private storageContext: StorageContext, private onDidDrop: () => void) {}
+
+  public handleDrag(source: readonly SnippetTreeItem[], dataTransfer: vscode.DataTransfer): void {
+    const items = source.filter((item) => item.snippet || item.directory)
+    if (items.length > 0) {
+      dataTransfer.set(TREE_MIME_TYPE, new vscode.DataTransferItem(items))
+    }
+  }
+
+  public async handleDrop(target: SnippetTreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+    // 搜索状态等提示节点不能作为放置目标
+    if (target && !target.snippet && !target.directory) {
+      return
+    }
+
+    if (this.storageContext.getCurrentStorageVersion() !== 'v2') {
+      vscode.window.showWarningMessage('拖放仅支持 V2 存储格式，请先迁移数据')
+      return
+    }
+
+    try {
+      const treeItems = dataTransfer.get(TREE_MIME_TYPE)
+      const uriList = dataTransfer.get('text/uri-list')
+      const text = dataTransfer.get('text/plain')
+
+      // 项目代码库保存在工作区文件中，不支持拖放移动或创建
+      if (
+        isProjectLibraryPath(getTargetDirectoryPath(target)) ||
+        (treeItems?.value as SnippetTreeItem[] | undefined)?.some((item) =>
+          isProjectLibraryPath(item.snippet?.fullPath || item.directory?.fullPath)
+        )
+      ) {
+        vscode.window.showWarningMessage('项目代码库暂不支持拖放，请使用右键菜单操作')
+        return
+      }
+
+      if (treeItems) {
+        await this.moveItems(treeItems.value as SnippetTreeItem[], target)
+      } else if (uriList) {
+        await this.createSnippetsFromFiles(await uriList.asString(), target)
+      } else if (text) {
+        await this.createSnippetFromText(await text.asString(), target)
+      }
+    } catch (error) {
+      console.error('拖放操作失败:', error)
+      vscode.window.showErrorMessage(`拖放操作失败: ${error}`)
+    } finally {
+      this.onDidDrop()
+    }
+  }
+
+  /**
+   * 把多个目录和代码片段移动到指定目录的末尾，供“移动到目录”命令批量使用（仅支持V2格式）
+   */
+  public async moveToDirectory(items: SnippetTreeItem[], targetPath: string): Promise<void> {
+    await this.moveItems(items, undefined, toDirectoryPath(targetPath))
+  }
+
+  /**
+   * 移动树中拖动的目录和代码片段，所有移动完成后只通知一次数据变化
+   * 放到目录上时移入该目录末尾，放到代码片段上时排到该代码片段之前，放到空白处时移到根目录
+   */
+  private async moveItems(
+    items: SnippetTreeItem[],
+    target: SnippetTreeItem | undefined,
+    targetPath: string = getTargetDirectoryPath(target)
+  ): Promise<void> {
+    await this.storageContext.batch(async () => {
+      for (const item of items) {
+        if (item.directory) {
+          await this.dropDirectory(item.directory, target, targetPath)
+        }
+      }
+
+      for (const item of items) {
+        if (item.snippet) {
+          await this.dropSnippet(item.snippet, target, targetPath)
+        }
+      }
+    })
+  }
+
+  private async dropSnippet(
+    dragged: CodeSnippet,
+    target: SnippetTreeItem | undefined,
+    targetPath: string
+  ): Promise<void> {
+    const snippet: CodeSnippet | null = await this.storageContext.getSnippetByPath(dragged.fullPath)
+    if (!snippet) {
+      return
+    }
+
+    const newFullPath = `${targetPath}${snippet.name}`
+    if (newFullPath !== snippet.fullPath) {
+      const directories: Directory[] = await this.storageContext.getAllDirectories()
+      if (await this.storageContext.getSnippetByPath(newFullPath)) {
+        vscode.window.showErrorMessage(`目标目录中已存在名为 "${snippet.name}" 的代码片段`)
+        return
+      }
+      if (checkSnippetDirectoryConflict(snippet.name, directories, targetPath, 'v2')) {
+        vscode.window.showErrorMessage(`不能移动代码片段 "${snippet.name}"，因为目标目录中已存在同名目录`)
+        return
+      }
+
+      await this.storageContext.moveSnippet(snippet.fullPath, {
+        ...snippet,
+        fullPath: newFullPath,
+        category: getDirectoryLabel(targetPath),
+      })
+    }
+
+    await this.placeSnippet(newFullPath, targetPath, target?.snippet)
+  }
+
+  private async dropDirectory(
+    dragged: Directory,
+    target: SnippetTreeItem | undefined,
+    targetPath: string
+  ): Promise<void> {
+    const directory: Directory | null = await this.storageContext.getDirectoryByPath(dragged.fullPath)
+    if (!directory) {
+      return
+    }
+
+    const oldPath = toDirectoryPath(directory.fullPath)
+    const parentPath = getParentPath(oldPath)
+
+    if (target?.directory && toDirectoryPath(target.directory.fullPath) === oldPath) {
+      return
+    }
+
+    // 放到同级目录上时，可以移入该目录，也可以排到该目录之前
+    if (target?.directory) {
+      if (getParentPath(toDirectoryPath(target.directory.fullPath)) === parentPath) {
+        const choice = await vscode.window.showQuickPick(
+          [
+            { label: `移动到 "${target.directory.name}" 中`, action: 'move' },
+            { label: `排列到 "${target.directory.name}" 之前`, action: 'reorder' },
+          ],
+          { placeHolder: `如何放置目录 "${directory.name}"？` }
+        )
+        if (!choice) {
+          return
+        }
+        if (choice.action === 'reorder') {
+          await this.placeDirectory(oldPath, parentPath, target.directory)
+          return
+        }
+      }
+    }
+
+    if (targetPath === parentPath) {
+      // 已在目标目录中，调整到末尾
+      await this.placeDirectory(oldPath, parentPath)
+      return
+    }
+
+    if (targetPath.startsWith(oldPath)) {
+      vscode.window.showErrorMessage(`不能将目录 "${directory.name}" 移动到自身或其子目录中`)
+      return
+    }
+
+    const newPath = `${targetPath}${directory.name}/`
+    const snippets: CodeSnippet[] = await this.storageContext.getAllSnippets()
+    const directories: Directory[] = await this.storageContext.getAllDirectories()
+
+    if (directories.some((d) => toDirectoryPath(d.fullPath) === newPath)) {
+      vscode.window.showErrorMessage(`目标目录中已存在名为 "${directory.name}" 的目录`)
+      return
+    }
+    if (checkDirectorySnippetConflict(directory.name, snippets, targetPath, 'v2')) {
+      vscode.window.showErrorMessage(`不能移动目录 "${directory.name}"，因为目标目录中已存在同名代码片段`)
+      return
+    }
+
+    await this.storageContext.moveDirectory(directory.fullPath, { ...directory, fullPath: newPath })
+    await this.placeDirectory(newPath, targetPath)
+  }
+
+  /**
+   * 从资源管理器拖入的文件创建代码片段，语言取自 VS Code 识别的文件语言
+   */
+  private async createSnippetsFromFiles(uriList: string, target: SnippetTreeItem | undefined): Promise<void> {
+    const targetPath = getTargetDirectoryPath(target)
+    const uris = uriList
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('#'))
+      .map((line) => vscode.Uri.parse(line))
+
+    let created = 0
+    for (const uri of uris) {
+      try {
+        const stat = await vscode.workspace.fs.stat(uri)
+        if (stat.type & vscode.FileType.Directory) {
+          continue
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri)
+        const fileName = path.basename(uri.fsPath)
+        const name = await this.getAvailableName(path.parse(fileName).name, targetPath)
+        await this.createSnippet(
+          {
+            name,
+            code: document.getText(),
+            language: fromVSCodeLanguageId(document.languageId),
+            fileName,
+            filePath: uri.fsPath,
+          },
+          targetPath,
+          target?.snippet
+        )
+        created++
+      } catch (error) {
+        console.warn(`无法从文件创建代码片段: ${uri.toString()}`, error)
+        vscode.window.showWarningMessage(`无法从文件 "${path.basename(uri.fsPath)}" 创建代码片段（可能是二进制文件）`)
+      }
+    }
+
+    if (created > 0) {
+      vscode.window.showInformationMessage(`✅ 已从 ${created} 个文件创建代码片段`)
+    }
+  }
+
+  /**
+   * 从编辑器拖入的文本创建代码片段，语言取自当前编辑器
+   */
+  private async createSnippetFromText(text: string, target: SnippetTreeItem | undefined): Promise<void> {
+    if (!text.trim()) {
+      return
+    }
+
+    const targetPath = getTargetDirectoryPath(target)
+    const firstLine = text.split(/\r?\n/).find((line) => line.trim()) || ''
+    const baseName = sanitizeName(firstLine.trim().substring(0, 40)) || '新代码片段'
+    const suggestedName = await this.getAvailableName(baseName, targetPath)
+
+    const name = await vscode.window.showInputBox({
+      prompt: '为代码片段命名',
+      placeHolder: '输入代码片段名称',
+      value: suggestedName,
+      validateInput: (value) => validateFileSystemSafety(value).error,
+    })
+    if (!name) {
+      return
+    }
+
+    if (name !== (await this.getAvailableName(name, targetPath))) {
+      vscode.window.showErrorMessage(`目标目录中已存在名为 "${name}" 的代码片段或目录`)
+      return
+    }
+
+    const document = vscode.window.activeTextEditor?.document
+    await this.createSnippet(
+      {
+        name,
+        code: text,
+        language: document ? fromVSCodeLanguageId(document.languageId) : 'plaintext',
+        fileName: document ? path.basename(document.fileName) : '',
+        filePath: document ? document.fileName : '',
+      },
+      targetPath,
+      target?.snippet
+    )
+  }
+
+  private async createSnippet(
+    data: Pick<CodeSnippet, 'name' | 'code' | 'language' | 'fileName' | 'filePath'>,
+    targetPath: string,
+    before?: CodeSnippet
+  ): Promise<void> {
+    const snippet: CodeSnippet = {
+      ...data,
+      category: getDirectoryLabel(targetPath),
+      fullPath: `${targetPath}${data.name}`,
+      order: 0,
+      createTime: Date.now(),
+    }
+    await this.storageContext.saveSnippet(snippet)
+    await this.placeSnippet(snippet.fullPath, targetPath, before)
+  }
+
+  /**
+   * 在目标目录中查找不冲突的名称，重名时依次追加 (2)、(3)...
+   */
+  private async getAvailableName(baseName: string, targetPath: string): Promise<string> {
+    const snippets: CodeSnippet[] = await this.storageContext.getAllSnippets()
+    const directories: Directory[] = await this.storageContext.getAllDirectories()
+    const isTaken = (name: string) =>
+      snippets.some((s) => s.fullPath === `${targetPath}${name}`) ||
+      checkSnippetDirectoryConflict(name, directories, targetPath, 'v2')
+
+    let name = baseName
+    for (let suffix = 2; isTaken(name); suffix++) {
+      name = `${baseName} (${suffix})`
+    }
+    return name
+  }
+
+  /**
+   * 把代码片段放到所在目录中指定代码片段之前（未指定时放到末尾），并重新编号同级代码片段的顺序
+   */
+  private async placeSnippet(fullPath: string, parentPath: string, before?: CodeSnippet): Promise<void> {
+    const snippets: CodeSnippet[] = await this.storageContext.getAllSnippets()
+    const siblings = snippets.filter((s) => getParentPath(s.fullPath) === parentPath)
+    const reordered = reorderSiblings(siblings, fullPath, before?.fullPath)
+
+    for (const [order, snippet] of reordered.entries()) {
+      if (snippet.order !== order) {
+        await this.storageContext.updateSnippet({ ...snippet, order })
+      }
+    }
+  }
+
+  /**
+   * 把目录放到同级目录中指定目录之前（未指定时放到末尾），并重新编号同级目录的顺序
+   */
+  private async placeDirectory(fullPath: string, parentPath: string, before?: Directory): Promise<void> {
+    const directories: Directory[] = await this.storageContext.getAllDirectories()
+    const siblings = directories.filter((d) => getParentPath(toDirectoryPath(d.fullPath)) === parentPath)
+    const reordered = reorderSiblings(
+      siblings,
+      fullPath,
+      before ? toDirectoryPath(before.fullPath) : undefined,
+      (d) => toDirectoryPath(d.fullPath)
+    )
+
+    for (const [order, directory] of reordered.entries()) {
+      if (directory.order !== order) {
+        await this.storageContext.updateDirectory({ ...directory, order })
+      }
+    }
+  }
+}
+
+/**
+ * 按当前顺序排列同级条目，并把指定条目移到目标条目之前（没有目标时移到末尾）
+ */
+function reorderSiblings<T extends { fullPath: string; order: number }>(
+  siblings: T[],
+  movedPath: string,
+  beforePath: string | undefined,
+  getPath: (item: T) => string = (item) => item.fullPath
+): T[] {
+  const sorted = [...siblings].sort((a, b) => (a.order || 0) - (b.order || 0))
+  const moved = sorted.find((item) => getPath(item) === movedPath)
+  if (!moved) {
+    return sorted
+  }
+
+  const others = sorted.filter((item) => item !== moved)
+  const index = beforePath && beforePath !== movedPath ? others.findIndex((item) => getPath(item) === beforePath) : -1
+  others.splice(index === -1 ? others.length : index, 0, moved)
+  return others
+}
+
+/**
+ * 获取放置目标对应的目录路径：目录节点为其自身，代码片段节点为其所在目录，空白处为根目录
+ */
+function getTargetDirectoryPath(target: SnippetTreeItem | undefined): string {
+  if (target?.directory) {
+    return toDirectoryPath(target.directory.fullPath)
+  }
+  if (target?.snippet) {
+    return getParentPath(target.snippet.fullPath)
+  }
+  return '/'
+}
+
+/**
+ * 获取代码片段或目录所在的父目录路径（以 / 结尾）
+ */
+function getParentPath(fullPath: string): string {
+  const trimmed = fullPath.replace(/\/$/, '')
+  return trimmed.substring(0, trimmed.lastIndexOf('/') + 1)
+}
+
+/**
+ * 规范化目录路径，确保以 / 结尾（从Git仓库推导的目录路径可能没有结尾的 /）
+ */
+function toDirectoryPath(fullPath: string): string {
+  return fullPath.endsWith('/') ? fullPath : `${fullPath}/`
+}
+
+/**
+ * 代码片段分类显示的目录名称，与“移动到目录”命令一致
+ */
+function getDirectoryLabel(directoryPath: string): string {
+  const parts = directoryPath.split('/').filter((p) => p)
+  return parts.length > 0 ? parts[parts.length - 1] : '根目录'
+}
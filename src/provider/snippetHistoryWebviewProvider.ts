@@ -0,0 +1,374 @@
+import * as vscode from 'vscode'
+import { CodeSnippet } from '../types/types'
+import {
+  DeletedSnippetEntry,
+  SnippetGitHistoryManager,
+  SnippetHistoryEntry,
+} from '../utils/sync/snippetGitHistoryManager'
+
+/**
+ * 代码片段Git历史面板
+ * 列出代码片段在同步仓库中的提交及每次提交的差异，可将任意历史版本恢复到本地；
+ * 同一面板还可以查找并恢复在历史提交中被删除的代码片段
+ */
+export class SnippetHistoryWebviewProvider {
+  public static readonly viewType = 'starcode-snippets.snippetGitHistory'
+
+  private history: SnippetHistoryEntry[] = []
+  private deleted: DeletedSnippetEntry[] | undefined
+  private loadingHistory = false
+  private loadingDeleted = false
+  private disposed = false
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private historyManager: SnippetGitHistoryManager,
+    private snippet: CodeSnippet | undefined,
+    private onDidRestore: () => void
+  ) {}
+
+  /**
+   * 打开历史面板：指定代码片段时显示其提交历史，否则直接查找已删除的代码片段
+   */
+  public static show(
+    historyManager: SnippetGitHistoryManager,
+    snippet: CodeSnippet | undefined,
+    onDidRestore: () => void
+  ): void {
+    const panel = vscode.window.createWebviewPanel(
+      SnippetHistoryWebviewProvider.viewType,
+      snippet ? `同步历史: ${snippet.name}` : '已删除的代码片段',
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+      }
+    )
+
+    const provider = new SnippetHistoryWebviewProvider(panel, historyManager, snippet, onDidRestore)
+    panel.webview.onDidReceiveMessage((message) => provider._handleMessage(message))
+    panel.onDidDispose(() => (provider.disposed = true))
+
+    if (snippet) {
+      provider._loadHistory()
+    } else {
+      provider._loadDeleted()
+    }
+  }
+
+  private async _handleMessage(message: any) {
+    switch (message.type) {
+      case 'restoreVersion':
+        await this._restoreVersion(this.history[message.index])
+        break
+      case 'findDeleted':
+        await this._loadDeleted()
+        break
+      case 'restoreDeleted':
+        await this._restoreDeleted(this.deleted?.[message.index])
+        break
+    }
+  }
+
+  private async _loadHistory() {
+    this.loadingHistory = true
+    this._render()
+    try {
+      this.history = await this.historyManager.getSnippetHistory(this.snippet!)
+    } catch (error) {
+      console.error('获取代码片段Git历史失败:', error)
+      vscode.window.showErrorMessage(`获取代码片段Git历史失败: ${error}`)
+    }
+    this.loadingHistory = false
+    this._render()
+  }
+
+  private async _loadDeleted() {
+    this.loadingDeleted = true
+    this._render()
+    try {
+      this.deleted = await this.historyManager.getDeletedSnippets()
+    } catch (error) {
+      console.error('查找已删除的代码片段失败:', error)
+      vscode.window.showErrorMessage(`查找已删除的代码片段失败: ${error}`)
+    }
+    this.loadingDeleted = false
+    this._render()
+  }
+
+  private async _restoreVersion(entry: SnippetHistoryEntry | undefined) {
+    if (!entry?.snippet || !this.snippet) {
+      return
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `确定要将代码片段 "${this.snippet.name}" 恢复到 ${formatDate(entry.commit.date)} 的版本吗？`,
+      { modal: true, detail: '当前的代码、语言和其他属性将被覆盖，名称和位置保持不变。' },
+      '恢复'
+    )
+    if (confirm !== '恢复') {
+      return
+    }
+
+    try {
+      await this.historyManager.restoreVersion(this.snippet, entry.snippet)
+      this.onDidRestore()
+      vscode.window.showInformationMessage(`已将代码片段 "${this.snippet.name}" 恢复到所选版本`)
+    } catch (error) {
+      console.error('恢复历史版本失败:', error)
+      vscode.window.showErrorMessage(`恢复历史版本失败: ${error}`)
+    }
+  }
+
+  private async _restoreDeleted(entry: DeletedSnippetEntry | undefined) {
+    if (!entry) {
+      return
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `确定要恢复已删除的代码片段 "${entry.snippet.name}" 吗？`,
+      { modal: true, detail: `将恢复到 ${entry.snippet.fullPath}` },
+      '恢复'
+    )
+    if (confirm !== '恢复') {
+      return
+    }
+
+    try {
+      const restored = await this.historyManager.restoreDeleted(entry.snippet)
+      this.deleted = this.deleted?.filter((e) => e !== entry)
+      this._render()
+      this.onDidRestore()
+      vscode.window.showInformationMessage(`已恢复代码片段 "${restored.name}"`)
+    } catch (error) {
+      console.error('恢复已删除的代码片段失败:', error)
+      vscode.window.showErrorMessage(`恢复已删除的代码片段失败: ${error}`)
+    }
+  }
+
+  private _render() {
+    // 读取历史期间面板可能已被关闭
+    if (this.disposed) {
+      return
+    }
+    this.panel.webview.html = this._getHtmlForWebview()
+  }
+
+  private _renderHistory(): string {
+    if (!this.snippet) {
+      return ''
+    }
+    if (this.loadingHistory) {
+      return '<p class="muted">正在读取提交历史...</p>'
+    }
+    if (this.history.length === 0) {
+      return '<p class="muted">同步仓库中没有该代码片段的提交记录，请先同步后再查看</p>'
+    }
+
+    const items = this.history.map(
+      (entry, index) => `
+        <details class="item"${index === 0 ? ' open' : ''}>
+          <summary>
+            <span>
+              <span class="hash">${entry.commit.hash.substring(0, 7)}</span>
+              ${escapeHtml(entry.commit.message)}
+            </span>
+            <span class="muted">${escapeHtml(entry.commit.author)} · ${formatDate(entry.commit.date)}</span>
+          </summary>
+          ${this._renderPatch(entry.diff)}
+          ${
+            entry.snippet
+              ? `<button class="btn btn-primary" data-action="restoreVersion" data-index="${index}">恢复此版本</button>`
+              : '<p class="muted">该提交删除了此代码片段</p>'
+          }
+        </details>`
+    )
+    return `<h2>提交历史 (${this.history.length})</h2>${items.join('')}`
+  }
+
+  private _renderDeleted(): string {
+    if (this.loadingDeleted) {
+      return '<p class="muted">正在查找已删除的代码片段...</p>'
+    }
+    if (this.deleted === undefined) {
+      return '<button class="btn btn-secondary" data-action="findDeleted">查找已删除的代码片段</button>'
+    }
+    if (this.deleted.length === 0) {
+      return '<h2>已删除的代码片段</h2><p class="muted">没有找到可恢复的已删除代码片段</p>'
+    }
+
+    const items = this.deleted.map(
+      (entry, index) => `
+        <details class="item">
+          <summary>
+            <span class="path">${escapeHtml(entry.snippet.fullPath)}</span>
+            <span class="muted">删除于 ${formatDate(entry.commit.date)} · ${escapeHtml(entry.commit.author)}</span>
+          </summary>
+          <pre class="code">${escapeHtml(entry.snippet.code)}</pre>
+          <button class="btn btn-primary" data-action="restoreDeleted" data-index="${index}">恢复</button>
+        </details>`
+    )
+    return `<h2>已删除的代码片段 (${this.deleted.length})</h2>${items.join('')}`
+  }
+
+  private _renderPatch(patch: string): string {
+    // 只显示从第一个差异块开始的内容，省略文件头
+    const hunkStart = patch.search(/^@@/m)
+    if (hunkStart === -1) {
+      return '<p class="muted">该提交只重命名或移动了代码片段</p>'
+    }
+
+    const lines = patch
+      .substring(hunkStart)
+      .replace(/\n$/, '')
+      .split('\n')
+      .map((line) => {
+        const className = line.startsWith('@@')
+          ? 'hunk'
+          : line.startsWith('+')
+            ? 'added'
+            : line.startsWith('-')
+              ? 'removed'
+              : 'context'
+        return `<div class="${className}">${escapeHtml(line)}</div>`
+      })
+    return `<div class="diff">${lines.join('')}</div>`
+  }
+
+  private _getHtmlForWebview(): string {
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>同步历史</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+            line-height: 1.5;
+        }
+
+        h2 {
+            font-size: 16px;
+            margin: 24px 0 8px 0;
+        }
+
+        .item {
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 4px;
+            margin-bottom: 6px;
+            padding: 6px 10px;
+        }
+
+        .item summary {
+            cursor: pointer;
+            display: flex;
+            justify-content: space-between;
+            gap: 12px;
+        }
+
+        .hash, .path {
+            font-family: var(--vscode-editor-font-family);
+        }
+
+        .hash {
+            color: var(--vscode-textLink-foreground);
+            margin-right: 6px;
+        }
+
+        .code, .diff {
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 8px;
+            margin: 8px 0;
+            overflow-x: auto;
+            white-space: pre;
+        }
+
+        .added {
+            background-color: var(--vscode-diffEditor-insertedTextBackground);
+        }
+
+        .removed {
+            background-color: var(--vscode-diffEditor-removedTextBackground);
+        }
+
+        .hunk {
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .muted {
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .btn {
+            padding: 6px 14px;
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            font-family: inherit;
+            font-size: inherit;
+            margin: 4px 0;
+        }
+
+        .btn-primary {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+
+        .btn-primary:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+
+        .btn-secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        .btn-secondary:hover {
+            background-color: var(--vscode-button-secondaryHoverBackground);
+        }
+    </style>
+</head>
+<body>
+    ${this._renderHistory()}
+
+    <div class="deleted">
+        ${this._renderDeleted()}
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        document.querySelectorAll('[data-action]').forEach((button) => {
+            button.addEventListener('click', () => {
+                vscode.postMessage({
+                    type: button.dataset.action,
+                    index: Number(button.dataset.index)
+                });
+            });
+        });
+    </script>
+</body>
+</html>`
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('zh-CN')
+}
@@ -6,10 +6,15 @@ import { SearchManager } from '../utils/searchManager'
 import { SettingsManager } from '../utils/settingsManager'
 import { PathBasedManager } from '../utils/pathBasedManager'
 import { DetailedSyncStatusManager } from '../utils/detailedSyncStatusManager'
+import { TrashEntry, TrashManager } from '../utils/trashManager'
+import { ProjectLibrary, PROJECT_LIBRARY_ROOT, isProjectLibraryPath } from '../utils/projectLibrary'
 
 export class SnippetTreeItem extends vscode.TreeItem {
+  // 回收站中的条目（仅回收站节点的子节点有值）
+  public trashEntry?: TrashEntry
+
   constructor(
-    public readonly label: string,
+    public readonly label: string | vscode.TreeItemLabel,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
     public readonly snippet?: CodeSnippet,
     public readonly directory?: Directory,
@@ -22,6 +27,14 @@ export class SnippetTreeItem extends vscode.TreeItem {
       this.iconPath = new vscode.ThemeIcon('folder')
       this.contextValue = 'directory'
 
+      // 项目代码库的根目录和其中的目录只支持部分操作
+      if (directory.fullPath === PROJECT_LIBRARY_ROOT) {
+        this.iconPath = new vscode.ThemeIcon('repo')
+        this.contextValue = 'projectLibrary'
+      } else if (isProjectLibraryPath(directory.fullPath)) {
+        this.contextValue = 'projectDirectory'
+      }
+
       // 添加目录的内联按钮
       this.tooltip = `目录: ${directory.name}`
 
@@ -36,11 +49,20 @@ export class SnippetTreeItem extends vscode.TreeItem {
     } else if (snippet) {
       // 如果是搜索结果，使用不同的图标
       this.iconPath = isSearchResult ? new vscode.ThemeIcon('search') : new vscode.ThemeIcon('symbol-variable')
-      this.contextValue = 'snippet'
+      this.contextValue = isProjectLibraryPath(snippet.fullPath) ? 'projectSnippet' : 'snippet'
 
       // 添加代码片段的tooltip显示代码预览
       const codePreview = snippet.code.length > 500 ? snippet.code.substring(0, 500) + '...' : snippet.code
-      this.tooltip = new vscode.MarkdownString(`**${snippet.name}**\n\`\`\`${snippet.language}\n${codePreview}\n\`\`\``)
+      const prefixHint = snippet.prefix ? `\n\n智能提示前缀: \`${snippet.prefix}\`` : ''
+      const insertModeHint = snippet.insertAsPlainText ? '\n\n*纯文本插入（不解析占位符）*' : ''
+      const tagsHint = snippet.tags && snippet.tags.length > 0 ? `\n\n标签: ${snippet.tags.map((tag) => `\`${tag}\``).join(' ')}` : ''
+      const descriptionHint = snippet.description ? `\n\n${snippet.description}\n\n---` : ''
+      this.tooltip = new vscode.MarkdownString(`**${snippet.name}**${descriptionHint}\n\`\`\`${snippet.language}\n${codePreview}\n\`\`\`${prefixHint}${insertModeHint}${tagsHint}`)
+
+      // 在名称后显示标签
+      if (snippet.tags && snippet.tags.length > 0) {
+        this.description = snippet.tags.map((tag) => `#${tag}`).join(' ')
+      }
 
       // 为V2格式的代码片段确保有正确的ID
       if ('fullPath' in snippet) {
@@ -71,6 +93,8 @@ export class SnippetsTreeDataProvider implements vscode.TreeDataProvider<Snippet
   private _statusUpdateTimer: NodeJS.Timeout | undefined
   private _isV2Format: boolean = false
   private _detailedStatusManager: DetailedSyncStatusManager | null = null
+  private _trashManager: TrashManager | null = null
+  private _projectLibrary: ProjectLibrary | null = null
 
   constructor(private storageManager: StorageManager, searchManager: SearchManager) {
     this._searchManager = searchManager
@@ -112,6 +136,23 @@ export class SnippetsTreeDataProvider implements vscode.TreeDataProvider<Snippet
     })
   }
 
+  /**
+   * 设置回收站管理器，在树的末尾显示回收站节点
+   */
+  public setTrashManager(trashManager: TrashManager): void {
+    this._trashManager = trashManager
+    trashManager.onDidChange(() => this._onDidChangeTreeData.fire())
+  }
+
+  /**
+   * 设置项目代码库，作为一个独立的根目录显示在全局代码库之后，工作区中的文件变化时刷新
+   */
+  public setProjectLibrary(projectLibrary: ProjectLibrary): void {
+    this._projectLibrary = projectLibrary
+    projectLibrary.onDidChangeData(() => this.refresh())
+    this.refresh()
+  }
+
   /**
    * 启动状态更新定时器
    */
@@ -189,15 +230,17 @@ export class SnippetsTreeDataProvider implements vscode.TreeDataProvider<Snippet
     try {
       // console.log('TreeDataProvider 开始加载数据...')
       // 并行加载数据
-      const [directories, snippets] = await Promise.all([
+      const [directories, snippets, projectDirectories, projectSnippets] = await Promise.all([
         this.storageManager.getAllDirectories(),
         this.storageManager.getAllSnippets(),
+        this._projectLibrary?.getAllDirectories() || [],
+        this._projectLibrary?.getAllSnippets() || [],
       ])
 
       // console.log(`TreeDataProvider 成功从存储中获取: ${snippets.length}个代码片段，${directories.length}个目录`)
 
-      this._directories = directories
-      this._snippets = snippets
+      this._directories = [...directories, ...projectDirectories]
+      this._snippets = [...snippets, ...projectSnippets]
 
       // 检测数据格式
       if (snippets.length > 0) {
@@ -396,6 +439,36 @@ export class SnippetsTreeDataProvider implements vscode.TreeDataProvider<Snippet
     }
   }
 
+  /**
+   * 排列同一层级的代码片段
+   * 搜索时过滤结果已按相关度从高到低排列，不再按 order 排序
+   */
+  private _sortSnippets(snippets: any[]): any[] {
+    if (this._searchManager.isActive) {
+      return snippets
+    }
+    return [...snippets].sort((a, b) => a.order - b.order)
+  }
+
+  /**
+   * 排列同一层级的目录
+   * 搜索时按目录中最相关的代码片段的排名排列，否则按 order 排序
+   */
+  private _sortDirectories(directories: any[], rankedSnippets: any[]): any[] {
+    if (!this._searchManager.isActive) {
+      return [...directories].sort((a, b) => a.order - b.order)
+    }
+
+    const getRank = (dir: any): number => {
+      const rank = rankedSnippets.findIndex((snippet) =>
+        dir.fullPath ? snippet.fullPath?.startsWith(dir.fullPath) : snippet.parentId === dir.id
+      )
+      return rank === -1 ? rankedSnippets.length : rank
+    }
+    const ranks = new Map(directories.map((dir) => [dir, getRank(dir)]))
+    return [...directories].sort((a, b) => ranks.get(a)! - ranks.get(b)!)
+  }
+
   async getChildren(element?: SnippetTreeItem): Promise<SnippetTreeItem[]> {
     // 如果数据还没加载完成，先等待数据加载
     if (!this._initialized) {
@@ -518,6 +591,22 @@ export class SnippetsTreeDataProvider implements vscode.TreeDataProvider<Snippet
         rootItems.push(statusItem)
       }
 
+      // 如果有标签过滤，显示过滤状态
+      if (this._searchManager.hasTagFilter) {
+        const tagFilterItem = new SnippetTreeItem(
+          this._searchManager.getTagFilterDescription(),
+          vscode.TreeItemCollapsibleState.None
+        )
+        tagFilterItem.contextValue = 'tagFilterStatus'
+        tagFilterItem.iconPath = new vscode.ThemeIcon('tag')
+        tagFilterItem.tooltip = '点击修改标签过滤条件'
+        tagFilterItem.command = {
+          command: 'starcode-snippets.filterByTag',
+          title: '按标签过滤',
+        }
+        rootItems.push(tagFilterItem)
+      }
+
       // 获取根级别的目录和代码片段
       let rootDirs: any[] = []
       let rootSnippets: any[] = []
@@ -534,21 +623,16 @@ export class SnippetsTreeDataProvider implements vscode.TreeDataProvider<Snippet
       }
 
       // 添加根级别的目录
-      rootDirs
-        .sort((a, b) => a.order - b.order)
+      this._sortDirectories(rootDirs, filteredSnippets)
         .forEach((dir) => {
           rootItems.push(new SnippetTreeItem(dir.name, vscode.TreeItemCollapsibleState.Expanded, undefined, dir))
         })
 
       // 添加根级别的代码片段
-      rootSnippets
-        .sort((a, b) => a.order - b.order)
+      this._sortSnippets(rootSnippets)
         .forEach((snippet) => {
           const isSearchResult = this._searchManager.isActive
-          const displayName = this._searchManager.generateHighlightedLabel(
-            snippet.name,
-            this._searchManager.searchQuery
-          )
+          const displayName = this._searchManager.getHighlightedLabel(snippet)
 
           const item = new SnippetTreeItem(
             displayName,
@@ -561,7 +645,22 @@ export class SnippetsTreeDataProvider implements vscode.TreeDataProvider<Snippet
           rootItems.push(item)
         })
 
+      // 回收站有内容时显示回收站节点
+      const trashEntries = this._trashManager?.getEntries() || []
+      if (trashEntries.length > 0 && !this._searchManager.isActive) {
+        const trashItem = new SnippetTreeItem(
+          `回收站 (${trashEntries.length})`,
+          vscode.TreeItemCollapsibleState.Collapsed
+        )
+        trashItem.contextValue = 'trash'
+        trashItem.iconPath = new vscode.ThemeIcon('trash')
+        trashItem.tooltip = '已删除的代码片段和目录，可以恢复或彻底删除'
+        rootItems.push(trashItem)
+      }
+
       return rootItems
+    } else if (element.contextValue === 'trash') {
+      return (this._trashManager?.getEntries() || []).map((entry) => this._createTrashEntryItem(entry))
     } else if (element.directory) {
       // 目录节点 - 显示该目录下的所有子目录和代码片段
       const directoryItems: SnippetTreeItem[] = []
@@ -584,21 +683,16 @@ export class SnippetsTreeDataProvider implements vscode.TreeDataProvider<Snippet
       const { childDirs, childSnippets } = this.getChildrenForDirectory(directoryId, directoryPath, filteredSnippets, filteredDirectories)
 
       // 添加子目录
-      childDirs
-        .sort((a, b) => a.order - b.order)
+      this._sortDirectories(childDirs, filteredSnippets)
         .forEach((dir) => {
           directoryItems.push(new SnippetTreeItem(dir.name, vscode.TreeItemCollapsibleState.Expanded, undefined, dir))
         })
 
       // 添加目录下的代码片段
-      childSnippets
-        .sort((a, b) => a.order - b.order)
+      this._sortSnippets(childSnippets)
         .forEach((snippet) => {
           const isSearchResult = this._searchManager.isActive
-          const displayName = this._searchManager.generateHighlightedLabel(
-            snippet.name,
-            this._searchManager.searchQuery
-          )
+          const displayName = this._searchManager.getHighlightedLabel(snippet)
 
           const item = new SnippetTreeItem(
             displayName,
@@ -616,4 +710,21 @@ export class SnippetsTreeDataProvider implements vscode.TreeDataProvider<Snippet
 
     return []
   }
+
+  /**
+   * 创建回收站条目节点，描述中显示删除时间
+   */
+  private _createTrashEntryItem(entry: TrashEntry): SnippetTreeItem {
+    const item = new SnippetTreeItem(entry.name, vscode.TreeItemCollapsibleState.None)
+    item.trashEntry = entry
+    item.contextValue = 'trashItem'
+    item.iconPath = new vscode.ThemeIcon(entry.type === 'directory' ? 'folder' : 'symbol-variable')
+    item.description = `${new Date(entry.deletedAt).toLocaleString()} 删除`
+
+    const expiresAt = this._trashManager?.getExpiresAt(entry)
+    const contentHint = entry.type === 'directory' ? `\n包含 ${entry.snippets.length} 个代码片段` : ''
+    const expiresHint = expiresAt ? `\n将于 ${new Date(expiresAt).toLocaleDateString()} 自动清除` : ''
+    item.tooltip = `原位置: ${entry.fullPath}${contentHint}${expiresHint}`
+    return item
+  }
 }
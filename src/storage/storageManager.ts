@@ -1,5 +1,6 @@
 import * as vscode from 'vscode'
 import { CodeSnippet, Directory } from '../types/types'
+import { findMovedItemIndex } from '../utils/snippetIdentityUtils'
 
 export class StorageManager {
   private context: vscode.ExtensionContext
@@ -327,6 +328,24 @@ export class StorageManager {
     }
   }
 
+  // 重命名或移动代码片段（一次写入，替换原记录）
+  public async moveSnippet(oldFullPath: string, snippet: CodeSnippet): Promise<void> {
+    try {
+      const snippets = await this.getAllSnippets()
+      const index = findMovedItemIndex(snippets, oldFullPath, snippet.uuid)
+
+      if (index === -1) {
+        throw new Error(`代码片段不存在: ${oldFullPath}`)
+      }
+
+      snippets[index] = snippet
+      await this.writeFileWithRetry(this.snippetsFile, snippets)
+    } catch (error) {
+      console.error('移动代码片段失败:', error)
+      throw error
+    }
+  }
+
   // 删除代码片段
   public async deleteSnippet(fullPath: string): Promise<void> {
     try {
@@ -0,0 +1,75 @@
+import * as assert from 'assert'
+import { CodeSnippet } from '../types/types'
+import { matchesSearchFilters, parseSearchQuery } from '../utils/searchQuery'
+
+function createSnippet(overrides: Partial<CodeSnippet> = {}): CodeSnippet {
+  return {
+    name: 'debounce',
+    code: 'export function debounce() {}',
+    filePath: '',
+    fileName: '',
+    category: '',
+    fullPath: '/utils/debounce',
+    order: 0,
+    createTime: 0,
+    language: 'typescript',
+    ...overrides,
+  }
+}
+
+suite('parseSearchQuery', () => {
+  test('解析限定条件、取反和关键字', () => {
+    const parsed = parseSearchQuery('lang:ts -tag:legacy debounce -lodash in:code')
+
+    assert.strictEqual(parsed.text, 'debounce')
+    assert.deepStrictEqual(parsed.excludedTerms, ['lodash'])
+    assert.deepStrictEqual(parsed.filters, [
+      { key: 'lang', value: 'ts', negated: false },
+      { key: 'tag', value: 'legacy', negated: true },
+    ])
+    assert.deepStrictEqual(parsed.scopes, ['content'])
+    assert.deepStrictEqual(parsed.errors, [])
+  })
+
+  test('双引号内的空格不分割', () => {
+    const parsed = parseSearchQuery('path:"/my dir" "hello world"')
+
+    assert.deepStrictEqual(parsed.filters, [{ key: 'path', value: '/my dir', negated: false }])
+    assert.strictEqual(parsed.text, 'hello world')
+  })
+
+  test('缺少值、未知范围和取反的范围记录为错误', () => {
+    const parsed = parseSearchQuery('lang: in:body -in:name')
+
+    assert.strictEqual(parsed.errors.length, 3)
+    assert.deepStrictEqual(parsed.filters, [])
+    assert.deepStrictEqual(parsed.scopes, [])
+  })
+
+  test('rawText 模式下关键字原样保留', () => {
+    const parsed = parseSearchQuery('lang:js -\\d+ "a"', true)
+
+    assert.strictEqual(parsed.text, '-\\d+ "a"')
+    assert.deepStrictEqual(parsed.excludedTerms, [])
+    assert.strictEqual(parsed.filters.length, 1)
+  })
+})
+
+suite('matchesSearchFilters', () => {
+  test('lang: 支持简写、VS Code languageId 和显示名称', () => {
+    const snippet = createSnippet()
+
+    assert.ok(matchesSearchFilters(snippet, parseSearchQuery('lang:ts').filters))
+    assert.ok(matchesSearchFilters(snippet, parseSearchQuery('lang:typescriptreact').filters))
+    assert.ok(matchesSearchFilters(snippet, parseSearchQuery('lang:TypeScript').filters))
+    assert.ok(!matchesSearchFilters(snippet, parseSearchQuery('lang:py').filters))
+  })
+
+  test('path: 按路径片段匹配，tag: 忽略大小写和 #', () => {
+    const snippet = createSnippet({ tags: ['Legacy'] })
+
+    assert.ok(matchesSearchFilters(snippet, parseSearchQuery('path:utils tag:#legacy').filters))
+    assert.ok(!matchesSearchFilters(snippet, parseSearchQuery('-tag:legacy').filters))
+    assert.ok(!matchesSearchFilters(snippet, parseSearchQuery('path:/other').filters))
+  })
+})
@@ -0,0 +1,53 @@
+import * as assert from 'assert'
+import { CodeSnippet } from '../types/types'
+import { FileSystemManager } from '../utils/sync/fileSystemManager'
+
+suite('代码片段文件的元数据', () => {
+  const fileSystemManager = new FileSystemManager()
+
+  const snippet: CodeSnippet = {
+    uuid: '0b7c6f0e-8d0a-4c55-9f43-0d2b7a0f1c11',
+    name: 'debounce',
+    code: 'export function debounce() {\n\n  return 1\n}\n',
+    filePath: 'utils',
+    fileName: 'debounce',
+    category: 'utils',
+    fullPath: '/utils/debounce',
+    order: 3,
+    createTime: 1700000000000,
+    language: 'typescript',
+    prefix: 'deb',
+    description: '防抖\n\n**支持** Markdown',
+    insertAsPlainText: true,
+    tags: ['async', 'timer'],
+  }
+
+  test('写入后读取还原全部属性', () => {
+    const content = fileSystemManager.generateMarkdownContent(snippet)
+    const parsed = fileSystemManager.parseSnippetContent(content, 'utils/debounce', 0)
+
+    assert.deepStrictEqual(parsed, snippet)
+  })
+
+  test('没有元数据的文件按文件位置推导属性', () => {
+    const parsed = fileSystemManager.parseSnippetContent('```python\nprint(1)\n```', 'scripts/hello', 42)
+
+    assert.strictEqual(parsed.name, 'hello')
+    assert.strictEqual(parsed.fullPath, '/scripts/hello')
+    assert.strictEqual(parsed.language, 'python')
+    assert.strictEqual(parsed.code, 'print(1)\n')
+    assert.strictEqual(parsed.createTime, 42)
+    assert.strictEqual(parsed.order, 0)
+  })
+
+  test('文件在仓库中被移动后使用文件位置，其余属性仍按元数据还原', () => {
+    const content = fileSystemManager.generateMarkdownContent(snippet)
+    const parsed = fileSystemManager.parseSnippetContent(content, 'archive/debounce', 0)
+
+    assert.strictEqual(parsed.fullPath, '/archive/debounce')
+    assert.strictEqual(parsed.uuid, snippet.uuid)
+    assert.strictEqual(parsed.order, snippet.order)
+    assert.strictEqual(parsed.createTime, snippet.createTime)
+    assert.deepStrictEqual(parsed.tags, snippet.tags)
+  })
+})
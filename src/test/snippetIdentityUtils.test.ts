@@ -0,0 +1,99 @@
+import * as assert from 'assert'
+import {
+  assignMissingUuids,
+  findMatchingItem,
+  findMovedItemIndex,
+  matchItemsByIdentity,
+  mergeMovedItem,
+} from '../utils/snippetIdentityUtils'
+
+interface Item {
+  uuid?: string
+  fullPath: string
+  name: string
+  code?: string
+}
+
+suite('snippetIdentityUtils', () => {
+  test('assignMissingUuids 补全缺少或重复的 uuid，无需补全时返回原数组', () => {
+    const complete: Item[] = [
+      { uuid: 'a', fullPath: '/a', name: 'a' },
+      { uuid: 'b', fullPath: '/b', name: 'b' },
+    ]
+    assert.strictEqual(assignMissingUuids(complete), complete)
+
+    const result = assignMissingUuids<Item>([
+      { uuid: 'a', fullPath: '/a', name: 'a' },
+      { uuid: 'a', fullPath: '/b', name: 'b' },
+      { fullPath: '/c', name: 'c' },
+    ])
+    const uuids = result.map((item) => item.uuid)
+    assert.strictEqual(uuids[0], 'a')
+    assert.strictEqual(new Set(uuids).size, 3)
+    assert.ok(uuids.every((uuid) => uuid))
+  })
+
+  test('matchItemsByIdentity 按 uuid 对齐重命名的条目，没有 uuid 时按路径对齐', () => {
+    const groups = matchItemsByIdentity<Item>(
+      [
+        { uuid: '1', fullPath: '/old', name: 'old' },
+        { fullPath: '/legacy', name: 'legacy' },
+      ],
+      [
+        { uuid: '1', fullPath: '/new', name: 'new' },
+        { fullPath: '/legacy', name: 'legacy' },
+      ],
+      [
+        { uuid: '1', fullPath: '/old', name: 'old' },
+        { uuid: '2', fullPath: '/old', name: 'old' },
+      ]
+    )
+
+    const renamed = groups.find((group) => group.base?.uuid === '1')
+    assert.strictEqual(renamed?.local?.fullPath, '/new')
+    assert.strictEqual(renamed?.remote?.fullPath, '/old')
+
+    const legacy = groups.find((group) => group.base?.fullPath === '/legacy')
+    assert.strictEqual(legacy?.local?.fullPath, '/legacy')
+    assert.strictEqual(legacy?.remote, null)
+
+    // 远程在原路径新建的条目不会占用重命名条目的位置
+    const created = groups.find((group) => group.remote?.uuid === '2')
+    assert.strictEqual(created?.base, null)
+  })
+
+  test('findMatchingItem 优先按 uuid，双方都有 uuid 时不按路径匹配', () => {
+    const items: Item[] = [
+      { uuid: '1', fullPath: '/renamed', name: 'renamed' },
+      { uuid: '2', fullPath: '/a', name: 'a' },
+      { fullPath: '/b', name: 'b' },
+    ]
+
+    assert.strictEqual(findMatchingItem(items, { uuid: '1', fullPath: '/a', name: 'a' }), items[0])
+    assert.strictEqual(findMatchingItem(items, { uuid: '3', fullPath: '/a', name: 'a' }), undefined)
+    assert.strictEqual(findMatchingItem(items, { uuid: '3', fullPath: '/b', name: 'b' }), items[2])
+    assert.strictEqual(findMatchingItem(items, { fullPath: '/a', name: 'a' }), items[1])
+  })
+
+  test('findMovedItemIndex 优先按 uuid，其次按原路径', () => {
+    const items = [{ uuid: '1', fullPath: '/a' }, { fullPath: '/b' }]
+
+    assert.strictEqual(findMovedItemIndex(items, '/b', '1'), 0)
+    assert.strictEqual(findMovedItemIndex(items, '/b', 'missing'), 1)
+    assert.strictEqual(findMovedItemIndex(items, '/c'), -1)
+  })
+
+  test('mergeMovedItem 在另一方的修改上应用新位置', () => {
+    const hasDifference = (a: Item, b: Item) => a.code !== b.code || a.name !== b.name
+    const base: Item = { uuid: '1', fullPath: '/a', name: 'a', code: 'base' }
+    const moved: Item = { ...base, fullPath: '/dir/a' }
+    const edited: Item = { ...base, code: 'edited' }
+
+    assert.deepStrictEqual(mergeMovedItem(base, moved, edited, hasDifference), { ...edited, fullPath: '/dir/a' })
+    assert.deepStrictEqual(mergeMovedItem(base, edited, moved, hasDifference), { ...edited, fullPath: '/dir/a' })
+
+    // 双方都移动，或移动的一方同时修改了内容时无法自动合并
+    assert.strictEqual(mergeMovedItem(base, moved, { ...base, fullPath: '/other/a' }, hasDifference), null)
+    assert.strictEqual(mergeMovedItem(base, { ...moved, code: 'changed' }, edited, hasDifference), null)
+  })
+})
@@ -0,0 +1,72 @@
+import * as assert from 'assert'
+import { CodeSnippet } from '../types/types'
+import { StorageContext } from '../utils/storageContext'
+import { SnippetSearchIndex } from '../utils/snippetSearchIndex'
+
+function createSnippet(fullPath: string, code: string, uuid?: string): CodeSnippet {
+  return {
+    name: fullPath.substring(fullPath.lastIndexOf('/') + 1),
+    code,
+    filePath: '',
+    fileName: '',
+    category: '',
+    fullPath,
+    order: 0,
+    createTime: 0,
+    uuid,
+  }
+}
+
+/**
+ * 只提供索引用到的读取接口和变更事件的存储上下文
+ */
+function createStorageContext(snippets: CodeSnippet[]): StorageContext {
+  return {
+    onDidChangeData: () => ({ dispose: () => undefined }),
+    getAllSnippets: async () => snippets,
+  } as unknown as StorageContext
+}
+
+suite('SnippetSearchIndex', () => {
+  let snippets: CodeSnippet[]
+  let index: SnippetSearchIndex
+
+  setup(async () => {
+    snippets = [
+      createSnippet('/utils/debounce', 'export function debounce(fn) { return setTimeout(fn) }', '1'),
+      createSnippet('/utils/fetchJson', 'const response = await fetch(url)\nreturn response.json()', '2'),
+    ]
+    index = new SnippetSearchIndex(createStorageContext(snippets))
+    await index.update()
+  })
+
+  teardown(() => {
+    index.dispose()
+  })
+
+  test('查询中的词是代码中某个词的一部分时才可能包含', () => {
+    assert.ok(index.mayContain(snippets[0], 'setTime'))
+    assert.ok(index.mayContain(snippets[1], 'RESPONSE.js'))
+    assert.ok(!index.mayContain(snippets[0], 'fetch'))
+    assert.ok(!index.mayContain(snippets[1], 'debounce response'))
+  })
+
+  test('只有符号的查询无法缩小范围', () => {
+    assert.ok(index.mayContain(snippets[0], '=>'))
+    assert.ok(index.mayContain(snippets[1], '=>'))
+  })
+
+  test('代码变化后未重新索引前不排除代码片段，更新后按新代码判断', async () => {
+    const changed = { ...snippets[0], code: 'const throttle = true' }
+    assert.ok(index.mayContain(changed, 'throttle'))
+
+    snippets[0] = changed
+    await index.update()
+    assert.ok(index.mayContain(changed, 'throttle'))
+    assert.ok(!index.mayContain(changed, 'debounce'))
+  })
+
+  test('未索引的代码片段总是可能包含', () => {
+    assert.ok(index.mayContain(createSnippet('/new', 'anything', '3'), 'missing'))
+  })
+})
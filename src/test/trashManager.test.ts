@@ -0,0 +1,72 @@
+import * as assert from 'assert'
+import * as vscode from 'vscode'
+import { CodeSnippet, Directory } from '../types/types'
+import { StorageContext } from '../utils/storageContext'
+import { TrashManager } from '../utils/trashManager'
+import { SettingsManager } from '../utils/settingsManager'
+
+/**
+ * 只记录 globalState 写入的扩展上下文
+ */
+function createContext(): { context: vscode.ExtensionContext; updatedKeys: string[] } {
+  const updatedKeys: string[] = []
+  const context = {
+    globalState: {
+      get: <T>(_key: string, defaultValue?: T) => defaultValue,
+      update: async (key: string) => {
+        updatedKeys.push(key)
+      },
+    },
+  } as unknown as vscode.ExtensionContext
+  return { context, updatedKeys }
+}
+
+suite('TrashManager', () => {
+  test('默认代码库沿用原来的回收站键', async () => {
+    const { context, updatedKeys } = createContext()
+
+    await TrashManager.deleteLibraryTrash(context, SettingsManager.DEFAULT_LIBRARY_ID)
+
+    assert.deepStrictEqual(updatedKeys, ['trash.v2'])
+  })
+
+  test('其他代码库使用各自的回收站键', async () => {
+    const { context, updatedKeys } = createContext()
+
+    await TrashManager.deleteLibraryTrash(context, 'work')
+    await TrashManager.deleteLibraryTrash(context, 'personal')
+
+    assert.deepStrictEqual(updatedKeys, ['trash.v2.work', 'trash.v2.personal'])
+  })
+
+  test('多个条目一次写入当前代码库的回收站，并一次删除', async () => {
+    const { context, updatedKeys } = createContext()
+    const snippets = [
+      { name: 'a', fullPath: '/a', code: '' },
+      { name: 'b', fullPath: '/dir/b', code: '' },
+    ] as CodeSnippet[]
+    const directories = [
+      { name: 'dir', fullPath: '/dir/', order: 0 },
+      { name: 'sub', fullPath: '/dir/sub/', order: 0 },
+    ] as Directory[]
+    const deleted: string[][][] = []
+    const storageContext = {
+      getAllSnippets: async () => snippets,
+      getAllDirectories: async () => directories,
+      deleteItems: async (snippetPaths: string[], directoryPaths: string[]) => {
+        deleted.push([snippetPaths, directoryPaths])
+      },
+    } as unknown as StorageContext
+    const trashManager = new TrashManager(context, storageContext)
+    let changeCount = 0
+    trashManager.onDidChange(() => changeCount++)
+
+    await trashManager.trashItems([snippets[0]], [directories[0]])
+    trashManager.dispose()
+
+    assert.strictEqual(SettingsManager.getActiveSnippetLibrary().id, SettingsManager.DEFAULT_LIBRARY_ID)
+    assert.deepStrictEqual(updatedKeys, ['trash.v2'])
+    assert.deepStrictEqual(deleted, [[['/a'], ['/dir/']]])
+    assert.strictEqual(changeCount, 1)
+  })
+})
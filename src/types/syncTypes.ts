@@ -30,6 +30,23 @@ export interface GitOperationResult {
   message: string
 }
 
+/**
+ * Git 提交记录
+ */
+export interface GitCommitInfo {
+  hash: string
+  author: string
+  date: number
+  message: string
+}
+
+/**
+ * Git 提交中的文件记录
+ */
+export interface GitFileCommit extends GitCommitInfo {
+  filePath: string // 文件在该提交中的路径
+}
+
 /**
  * 远程检查结果
  */
@@ -12,6 +12,11 @@ export interface CodeSnippetV1 {
   order: number
   createTime: number
   language?: string // 代码语言，可选属性
+  insertAsPlainText?: boolean // 按纯文本插入，不解析 $1、${1:name} 等占位符，可选属性
+  prefix?: string // 智能提示触发前缀，可选属性
+  description?: string // 代码片段描述，可选属性
+  tags?: string[] // 标签，可选属性
+  uuid?: string // 稳定唯一标识，重命名和移动时保持不变，可选属性
 }
 
 export interface DirectoryV1 {
@@ -19,6 +24,7 @@ export interface DirectoryV1 {
   name: string
   parentId: string | null
   order: number
+  uuid?: string // 稳定唯一标识，重命名和移动时保持不变，可选属性
 }
 
 // ===== V2 类型（新版本，基于路径） =====
@@ -32,12 +38,18 @@ export interface CodeSnippetV2 {
   order: number
   createTime: number
   language?: string // 代码语言，可选属性
+  insertAsPlainText?: boolean // 按纯文本插入，不解析 $1、${1:name} 等占位符，可选属性
+  prefix?: string // 智能提示触发前缀，可选属性
+  description?: string // 代码片段描述，可选属性
+  tags?: string[] // 标签，可选属性
+  uuid?: string // 稳定唯一标识，重命名和移动时保持不变，可选属性
 }
 
 export interface DirectoryV2 {
   name: string
   fullPath: string // 完整路径，如 "/lims/"
   order: number
+  uuid?: string // 稳定唯一标识，重命名和移动时保持不变，可选属性
 }
 
 // ===== 已弃用的类型别名（指向V1） =====
@@ -110,6 +122,13 @@ export interface MultiPlatformCloudSyncConfig {
   activeConfigId: string | null // 当前激活的配置ID
 }
 
+// 代码库，每个代码库有独立的存储，可绑定一个Git平台配置用于同步
+export interface SnippetLibrary {
+  id: string // 代码库唯一标识符，默认代码库为 default
+  name: string // 代码库名称，用于在UI中显示
+  platformConfigId: string | null // 绑定的Git平台配置ID，切换到该代码库时自动激活
+}
+
 // ===== 管理器接口定义 =====
 
 /**
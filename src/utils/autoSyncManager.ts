@@ -54,6 +54,11 @@ export class AutoSyncManager {
       return
     }
 
+    const libraryBlockReason = SettingsManager.getLibrarySyncBlockReason()
+    if (libraryBlockReason) {
+      return
+    }
+
     // config.syncInterval是分钟数，需要转换为秒数
     const syncIntervalMinutes = config.syncInterval || 5 // 默认5分钟
     // 确保间隔时间合理（最少0.5分钟，最大24小时）
@@ -100,8 +105,9 @@ export class AutoSyncManager {
     console.log('重启自动同步...')
     this.stop()
 
-    // 短暂延迟后重新启动，确保配置已更新
+    // 短暂延迟后重新启动，确保配置已更新；重新创建同步管理器以使用当前激活的配置
     setTimeout(() => {
+      this.cloudSyncManager = new CloudSyncManager(this.context, this.storageManager)
       this.start()
     }, 1000)
   }
@@ -104,6 +104,15 @@ export class CloudSyncManager {
       }
     }
 
+    // 当前代码库与激活的同步配置不匹配时不同步，避免覆盖其他代码库的仓库
+    const libraryBlockReason = SettingsManager.getLibrarySyncBlockReason()
+    if (libraryBlockReason) {
+      return {
+        success: false,
+        message: libraryBlockReason,
+      }
+    }
+
     try {
       console.log('🚀 开始Git标准同步...')
       
@@ -168,6 +177,15 @@ export class CloudSyncManager {
       }
     }
 
+    const libraryBlockReason = SettingsManager.getLibrarySyncBlockReason()
+    if (libraryBlockReason) {
+      return {
+        success: false,
+        message: libraryBlockReason,
+        imported: { snippets: 0, directories: 0 }
+      }
+    }
+
     return await this.cloudOpsManager.forceImportFromGitRepo()
   }
 
@@ -477,6 +495,13 @@ export class CloudSyncManager {
    */
   public async pullFromCloud(): Promise<PullResult> {
     console.warn('⚠️ pullFromCloud() 已废弃，建议使用 clone() 方法')
+    const libraryBlockReason = SettingsManager.getLibrarySyncBlockReason()
+    if (libraryBlockReason) {
+      return {
+        success: false,
+        message: libraryBlockReason,
+      }
+    }
     return await this.cloudOpsManager.pullFromCloud()
   }
 
@@ -489,6 +514,13 @@ export class CloudSyncManager {
     userConfirmed: boolean = false
   ): Promise<SyncResult> {
     console.warn('⚠️ forcePushToCloud() 是危险操作，建议使用标准的 sync() 方法')
+    const libraryBlockReason = SettingsManager.getLibrarySyncBlockReason()
+    if (libraryBlockReason) {
+      return {
+        success: false,
+        message: libraryBlockReason,
+      }
+    }
     return await this.cloudOpsManager.forcePushToCloud(currentSnippets, currentDirectories, userConfirmed)
   }
 
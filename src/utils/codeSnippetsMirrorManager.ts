@@ -0,0 +1,190 @@
+import * as vscode from 'vscode'
+import { StorageContext } from './storageContext'
+import { getVSCodeLanguageIds } from './languageUtils'
+
+/**
+ * 镜像文件位置
+ * - off: 不生成
+ * - user: 默认配置文件的用户代码片段目录（User/snippets）
+ * - workspace: 当前工作区的 .vscode 目录
+ */
+export type CodeSnippetsMirrorTarget = 'off' | 'user' | 'workspace'
+
+const MIRROR_FILE_NAME = 'starcode.code-snippets'
+const LAST_WRITTEN_URI_KEY = 'codeSnippetsMirror.lastWrittenUri'
+const MIRROR_HEADER = '// 此文件由 StarCode Snippets 自动生成，手动修改会在下次写入时被覆盖\n'
+
+/**
+ * VS Code 原生代码片段格式
+ */
+interface NativeSnippet {
+  prefix: string
+  body: string[]
+  description: string
+  scope: string
+}
+
+/**
+ * .code-snippets 镜像管理器
+ * 在代码片段库发生写入时，将全部代码片段同步生成到 VS Code 原生的 starcode.code-snippets 文件中，
+ * 使内置的代码片段功能及其他工具无需通过本扩展即可使用代码片段库
+ */
+export class CodeSnippetsMirrorManager implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = []
+  private writeTimer: NodeJS.Timeout | undefined
+  private lastWrittenUri: vscode.Uri | undefined
+  private lastWrittenContent: string | undefined
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private storageContext: StorageContext
+  ) {
+    // 记录上次生成的位置，以便重启后切换位置或关闭时仍能清理旧文件
+    const lastWrittenUri = this.context.globalState.get<string>(LAST_WRITTEN_URI_KEY)
+    this.lastWrittenUri = lastWrittenUri ? vscode.Uri.parse(lastWrittenUri) : undefined
+
+    this.disposables.push(
+      this.storageContext.onDidChangeData(() => this.scheduleWrite()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('starcode-snippets.codeSnippetsMirror')) {
+          this.scheduleWrite()
+        }
+      })
+    )
+
+    this.scheduleWrite()
+  }
+
+  /**
+   * 获取当前配置的镜像位置
+   */
+  public static getTarget(): CodeSnippetsMirrorTarget {
+    return vscode.workspace
+      .getConfiguration('starcode-snippets')
+      .get<CodeSnippetsMirrorTarget>('codeSnippetsMirror', 'off')
+  }
+
+  /**
+   * 立即重新生成镜像文件
+   */
+  public async writeNow(): Promise<vscode.Uri | undefined> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer)
+      this.writeTimer = undefined
+    }
+
+    const targetUri = this.getMirrorUri(CodeSnippetsMirrorManager.getTarget())
+
+    // 镜像位置发生变化或已关闭时，清理之前生成的文件
+    if (this.lastWrittenUri && this.lastWrittenUri.toString() !== targetUri?.toString()) {
+      await this.deleteMirrorFile(this.lastWrittenUri)
+      this.lastWrittenUri = undefined
+      this.lastWrittenContent = undefined
+      await this.context.globalState.update(LAST_WRITTEN_URI_KEY, undefined)
+    }
+
+    if (!targetUri) {
+      return undefined
+    }
+
+    const snippets = await this.storageContext.getAllSnippets()
+    const content = MIRROR_HEADER + JSON.stringify(this.convertToNativeSnippets(snippets), null, 2) + '\n'
+    if (this.lastWrittenUri?.toString() === targetUri.toString() && this.lastWrittenContent === content) {
+      return targetUri
+    }
+
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(targetUri, '..'))
+    await vscode.workspace.fs.writeFile(targetUri, Buffer.from(content, 'utf8'))
+    this.lastWrittenUri = targetUri
+    this.lastWrittenContent = content
+    await this.context.globalState.update(LAST_WRITTEN_URI_KEY, targetUri.toString())
+    return targetUri
+  }
+
+  /**
+   * 将代码片段库转换为 VS Code 代码片段 JSON 格式
+   */
+  public convertToNativeSnippets(snippets: any[]): Record<string, NativeSnippet> {
+    const result: Record<string, NativeSnippet> = {}
+
+    for (const snippet of snippets) {
+      const key = snippet.fullPath || snippet.name
+      const code: string = snippet.insertAsPlainText ? this.escapeSnippetSyntax(snippet.code) : snippet.code
+      result[key] = {
+        prefix: snippet.prefix?.trim() || snippet.name,
+        body: code.split(/\r?\n/),
+        description: key,
+        scope: getVSCodeLanguageIds(snippet.language).join(','),
+      }
+    }
+
+    return result
+  }
+
+  public dispose(): void {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer)
+    }
+    this.disposables.forEach((disposable) => disposable.dispose())
+    this.disposables = []
+  }
+
+  /**
+   * 合并短时间内的多次写入，避免批量操作时频繁生成文件
+   */
+  private scheduleWrite(): void {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer)
+    }
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = undefined
+      this.writeNow().catch((error) => {
+        console.error('更新 .code-snippets 镜像文件失败:', error)
+      })
+    }, 500)
+  }
+
+  private getMirrorUri(target: CodeSnippetsMirrorTarget): vscode.Uri | undefined {
+    if (target === 'user') {
+      return this.getUserSnippetsUri()
+    }
+    if (target === 'workspace') {
+      const workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+      return workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, '.vscode', MIRROR_FILE_NAME) : undefined
+    }
+    return undefined
+  }
+
+  /**
+   * 获取用户代码片段目录中的镜像文件位置
+   * globalStorageUri 位于 User/globalStorage/<扩展ID>，不区分配置文件（Profile），
+   * 因此镜像文件总是生成到默认配置文件的 User/snippets 目录，其他配置文件需要与默认配置文件共享代码片段才能使用。
+   * 目录结构不符合预期时（如自定义的数据目录）返回 undefined，不生成镜像文件
+   */
+  private getUserSnippetsUri(): vscode.Uri | undefined {
+    const segments = this.context.globalStorageUri.path.split('/')
+    const globalStorageIndex = segments.lastIndexOf('globalStorage')
+    if (globalStorageIndex < 1 || segments[globalStorageIndex - 1] !== 'User') {
+      console.warn('无法确定用户代码片段目录，未生成 .code-snippets 镜像文件:', this.context.globalStorageUri.toString())
+      return undefined
+    }
+
+    const userPath = segments.slice(0, globalStorageIndex).join('/')
+    return this.context.globalStorageUri.with({ path: `${userPath}/snippets/${MIRROR_FILE_NAME}` })
+  }
+
+  private async deleteMirrorFile(uri: vscode.Uri): Promise<void> {
+    try {
+      await vscode.workspace.fs.delete(uri)
+    } catch {
+      // 文件可能已被手动删除，忽略
+    }
+  }
+
+  /**
+   * 转义代码片段语法字符，使纯文本插入的代码片段在原生代码片段中原样输出
+   */
+  private escapeSnippetSyntax(code: string): string {
+    return code.replace(/[\\$}]/g, (char) => `\\${char}`)
+  }
+}
@@ -1,6 +1,7 @@
 import * as crypto from 'crypto'
 import { CodeSnippet, Directory } from '../../types/types'
 import { ContentExtractionResult } from '../../types/syncTypes'
+import { hasSnippetMetadataDifference } from '../snippetMetadataUtils'
 
 /**
  * 冲突检测器
@@ -19,7 +20,8 @@ export class ConflictDetector {
            local.language !== remote.language ||
            local.fileName !== remote.fileName ||
            local.filePath !== remote.filePath ||
-           local.fullPath !== remote.fullPath
+           local.fullPath !== remote.fullPath ||
+           hasSnippetMetadataDifference(local, remote)
   }
 
   /**
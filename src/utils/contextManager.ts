@@ -6,6 +6,8 @@ import * as vscode from 'vscode'
 export class ContextManager {
   private static _isEditingSnippet: boolean = false
   private static _hasActiveSearch: boolean = false
+  private static _hasActiveTagFilter: boolean = false
+  private static _snippetComparison: 'selection' | 'snippet' | undefined = undefined
 
   /**
    * 设置是否正在编辑代码片段
@@ -37,11 +39,43 @@ export class ContextManager {
     return this._hasActiveSearch
   }
 
+  /**
+   * 设置是否有活跃的标签过滤
+   */
+  public static async setActiveTagFilter(hasTagFilter: boolean): Promise<void> {
+    this._hasActiveTagFilter = hasTagFilter
+    await vscode.commands.executeCommand('setContext', 'starcode-snippets.hasActiveTagFilter', hasTagFilter)
+  }
+
+  /**
+   * 获取是否有活跃的标签过滤
+   */
+  public static hasActiveTagFilter(): boolean {
+    return this._hasActiveTagFilter
+  }
+
+  /**
+   * 设置当前差异编辑器中的代码片段比较类型（与编辑器选区或另一个代码片段比较），不在比较时为 undefined
+   */
+  public static async setSnippetComparison(kind: 'selection' | 'snippet' | undefined): Promise<void> {
+    this._snippetComparison = kind
+    await vscode.commands.executeCommand('setContext', 'starcode-snippets.snippetComparison', kind)
+  }
+
+  /**
+   * 获取当前差异编辑器中的代码片段比较类型
+   */
+  public static getSnippetComparison(): 'selection' | 'snippet' | undefined {
+    return this._snippetComparison
+  }
+
   /**
    * 重置所有状态
    */
   public static async resetAll(): Promise<void> {
     await this.setEditingSnippet(false)
     await this.setActiveSearch(false)
+    await this.setActiveTagFilter(false)
+    await this.setSnippetComparison(undefined)
   }
 }
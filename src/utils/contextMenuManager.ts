@@ -3,6 +3,7 @@ import { CodeSnippet, Directory } from '../types/types'
 import { StorageManager } from '../storage/storageManager'
 import { StorageContext } from './storageContext'
 import { PathBasedManager } from './pathBasedManager'
+import { ProjectLibrary } from './projectLibrary'
 
 /**
  * 菜单项接口
@@ -63,7 +64,7 @@ export class ContextMenuManager {
   private menuItems: MenuItemData[] = []
   private isV2Format: boolean = false
 
-  constructor(storageManager: StorageManager, storageContext: StorageContext) {
+  constructor(storageManager: StorageManager, storageContext: StorageContext, private projectLibrary?: ProjectLibrary) {
     this.storageManager = storageManager
     this.storageContext = storageContext
   }
@@ -73,11 +74,15 @@ export class ContextMenuManager {
    */
   async generateMenuItems(): Promise<MenuItemData[]> {
     try {
-      // 获取所有数据
-      const [snippets, directories] = await Promise.all([
+      // 获取所有数据，项目代码库作为一个根目录显示在全局代码库之后
+      const [globalSnippets, globalDirectories, projectSnippets, projectDirectories] = await Promise.all([
         this.storageManager.getAllSnippets(),
-        this.storageManager.getAllDirectories()
+        this.storageManager.getAllDirectories(),
+        this.projectLibrary?.getAllSnippets() || [],
+        this.projectLibrary?.getAllDirectories() || []
       ])
+      const snippets = [...globalSnippets, ...projectSnippets]
+      const directories = [...globalDirectories, ...projectDirectories]
 
       // 检测数据格式
       this.isV2Format = snippets.length > 0 ? 'fullPath' in snippets[0] : 
@@ -422,12 +427,14 @@ export class ContextMenuManager {
         })
       } else {
         const snippet = item.snippet!
+        // 有描述时优先显示描述，否则显示代码预览
+        const detailText = snippet.description ? snippet.description.replace(/\s+/g, ' ').trim() : snippet.code
         quickPickItems.push({
           label: `$(file-code) ${item.label}`,
           description: snippet.language || 'plaintext',
-          detail: snippet.code.length > 100 ? 
-            snippet.code.substring(0, 100) + '...' : 
-            snippet.code,
+          detail: detailText.length > 100 ? 
+            detailText.substring(0, 100) + '...' : 
+            detailText,
           menuData: item
         })
       }
@@ -0,0 +1,350 @@
+import * as path from 'path'
+import { fromVSCodeLanguageId } from './languageUtils'
+
+/**
+ * 从其他编辑器格式解析出的代码片段
+ */
+export interface ExternalSnippet {
+  name: string
+  code: string
+  prefix?: string
+  description?: string
+  language?: string
+}
+
+/**
+ * 支持导入的外部代码片段格式
+ */
+export type ExternalSnippetFormat = 'vscode' | 'sublime' | 'jetbrains'
+
+/**
+ * Sublime Text 作用域与代码片段语言的对应关系（仅列出名称不一致的情况）
+ */
+const SUBLIME_SCOPE_LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  jsx: 'javascript',
+  'c++': 'cpp',
+  c: 'cpp',
+  cs: 'csharp',
+  'shell.bash': 'shell',
+  'html.basic': 'html',
+  'html.vue': 'vue',
+  'text.html.markdown': 'markdown',
+}
+
+/**
+ * JetBrains 模板上下文与代码片段语言的对应关系
+ */
+const JETBRAINS_CONTEXT_LANGUAGES: Record<string, string> = {
+  JAVA: 'java',
+  JAVA_CODE: 'java',
+  JAVA_STATEMENT: 'java',
+  JAVA_EXPRESSION: 'java',
+  JAVA_DECLARATION: 'java',
+  JAVA_SCRIPT: 'javascript',
+  JS_STATEMENT: 'javascript',
+  JS_EXPRESSION: 'javascript',
+  TypeScript: 'typescript',
+  TS_STATEMENT: 'typescript',
+  TS_EXPRESSION: 'typescript',
+  Python: 'python',
+  PY_CODE: 'python',
+  HTML: 'html',
+  HTML_TEXT: 'html',
+  CSS: 'css',
+  CSS_PROPERTY_VALUE: 'css',
+  VUE: 'vue',
+  VUE_TEMPLATE: 'vue',
+  GO: 'go',
+  GO_BLOCK: 'go',
+  GO_FILE: 'go',
+  PHP: 'php',
+  PHP_Statement: 'php',
+  RUBY: 'ruby',
+  RUST: 'rust',
+  RUST_EXPRESSION: 'rust',
+  SQL: 'sql',
+  CSHARP: 'csharp',
+  OC_CPP: 'cpp',
+  CPP: 'cpp',
+  JSON: 'json',
+  YAML: 'yaml',
+  MARKDOWN: 'markdown',
+  SHELL_SCRIPT: 'shell',
+}
+
+/**
+ * 外部代码片段解析器
+ * 支持 VS Code（.code-snippets / 语言 JSON）、Sublime Text（.sublime-snippet）和 JetBrains 实时模板（XML）
+ */
+export class ExternalSnippetParser {
+  /**
+   * 根据文件扩展名和内容识别格式
+   */
+  static detectFormat(filePath: string, content: string): ExternalSnippetFormat | null {
+    const ext = path.extname(filePath).toLowerCase()
+    if (ext === '.code-snippets' || ext === '.json') {
+      return 'vscode'
+    }
+    if (ext === '.sublime-snippet') {
+      return 'sublime'
+    }
+    if (ext === '.xml') {
+      if (/<templateSet[\s>]/.test(content)) {
+        return 'jetbrains'
+      }
+      if (/<snippet[\s>]/.test(content)) {
+        return 'sublime'
+      }
+    }
+    return null
+  }
+
+  /**
+   * 解析文件内容
+   */
+  static parse(format: ExternalSnippetFormat, filePath: string, content: string): ExternalSnippet[] {
+    switch (format) {
+      case 'vscode':
+        return this.parseVSCodeSnippets(filePath, content)
+      case 'sublime':
+        return this.parseSublimeSnippet(filePath, content)
+      case 'jetbrains':
+        return this.parseJetBrainsTemplates(content)
+    }
+  }
+
+  /**
+   * 解析 VS Code 代码片段文件
+   * 语言 JSON 文件（如 javascript.json）以文件名作为语言，.code-snippets 文件取 scope 中的第一个语言
+   */
+  static parseVSCodeSnippets(filePath: string, content: string): ExternalSnippet[] {
+    const data = JSON.parse(this.stripJsonComments(content))
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('不是有效的 VS Code 代码片段文件')
+    }
+
+    const fileLanguage =
+      path.extname(filePath).toLowerCase() === '.json' ? fromVSCodeLanguageId(path.basename(filePath, '.json')) : undefined
+
+    const snippets: ExternalSnippet[] = []
+    for (const [key, value] of Object.entries<any>(data)) {
+      if (!value || typeof value !== 'object' || value.body === undefined) {
+        continue
+      }
+
+      const body = Array.isArray(value.body) ? value.body.join('\n') : String(value.body)
+      const prefix = Array.isArray(value.prefix) ? value.prefix[0] : value.prefix
+      const scope = typeof value.scope === 'string' ? value.scope.split(',')[0].trim() : ''
+
+      snippets.push({
+        name: key,
+        code: body,
+        prefix: prefix ? String(prefix) : undefined,
+        description: value.description
+          ? Array.isArray(value.description)
+            ? value.description.join('\n')
+            : String(value.description)
+          : undefined,
+        language: scope ? fromVSCodeLanguageId(scope) : fileLanguage,
+      })
+    }
+    return snippets
+  }
+
+  /**
+   * 解析 Sublime Text 代码片段（每个文件一个代码片段）
+   * Sublime 的 $1、${1:name} 语法与 VS Code 一致，内容原样保留
+   */
+  static parseSublimeSnippet(filePath: string, content: string): ExternalSnippet[] {
+    const snippetBlocks = content.match(/<snippet[\s>][\s\S]*?<\/snippet>/g) || []
+
+    return snippetBlocks
+      .map((block): ExternalSnippet | null => {
+        const code = this.readXmlElement(block, 'content')
+        if (code === undefined) {
+          return null
+        }
+
+        const prefix = this.readXmlElement(block, 'tabTrigger')?.trim()
+        const description = this.readXmlElement(block, 'description')?.trim()
+        const scope = this.readXmlElement(block, 'scope')?.trim()
+
+        return {
+          name: description || prefix || path.basename(filePath, path.extname(filePath)),
+          code: code.replace(/^\r?\n/, '').replace(/\r?\n[ \t]*$/, ''),
+          prefix: prefix || undefined,
+          description: description || undefined,
+          language: scope ? this.mapSublimeScope(scope) : undefined,
+        }
+      })
+      .filter((snippet): snippet is ExternalSnippet => snippet !== null)
+  }
+
+  /**
+   * 解析 JetBrains 实时模板
+   * $VAR$ 转换为 ${n:默认值} 占位符，$END$ 转换为 $0，$$ 为字面量 $
+   */
+  static parseJetBrainsTemplates(content: string): ExternalSnippet[] {
+    const templateBlocks = content.match(/<template\s[^>]*?(?:\/>|>[\s\S]*?<\/template>)/g) || []
+
+    return templateBlocks.map((block) => {
+      const openTag = block.match(/<template\s[^>]*>/)?.[0] || block
+      const abbreviation = this.readXmlAttribute(openTag, 'name') || 'template'
+      const value = this.readXmlAttribute(openTag, 'value') || ''
+      const description = this.readXmlAttribute(openTag, 'description')
+
+      // 变量默认值
+      const defaults = new Map<string, string>()
+      for (const variableTag of block.match(/<variable\s[^>]*>/g) || []) {
+        const variableName = this.readXmlAttribute(variableTag, 'name')
+        if (variableName) {
+          const defaultValue = (this.readXmlAttribute(variableTag, 'defaultValue') || '').replace(/^"(.*)"$/, '$1')
+          defaults.set(variableName, defaultValue)
+        }
+      }
+
+      // 模板上下文决定语言，取第一个启用的上下文
+      let language: string | undefined
+      for (const optionTag of block.match(/<option\s[^>]*>/g) || []) {
+        if (this.readXmlAttribute(optionTag, 'value') === 'true') {
+          const contextName = this.readXmlAttribute(optionTag, 'name') || ''
+          language = JETBRAINS_CONTEXT_LANGUAGES[contextName]
+          if (language) {
+            break
+          }
+        }
+      }
+
+      return {
+        name: abbreviation,
+        code: this.convertJetBrainsTemplate(value, defaults),
+        prefix: abbreviation,
+        description: description || undefined,
+        language,
+      }
+    })
+  }
+
+  /**
+   * 将 JetBrains 模板文本转换为 VS Code 代码片段语法
+   */
+  private static convertJetBrainsTemplate(template: string, defaults: Map<string, string>): string {
+    const tabstops = new Map<string, number>()
+
+    return template.split(/(\$\$|\$[A-Za-z_][A-Za-z0-9_]*\$)/).map((part) => {
+      if (part === '$$') {
+        return '\\$'
+      }
+      const variable = part.match(/^\$([A-Za-z_][A-Za-z0-9_]*)\$$/)
+      if (variable) {
+        const variableName = variable[1]
+        if (variableName === 'END') {
+          return '$0'
+        }
+        if (variableName === 'SELECTION') {
+          return '$TM_SELECTED_TEXT'
+        }
+        if (!tabstops.has(variableName)) {
+          tabstops.set(variableName, tabstops.size + 1)
+          const placeholder = this.escapeSnippetText(defaults.get(variableName) || variableName)
+          return `\${${tabstops.get(variableName)}:${placeholder}}`
+        }
+        return `$${tabstops.get(variableName)}`
+      }
+      return this.escapeSnippetText(part)
+    }).join('')
+  }
+
+  private static mapSublimeScope(scope: string): string | undefined {
+    // 取第一个作用域，如 "source.python, source.js" 中的 source.python
+    const firstScope = scope.split(',')[0].trim()
+    if (SUBLIME_SCOPE_LANGUAGES[firstScope]) {
+      return SUBLIME_SCOPE_LANGUAGES[firstScope]
+    }
+    const name = firstScope.replace(/^(source|text)\./, '')
+    return SUBLIME_SCOPE_LANGUAGES[name] || fromVSCodeLanguageId(name.split('.')[0])
+  }
+
+  private static readXmlElement(xml: string, tagName: string): string | undefined {
+    const match = xml.match(new RegExp(`<${tagName}>([\\s\\S]*?)</${tagName}>`))
+    if (!match) {
+      return undefined
+    }
+    const cdata = match[1].match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/)
+    return cdata ? cdata[1] : this.decodeXmlEntities(match[1])
+  }
+
+  private static readXmlAttribute(tag: string, attribute: string): string | undefined {
+    const match = tag.match(new RegExp(`\\s${attribute}="([^"]*)"`))
+    return match ? this.decodeXmlEntities(match[1]) : undefined
+  }
+
+  private static decodeXmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|quot|apos|lt|gt|amp);/g, (_, entity: string) => {
+      switch (entity) {
+        case 'quot':
+          return '"'
+        case 'apos':
+          return "'"
+        case 'lt':
+          return '<'
+        case 'gt':
+          return '>'
+        case 'amp':
+          return '&'
+        default:
+          return String.fromCodePoint(
+            entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+          )
+      }
+    })
+  }
+
+  private static escapeSnippetText(text: string): string {
+    return text.replace(/[\\$}]/g, (char) => `\\${char}`)
+  }
+
+  /**
+   * 移除 JSONC 中的注释和尾随逗号（VS Code 代码片段文件允许二者存在）
+   */
+  private static stripJsonComments(content: string): string {
+    let result = ''
+    let inString = false
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i]
+      const next = content[i + 1]
+      if (inString) {
+        result += char
+        if (char === '\\') {
+          result += next ?? ''
+          i++
+        } else if (char === '"') {
+          inString = false
+        }
+      } else if (char === '"') {
+        inString = true
+        result += char
+      } else if (char === ',' && /^\s*[}\]]/.test(content.slice(i + 1))) {
+        // 跳过尾随逗号
+        continue
+      } else if (char === '/' && next === '/') {
+        while (i < content.length && content[i] !== '\n') {
+          i++
+        }
+        result += '\n'
+      } else if (char === '/' && next === '*') {
+        i += 2
+        while (i < content.length && !(content[i] === '*' && content[i + 1] === '/')) {
+          i++
+        }
+        i++
+      } else {
+        result += char
+      }
+    }
+    return result
+  }
+}
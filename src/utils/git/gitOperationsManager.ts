@@ -3,7 +3,10 @@ import * as fs from 'fs'
 import { simpleGit, SimpleGit, CleanOptions } from 'simple-git'
 import { CloudSyncConfig } from '../../types/types'
 import { SettingsManager } from '../settingsManager'
-import { GitOperationResult } from '../../types/syncTypes'
+import { GitOperationResult, GitCommitInfo, GitFileCommit } from '../../types/syncTypes'
+
+// git log 输出格式：记录分隔符 + 哈希、作者、时间戳、提交信息（字段分隔符分隔）
+const LOG_FORMAT = '%x1e%H%x1f%an%x1f%at%x1f%s'
 
 /**
  * Git操作管理器
@@ -594,6 +597,87 @@ export class GitOperationsManager {
     }
   }
 
+  /**
+   * 获取当前分支的提交历史，最新的提交在前
+   */
+  public async getCommitHistory(maxCount: number = 50): Promise<GitCommitInfo[]> {
+    const git = await this.getGitInstance()
+    try {
+      const output = await git.raw(['log', `--max-count=${maxCount}`, `--format=${LOG_FORMAT}`])
+      return parseLogRecords(output).map(({ hash, author, date, message }) => ({ hash, author, date, message }))
+    } catch (error) {
+      throw new Error(`获取提交历史失败: ${error}`)
+    }
+  }
+
+  /**
+   * 获取文件的提交历史（跟随重命名），最新的提交在前
+   */
+  public async getFileHistory(filePath: string, maxCount: number = 50): Promise<GitFileCommit[]> {
+    const git = await this.getGitInstance()
+    try {
+      const output = await git.raw([
+        '-c',
+        'core.quotePath=false',
+        'log',
+        '--follow',
+        `--max-count=${maxCount}`,
+        `--format=${LOG_FORMAT}`,
+        '--name-only',
+        '--',
+        filePath,
+      ])
+      return parseFileLog(output)
+    } catch (error) {
+      throw new Error(`获取文件历史失败: ${error}`)
+    }
+  }
+
+  /**
+   * 获取在历史提交中被删除的文件，每个文件记录删除它的提交
+   */
+  public async getDeletedFiles(maxCount: number = 200): Promise<GitFileCommit[]> {
+    const git = await this.getGitInstance()
+    try {
+      const output = await git.raw([
+        '-c',
+        'core.quotePath=false',
+        'log',
+        '--diff-filter=D',
+        `--max-count=${maxCount}`,
+        `--format=${LOG_FORMAT}`,
+        '--name-only',
+      ])
+      return parseFileLog(output)
+    } catch (error) {
+      throw new Error(`获取已删除文件失败: ${error}`)
+    }
+  }
+
+  /**
+   * 读取文件在指定提交中的内容，文件在该提交中不存在时返回 undefined
+   */
+  public async getFileAtCommit(commit: string, filePath: string): Promise<string | undefined> {
+    const git = await this.getGitInstance()
+    try {
+      return await git.show([`${commit}:${filePath}`])
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * 获取指定提交对文件的修改（补丁格式）
+   */
+  public async getFileDiff(commit: string, filePath: string): Promise<string> {
+    const git = await this.getGitInstance()
+    try {
+      return await git.raw(['-c', 'core.quotePath=false', 'show', '--format=', '-M', commit, '--', filePath])
+    } catch (error) {
+      throw new Error(`获取文件差异失败: ${error}`)
+    }
+  }
+
   /**
    * 重新初始化仓库
    */
@@ -977,3 +1061,35 @@ export class GitOperationsManager {
     }
   }
 }
+
+/**
+ * 解析 git log 输出，每个提交生成一条记录，带 --name-only 时同时返回提交中的文件
+ */
+function parseLogRecords(output: string): Array<GitCommitInfo & { files: string[] }> {
+  const records: Array<GitCommitInfo & { files: string[] }> = []
+
+  for (const chunk of output.split('\x1e')) {
+    const [header, ...files] = chunk.split('\n')
+    const [hash, author, timestamp, message] = header.split('\x1f')
+    if (!hash || timestamp === undefined) {
+      continue
+    }
+
+    records.push({
+      hash,
+      author,
+      date: Number(timestamp) * 1000,
+      message: message || '',
+      files: files.map((f) => f.trim()).filter((f) => f),
+    })
+  }
+
+  return records
+}
+
+/**
+ * 解析带 --name-only 的 git log 输出，每个提交中的每个文件生成一条记录
+ */
+function parseFileLog(output: string): GitFileCommit[] {
+  return parseLogRecords(output).flatMap(({ files, ...commit }) => files.map((filePath) => ({ ...commit, filePath })))
+}
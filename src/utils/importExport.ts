@@ -16,6 +16,65 @@ import { StorageManager } from '../storage/storageManager'
 import { v4 as uuidv4 } from 'uuid'
 import { PathBasedManager } from './pathBasedManager'
 import { StorageContext } from './storageContext'
+import { ExternalSnippet, ExternalSnippetParser } from './externalSnippetParser'
+import { sanitizeName } from './nameValidator'
+import { ImportPreviewWebviewProvider } from '../provider/importPreviewWebviewProvider'
+
+/**
+ * 导入时路径冲突的处理策略
+ * - skip: 保留现有代码片段
+ * - overwrite: 使用导入的代码片段覆盖
+ * - keepBoth: 两者都保留，导入的代码片段添加后缀
+ * - newer: 按创建时间保留较新的一方
+ */
+export type ImportConflictPolicy = 'skip' | 'overwrite' | 'keepBoth' | 'newer'
+
+/**
+ * 导入计划中的单个代码片段
+ */
+export interface ImportPlanItem {
+  status: 'new' | 'changed' | 'conflict' | 'unchanged'
+  action: 'add' | 'overwrite' | 'rename' | 'skip'
+  incoming: CodeSnippetV2
+  existing?: CodeSnippetV2
+  targetPath: string // 实际写入的路径（重命名时与导入路径不同）
+}
+
+/**
+ * 导入结果统计
+ */
+interface ImportResult {
+  added: number
+  updated: number
+  renamed: number
+  skipped: number
+  directoriesCreated: number
+}
+
+const IMPORT_CONFLICT_POLICY_LABELS: Record<ImportConflictPolicy, string> = {
+  skip: '跳过',
+  overwrite: '覆盖',
+  keepBoth: '保留两者',
+  newer: '保留较新的',
+}
+
+const IMPORT_CONFLICT_POLICY_DESCRIPTIONS: Record<ImportConflictPolicy, string> = {
+  skip: '保留现有代码片段，不导入同路径的项目',
+  overwrite: '使用导入的代码片段覆盖现有内容',
+  keepBoth: '导入的代码片段以 _imported 后缀重命名后保存',
+  newer: '按创建时间比较，保留较新的一方',
+}
+
+// 除代码外参与比较的代码片段属性
+const IMPORT_COMPARED_FIELDS: (keyof CodeSnippetV2)[] = [
+  'name',
+  'language',
+  'category',
+  'prefix',
+  'description',
+  'insertAsPlainText',
+  'tags',
+]
 
 export class ImportExportManager {
   private storageContext?: StorageContext
@@ -68,6 +127,40 @@ export class ImportExportManager {
     }
   }
 
+  /**
+   * 导出选中的多个代码片段（仅支持V2格式）
+   */
+  async exportSnippets(snippets: CodeSnippet[]): Promise<void> {
+    try {
+      let exportData: ExportDataV2
+
+      if (this.isUsingV2()) {
+        const snippetsV2 = snippets as CodeSnippetV2[]
+        exportData = {
+          version: '2.0.0',
+          exportDate: new Date().toISOString(),
+          directories: PathBasedManager.extractDirectoriesFromPaths(snippetsV2.map((s) => s.fullPath)),
+          snippets: snippetsV2,
+        }
+      } else {
+        const directories = (await this.storageManager.getAllDirectories()) as unknown as DirectoryV1[]
+        const result = PathBasedManager.convertToV2(snippets as unknown as CodeSnippetV1[], directories)
+
+        exportData = {
+          version: '2.0.0',
+          exportDate: new Date().toISOString(),
+          directories: result.directories,
+          snippets: result.snippets,
+        }
+      }
+
+      await this.saveExportFile(exportData)
+    } catch (error) {
+      console.error('导出代码片段失败:', error)
+      vscode.window.showErrorMessage(`导出代码片段失败: ${error}`)
+    }
+  }
+
   /**
    * 导出所有代码片段（仅支持V2格式）
    */
@@ -158,15 +251,150 @@ export class ImportExportManager {
 
       // 执行导入
       const result = await this.performImport(importData)
+      if (!result) {
+        return // 用户取消了导入
+      }
 
-      const message = `导入完成！新增 ${result.added} 个代码片段，更新 ${result.updated} 个代码片段，创建 ${result.directoriesCreated} 个目录。`
-      vscode.window.showInformationMessage(message)
+      vscode.window.showInformationMessage(this.formatImportResult(result))
     } catch (error) {
       console.error('导入代码片段失败:', error)
       vscode.window.showErrorMessage(`导入代码片段失败: ${error}`)
     }
   }
 
+  /**
+   * 从其他编辑器的代码片段格式导入（VS Code、Sublime Text、JetBrains）
+   */
+  async importExternalSnippets(): Promise<void> {
+    try {
+      const fileUris = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: true,
+        filters: {
+          'VS Code 代码片段': ['code-snippets', 'json'],
+          'Sublime Text 代码片段': ['sublime-snippet'],
+          'JetBrains 实时模板': ['xml'],
+        },
+        openLabel: '选择要导入的代码片段文件',
+      })
+
+      if (!fileUris || fileUris.length === 0) {
+        return // 用户取消了选择
+      }
+
+      // 解析所有文件
+      const parsedSnippets: ExternalSnippet[] = []
+      const failedFiles: string[] = []
+      for (const fileUri of fileUris) {
+        const filePath = fileUri.fsPath
+        try {
+          const content = fs.readFileSync(filePath, 'utf8')
+          const format = ExternalSnippetParser.detectFormat(filePath, content)
+          if (!format) {
+            failedFiles.push(`${path.basename(filePath)}（无法识别的格式）`)
+            continue
+          }
+          parsedSnippets.push(...ExternalSnippetParser.parse(format, filePath, content))
+        } catch (error) {
+          console.error(`解析代码片段文件失败: ${filePath}`, error)
+          failedFiles.push(`${path.basename(filePath)}（${error instanceof Error ? error.message : error}）`)
+        }
+      }
+
+      if (failedFiles.length > 0) {
+        vscode.window.showWarningMessage(`以下文件未能导入: ${failedFiles.join('，')}`)
+      }
+
+      if (parsedSnippets.length === 0) {
+        vscode.window.showInformationMessage('所选文件中没有可导入的代码片段')
+        return
+      }
+
+      // 选择目标目录
+      const targetDirectory = await this.pickTargetDirectory()
+      if (!targetDirectory) {
+        return
+      }
+
+      const snippets = this.convertExternalSnippets(parsedSnippets, targetDirectory)
+      let importData: ExportData = {
+        version: '2.0.0',
+        exportDate: new Date().toISOString(),
+        directories: targetDirectory.fullPath === '/' ? [] : [targetDirectory],
+        snippets,
+      }
+
+      if (!this.isUsingV2()) {
+        importData = PathBasedManager.convertExportDataV2ToV1(importData)
+      }
+
+      const result = await this.performImport(importData)
+      if (!result) {
+        return // 用户取消了导入
+      }
+
+      vscode.window.showInformationMessage(this.formatImportResult(result))
+    } catch (error) {
+      console.error('导入外部代码片段失败:', error)
+      vscode.window.showErrorMessage(`导入外部代码片段失败: ${error}`)
+    }
+  }
+
+  /**
+   * 选择导入的目标目录
+   */
+  private async pickTargetDirectory(): Promise<DirectoryV2 | undefined> {
+    const directories = await this.storageManager.getAllDirectories()
+    const directoriesV2: DirectoryV2[] = this.isUsingV2()
+      ? directories
+      : PathBasedManager.convertToV2([], directories as unknown as DirectoryV1[]).directories
+
+    const selected = await vscode.window.showQuickPick(
+      [
+        { label: '根目录', directory: { name: '', fullPath: '/', order: 0 } as DirectoryV2 },
+        ...directoriesV2.map((directory) => ({
+          label: directory.name,
+          description: directory.fullPath,
+          directory,
+        })),
+      ],
+      { placeHolder: '选择导入的目标目录' }
+    )
+
+    return selected?.directory
+  }
+
+  /**
+   * 将外部代码片段转换为V2格式，并处理同一批次内的重名
+   */
+  private convertExternalSnippets(externalSnippets: ExternalSnippet[], targetDirectory: DirectoryV2): CodeSnippetV2[] {
+    const usedNames = new Set<string>()
+
+    return externalSnippets.map((externalSnippet, index) => {
+      const baseName = sanitizeName(externalSnippet.name)
+      let name = baseName
+      for (let suffix = 2; usedNames.has(name); suffix++) {
+        name = `${baseName}_${suffix}`
+      }
+      usedNames.add(name)
+
+      return {
+        name,
+        code: externalSnippet.code,
+        filePath: '',
+        fileName: name,
+        category: targetDirectory.name,
+        fullPath: `${targetDirectory.fullPath}${name}`,
+        order: index,
+        createTime: Date.now(),
+        language: externalSnippet.language || 'plaintext',
+        prefix: externalSnippet.prefix,
+        description: externalSnippet.description,
+      }
+    })
+  }
+
   /**
    * 获取代码片段的目录路径
    */
@@ -210,16 +438,33 @@ export class ImportExportManager {
     return config.get('storageVersion', 'v2') === 'v2'
   }
 
-  private async performImport(
-    importData: ExportData
-  ): Promise<{ added: number; updated: number; directoriesCreated: number }> {
+  /**
+   * 执行导入，返回 undefined 表示用户取消
+   */
+  private async performImport(importData: ExportData): Promise<ImportResult | undefined> {
     if (importData.version === '1.0.0') {
-      return this.performImportV1(importData as ExportDataV1)
+      const result = await this.performImportV1(importData as ExportDataV1)
+      return { ...result, renamed: 0, skipped: 0 }
     } else {
       return this.performImportV2(importData as ExportDataV2)
     }
   }
 
+  /**
+   * 生成导入结果提示信息
+   */
+  private formatImportResult(result: ImportResult): string {
+    const parts = [`新增 ${result.added} 个代码片段`, `更新 ${result.updated} 个代码片段`]
+    if (result.renamed > 0) {
+      parts.push(`重命名保留 ${result.renamed} 个代码片段`)
+    }
+    if (result.skipped > 0) {
+      parts.push(`跳过 ${result.skipped} 个代码片段`)
+    }
+    parts.push(`创建 ${result.directoriesCreated} 个目录`)
+    return `导入完成！${parts.join('，')}。`
+  }
+
   private async performImportV1(
     importData: ExportDataV1
   ): Promise<{ added: number; updated: number; directoriesCreated: number }> {
@@ -306,12 +551,123 @@ export class ImportExportManager {
     }
   }
 
-  private async performImportV2(
-    importData: ExportDataV2
-  ): Promise<{ added: number; updated: number; directoriesCreated: number }> {
-    let added = 0
-    let updated = 0
-    let directoriesCreated = 0
+  /**
+   * 选择路径冲突时的处理策略
+   */
+  private async pickConflictPolicy(): Promise<ImportConflictPolicy | undefined> {
+    const selected = await vscode.window.showQuickPick(
+      (Object.keys(IMPORT_CONFLICT_POLICY_LABELS) as ImportConflictPolicy[]).map((policy) => ({
+        label: IMPORT_CONFLICT_POLICY_LABELS[policy],
+        description: IMPORT_CONFLICT_POLICY_DESCRIPTIONS[policy],
+        policy,
+      })),
+      { placeHolder: '导入数据中有与现有代码片段路径相同的项目，请选择处理方式' }
+    )
+    return selected?.policy
+  }
+
+  /**
+   * 生成导入计划（不写入任何数据）
+   */
+  private buildImportPlanV2(
+    importData: ExportDataV2,
+    existingSnippets: CodeSnippetV2[],
+    policy: ImportConflictPolicy
+  ): ImportPlanItem[] {
+    const existingByPath = new Map(existingSnippets.map((snippet) => [snippet.fullPath, snippet]))
+    const usedPaths = new Set(existingSnippets.map((snippet) => snippet.fullPath))
+    const plan: ImportPlanItem[] = []
+
+    for (const incoming of importData.snippets) {
+      const existing = existingByPath.get(incoming.fullPath)
+
+      if (!existing) {
+        if (usedPaths.has(incoming.fullPath)) {
+          // 导入数据自身包含重复路径，只保留第一个
+          plan.push({ status: 'conflict', action: 'skip', incoming, targetPath: incoming.fullPath })
+          continue
+        }
+        usedPaths.add(incoming.fullPath)
+        plan.push({ status: 'new', action: 'add', incoming, targetPath: incoming.fullPath })
+        continue
+      }
+
+      const status = this.compareImportedSnippet(existing, incoming)
+      if (status === 'unchanged') {
+        plan.push({ status, action: 'skip', incoming, existing, targetPath: incoming.fullPath })
+        continue
+      }
+
+      let action: ImportPlanItem['action']
+      switch (policy) {
+        case 'skip':
+          action = 'skip'
+          break
+        case 'overwrite':
+          action = 'overwrite'
+          break
+        case 'keepBoth':
+          action = 'rename'
+          break
+        case 'newer':
+          action = (incoming.createTime || 0) > (existing.createTime || 0) ? 'overwrite' : 'skip'
+          break
+      }
+
+      let targetPath = incoming.fullPath
+      if (action === 'rename') {
+        targetPath = this.generateRenamedPath(incoming.fullPath, usedPaths)
+        usedPaths.add(targetPath)
+      }
+
+      plan.push({ status, action, incoming, existing, targetPath })
+    }
+
+    return plan
+  }
+
+  /**
+   * 比较同路径的现有代码片段与导入代码片段
+   * 代码不同视为冲突，仅其他属性不同视为变更
+   */
+  private compareImportedSnippet(existing: CodeSnippetV2, incoming: CodeSnippetV2): ImportPlanItem['status'] {
+    if (existing.code !== incoming.code) {
+      return 'conflict'
+    }
+    const metadataChanged = IMPORT_COMPARED_FIELDS.some(
+      (field) => JSON.stringify(existing[field] ?? null) !== JSON.stringify(incoming[field] ?? null)
+    )
+    return metadataChanged ? 'changed' : 'unchanged'
+  }
+
+  /**
+   * 用导入的内容覆盖现有代码片段
+   * 导入数据中没有的属性（如前缀、标签、描述）保留现有的值，uuid 和排序保持不变，以免影响同步和修订历史
+   */
+  private mergeImportedSnippet(existing: CodeSnippetV2, incoming: CodeSnippetV2): CodeSnippetV2 {
+    const importedFields = Object.fromEntries(
+      Object.entries(incoming).filter(([key, value]) => value !== undefined && key !== 'uuid' && key !== 'order')
+    ) as Partial<CodeSnippetV2>
+    return { ...existing, ...importedFields, fullPath: existing.fullPath }
+  }
+
+  /**
+   * 为"保留两者"策略生成不冲突的新路径，如 /dir/name_imported、/dir/name_imported_2
+   */
+  private generateRenamedPath(fullPath: string, usedPaths: Set<string>): string {
+    const separatorIndex = fullPath.lastIndexOf('/')
+    const parentPath = fullPath.substring(0, separatorIndex + 1)
+    const name = fullPath.substring(separatorIndex + 1)
+
+    let candidate = `${parentPath}${name}_imported`
+    for (let suffix = 2; usedPaths.has(candidate); suffix++) {
+      candidate = `${parentPath}${name}_imported_${suffix}`
+    }
+    return candidate
+  }
+
+  private async performImportV2(importData: ExportDataV2): Promise<ImportResult | undefined> {
+    const result: ImportResult = { added: 0, updated: 0, renamed: 0, skipped: 0, directoriesCreated: 0 }
 
     try {
       // 获取现有数据
@@ -320,55 +676,61 @@ export class ImportExportManager {
         this.storageManager.getAllSnippets() as Promise<any[]>,
       ])
 
+      // 存在路径冲突时才需要选择处理策略
+      const hasCollision = importData.snippets.some((incoming) =>
+        existingSnippets.some((existing) => existing.fullPath === incoming.fullPath)
+      )
+      let policy: ImportConflictPolicy = 'skip'
+      if (hasCollision) {
+        const selectedPolicy = await this.pickConflictPolicy()
+        if (!selectedPolicy) {
+          return undefined
+        }
+        policy = selectedPolicy
+      }
+
+      // 写入前预览导入计划
+      const plan = this.buildImportPlanV2(importData, existingSnippets, policy)
+      const confirmed = await ImportPreviewWebviewProvider.show(plan, IMPORT_CONFLICT_POLICY_LABELS[policy])
+      if (!confirmed) {
+        return undefined
+      }
+
       // 导入目录
       for (const importDir of importData.directories) {
         // 检查是否已存在相同路径的目录
         const existingDir = existingDirectories.find(d => d.fullPath === importDir.fullPath)
         
         if (!existingDir) {
-          // 创建新目录
-          const newDirectory = {
-            ...importDir,
-            id: uuidv4(), // 为V1兼容性保留ID
-          }
-          
-          await this.storageManager.createDirectory(newDirectory as any)
-          directoriesCreated++
+          await this.storageManager.createDirectory(importDir)
+          result.directoriesCreated++
         }
       }
 
-      // 导入代码片段
-      for (const importSnippet of importData.snippets) {
-        // 检查是否已存在相同路径的代码片段
-        const existingSnippet = existingSnippets.find(s => s.fullPath === importSnippet.fullPath)
-        
-        if (!existingSnippet) {
-          // 创建新代码片段
-          const newSnippet = {
-            ...importSnippet,
-            id: uuidv4(), // 为V1兼容性保留ID
-            createdAt: new Date(),
-            updatedAt: new Date(),
+      // 按计划导入代码片段
+      for (const item of plan) {
+        switch (item.action) {
+          case 'add':
+            await this.storageManager.saveSnippet(item.incoming)
+            result.added++
+            break
+          case 'overwrite':
+            await this.storageManager.updateSnippet(this.mergeImportedSnippet(item.existing!, item.incoming))
+            result.updated++
+            break
+          case 'rename': {
+            const name = item.targetPath.substring(item.targetPath.lastIndexOf('/') + 1)
+            await this.storageManager.saveSnippet({ ...item.incoming, name, fullPath: item.targetPath })
+            result.renamed++
+            break
           }
-          
-          await this.storageManager.saveSnippet(newSnippet as any)
-          added++
-        } else {
-          // 更新现有代码片段
-          const updatedSnippet = {
-            ...existingSnippet,
-            ...importSnippet,
-            id: existingSnippet.id, // 保持原有ID
-            createdAt: existingSnippet.createdAt, // 保持原有创建时间
-            updatedAt: new Date(),
-          }
-          
-          await this.storageManager.updateSnippet(updatedSnippet as any)
-          updated++
+          case 'skip':
+            result.skipped++
+            break
         }
       }
 
-      return { added, updated, directoriesCreated }
+      return result
     } catch (error) {
       console.error('V2导入失败:', error)
       throw error
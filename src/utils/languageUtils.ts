@@ -0,0 +1,119 @@
+/**
+ * 代码片段语言与 VS Code languageId 的对应关系
+ * 仅列出同一语言名称不一致的情况，其余语言直接按名称匹配，不同语言之间不互相匹配
+ */
+const LANGUAGE_ALIASES: Record<string, string[]> = {
+  shell: ['shellscript'],
+}
+
+/**
+ * VS Code languageId 与代码片段语言的对应关系（仅列出名称不一致的情况）
+ */
+const VSCODE_LANGUAGE_IDS: Record<string, string> = {
+  shellscript: 'shell',
+  typescriptreact: 'typescript',
+  javascriptreact: 'javascript',
+}
+
+/**
+ * 代码片段可选择的语言，与代码片段编辑器中的语言列表一致
+ */
+export const SNIPPET_LANGUAGES: { id: string; label: string }[] = [
+  { id: 'plaintext', label: '纯文本' },
+  { id: 'typescript', label: 'TypeScript' },
+  { id: 'javascript', label: 'JavaScript' },
+  { id: 'html', label: 'HTML' },
+  { id: 'css', label: 'CSS' },
+  { id: 'json', label: 'JSON' },
+  { id: 'vue', label: 'Vue' },
+  { id: 'python', label: 'Python' },
+  { id: 'java', label: 'Java' },
+  { id: 'csharp', label: 'C#' },
+  { id: 'cpp', label: 'C++' },
+  { id: 'go', label: 'Go' },
+  { id: 'php', label: 'PHP' },
+  { id: 'ruby', label: 'Ruby' },
+  { id: 'rust', label: 'Rust' },
+  { id: 'sql', label: 'SQL' },
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'yaml', label: 'YAML' },
+  { id: 'shell', label: 'Shell' },
+]
+
+/**
+ * 获取代码片段语言适用的 VS Code languageId 列表
+ */
+export function getVSCodeLanguageIds(language: string | undefined): string[] {
+  const normalized = language || 'plaintext'
+  return [normalized, ...(LANGUAGE_ALIASES[normalized] || [])]
+}
+
+/**
+ * 判断代码片段语言是否适用于指定的 VS Code languageId
+ */
+export function matchesLanguageId(language: string | undefined, languageId: string): boolean {
+  return getVSCodeLanguageIds(language).includes(languageId)
+}
+
+/**
+ * 将 VS Code languageId 转换为代码片段语言
+ */
+export function fromVSCodeLanguageId(languageId: string): string {
+  const normalized = languageId.trim().toLowerCase()
+  return VSCODE_LANGUAGE_IDS[normalized] || normalized
+}
+
+/**
+ * 为同名但语言不同的代码片段生成带语言的名称，如 debounce (python)
+ * 代码片段按路径存储，同一目录下同名的代码片段需要以此区分
+ */
+export function withLanguageSuffix(name: string, language: string | undefined): string {
+  return `${name} (${language || 'plaintext'})`
+}
+
+/**
+ * 各语言的注释语法（未列出的语言不支持注释，如 json）
+ */
+const COMMENT_SYNTAX: Record<string, { start: string; end?: string }> = {
+  javascript: { start: '//' },
+  typescript: { start: '//' },
+  java: { start: '//' },
+  csharp: { start: '//' },
+  cpp: { start: '//' },
+  go: { start: '//' },
+  rust: { start: '//' },
+  php: { start: '//' },
+  kotlin: { start: '//' },
+  swift: { start: '//' },
+  python: { start: '#' },
+  shell: { start: '#' },
+  ruby: { start: '#' },
+  yaml: { start: '#' },
+  sql: { start: '--' },
+  html: { start: '<!--', end: '-->' },
+  vue: { start: '<!--', end: '-->' },
+  markdown: { start: '<!--', end: '-->' },
+  css: { start: '/*', end: '*/' },
+}
+
+/**
+ * 将文本转换为指定语言的注释块，语言不支持注释时返回 undefined
+ */
+export function toCommentBlock(text: string, language: string | undefined): string | undefined {
+  const lines = text.split(/\r?\n/)
+  const normalized = language || 'plaintext'
+
+  if (normalized === 'plaintext') {
+    return lines.join('\n')
+  }
+
+  const syntax = COMMENT_SYNTAX[normalized]
+  if (!syntax) {
+    return undefined
+  }
+
+  if (syntax.end) {
+    return [syntax.start, ...lines.map((line) => `  ${line}`), syntax.end].join('\n')
+  }
+  return lines.map((line) => (line ? `${syntax.start} ${line}` : syntax.start)).join('\n')
+}
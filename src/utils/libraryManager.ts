@@ -0,0 +1,365 @@
+import * as vscode from 'vscode'
+import * as crypto from 'crypto'
+import { SnippetLibrary } from '../types/types'
+import { SettingsManager } from './settingsManager'
+import { StorageContext } from './storageContext'
+import { V2StorageStrategy } from './storageStrategy'
+import { TrashManager } from './trashManager'
+
+/**
+ * 正在编辑的代码片段，切换代码库前需要先保存到原代码库
+ */
+export interface PendingEdits {
+  hasUnsavedEdits(): boolean
+  saveAllEdits(): Promise<boolean>
+}
+
+/**
+ * 代码库管理器
+ * 管理多个相互独立的代码库（如“工作”“个人”），在状态栏显示当前代码库并提供切换入口。
+ * 切换时StorageContext改为读写所选代码库的存储，树视图、搜索、粘贴菜单和自动同步都随之使用新的代码库；
+ * 代码库绑定了同步配置时同时激活该配置
+ */
+export class LibraryManager implements vscode.Disposable {
+  private statusBarItem: vscode.StatusBarItem
+  private currentLibraryId: string
+  private pendingEdits: PendingEdits | null = null
+  private disposables: vscode.Disposable[] = []
+
+  private _onDidSwitchLibrary = new vscode.EventEmitter<SnippetLibrary>()
+  readonly onDidSwitchLibrary: vscode.Event<SnippetLibrary> = this._onDidSwitchLibrary.event
+
+  constructor(private context: vscode.ExtensionContext, private storageContext: StorageContext) {
+    this.currentLibraryId = SettingsManager.getActiveSnippetLibrary().id
+
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99)
+    this.statusBarItem.command = 'starcode-snippets.switchLibrary'
+    this.updateStatusBar()
+
+    this.disposables.push(
+      this.statusBarItem,
+      this._onDidSwitchLibrary,
+      // 从V1迁移到V2后显示状态栏
+      this.storageContext.onDidChangeData(() => this.updateStatusBar()),
+      // 在设置中直接修改代码库列表或当前代码库时同样生效
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+          event.affectsConfiguration('starcode-snippets.libraries') ||
+          event.affectsConfiguration('starcode-snippets.activeLibraryId')
+        ) {
+          this.applyActiveLibrary().then(() => this.updateStatusBar())
+        }
+      })
+    )
+  }
+
+  /**
+   * 设置切换代码库前需要保存的编辑内容
+   */
+  public setPendingEdits(pendingEdits: PendingEdits): void {
+    this.pendingEdits = pendingEdits
+  }
+
+  /**
+   * 选择并切换代码库，列表末尾提供新建、绑定同步配置和删除操作
+   */
+  public async pickLibrary(): Promise<void> {
+    if (!this.checkStorageVersion()) {
+      return
+    }
+
+    const platforms = SettingsManager.getMultiPlatformCloudSyncConfig().platforms
+    const activeLibrary = SettingsManager.getActiveSnippetLibrary()
+    const items: (vscode.QuickPickItem & { libraryId?: string; command?: string })[] = [
+      ...SettingsManager.getSnippetLibraries().map((library) => ({
+        label: `${library.id === activeLibrary.id ? '$(check)' : '$(library)'} ${library.name}`,
+        description: getBindingDescription(library, platforms),
+        libraryId: library.id,
+      })),
+      { label: '', kind: vscode.QuickPickItemKind.Separator },
+      { label: '$(add) 新建代码库...', command: 'starcode-snippets.createLibrary' },
+      { label: '$(link) 绑定同步配置...', command: 'starcode-snippets.bindLibrarySyncConfig' },
+      { label: '$(trash) 删除代码库...', command: 'starcode-snippets.deleteLibrary' },
+    ]
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: `当前代码库: ${activeLibrary.name}`,
+    })
+    if (selected?.command) {
+      await vscode.commands.executeCommand(selected.command)
+    } else if (selected?.libraryId) {
+      await this.switchLibrary(selected.libraryId)
+    }
+  }
+
+  /**
+   * 切换到指定的代码库
+   */
+  public async switchLibrary(libraryId: string): Promise<void> {
+    const library = SettingsManager.getSnippetLibraries().find((l) => l.id === libraryId)
+    if (!library || library.id === this.currentLibraryId || !this.checkStorageVersion()) {
+      return
+    }
+
+    if (SettingsManager.getCloudSyncStatus().isSyncing) {
+      vscode.window.showWarningMessage('正在同步中，请等待同步完成后再切换代码库')
+      return
+    }
+
+    if (this.pendingEdits?.hasUnsavedEdits()) {
+      const action = await vscode.window.showWarningMessage(
+        `切换到代码库 "${library.name}" 前需要保存正在编辑的代码片段`,
+        { modal: true },
+        '保存并切换'
+      )
+      if (action !== '保存并切换' || !(await this.pendingEdits.saveAllEdits())) {
+        return
+      }
+    }
+
+    try {
+      await SettingsManager.setActiveSnippetLibrary(library.id)
+      if (
+        library.platformConfigId &&
+        SettingsManager.getMultiPlatformCloudSyncConfig().platforms.some((p) => p.id === library.platformConfigId)
+      ) {
+        await SettingsManager.activatePlatformConfig(library.platformConfigId)
+      }
+      await this.applyActiveLibrary()
+      this.updateStatusBar()
+      if (this.currentLibraryId === library.id) {
+        vscode.window.showInformationMessage(`已切换到代码库 "${library.name}"`)
+      }
+    } catch (error) {
+      console.error('切换代码库失败:', error)
+      vscode.window.showErrorMessage(`切换代码库失败: ${error}`)
+    }
+  }
+
+  /**
+   * 新建代码库并切换到该代码库
+   */
+  public async createLibrary(): Promise<void> {
+    if (!this.checkStorageVersion()) {
+      return
+    }
+
+    const libraries = SettingsManager.getSnippetLibraries()
+    const name = await vscode.window.showInputBox({
+      prompt: '输入代码库名称',
+      placeHolder: '例如：工作、个人、面试准备',
+      validateInput: (value) => {
+        if (!value.trim()) {
+          return '代码库名称不能为空'
+        }
+        if (libraries.some((l) => l.name === value.trim())) {
+          return `已存在名为 "${value.trim()}" 的代码库`
+        }
+        return null
+      },
+    })
+    if (!name) {
+      return
+    }
+
+    try {
+      const library: SnippetLibrary = { id: crypto.randomUUID(), name: name.trim(), platformConfigId: null }
+      await SettingsManager.saveSnippetLibraries([...libraries, library])
+      await this.switchLibrary(library.id)
+    } catch (error) {
+      console.error('新建代码库失败:', error)
+      vscode.window.showErrorMessage(`新建代码库失败: ${error}`)
+    }
+  }
+
+  /**
+   * 为当前代码库绑定同步配置，一个同步配置只能绑定到一个代码库
+   */
+  public async bindSyncConfig(): Promise<void> {
+    const libraries = SettingsManager.getSnippetLibraries()
+    const library = SettingsManager.getActiveSnippetLibrary()
+    const platforms = SettingsManager.getMultiPlatformCloudSyncConfig().platforms
+    if (platforms.length === 0) {
+      const action = await vscode.window.showWarningMessage('还没有同步配置，请先在设置中添加', '打开设置')
+      if (action === '打开设置') {
+        await vscode.commands.executeCommand('starcode-snippets.openSettings')
+      }
+      return
+    }
+
+    const items: (vscode.QuickPickItem & { platformConfigId: string | null })[] = [
+      ...platforms.map((platform) => {
+        const owner = libraries.find((l) => l.platformConfigId === platform.id && l.id !== library.id)
+        return {
+          label: `${platform.id === library.platformConfigId ? '$(check)' : '$(repo)'} ${platform.name}`,
+          description: owner ? `已绑定到代码库 "${owner.name}"` : platform.repositoryUrl,
+          platformConfigId: platform.id,
+        }
+      }),
+      {
+        label: '$(circle-slash) 不绑定',
+        description: library.id === SettingsManager.DEFAULT_LIBRARY_ID ? '使用当前激活的同步配置' : '不同步该代码库',
+        platformConfigId: null,
+      },
+    ]
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: `为代码库 "${library.name}" 选择同步配置`,
+    })
+    if (!selected) {
+      return
+    }
+
+    const owner = libraries.find((l) => l.platformConfigId === selected.platformConfigId && l.id !== library.id)
+    if (selected.platformConfigId && owner) {
+      vscode.window.showWarningMessage(`该同步配置已绑定到代码库 "${owner.name}"，请先解除绑定`)
+      return
+    }
+
+    // 使用同一本地仓库的同步配置会共用工作目录和Git历史，不能分别用于不同的代码库
+    const shared = selected.platformConfigId && SettingsManager.findLocalPathConflict(selected.platformConfigId)
+    if (shared) {
+      vscode.window.showWarningMessage(
+        `该同步配置与同步配置 "${shared.name}" 使用同一个本地仓库路径，请先在设置中为其指定不同的本地路径`
+      )
+      return
+    }
+
+    try {
+      await SettingsManager.saveSnippetLibraries(
+        libraries.map((l) => (l.id === library.id ? { ...l, platformConfigId: selected.platformConfigId } : l))
+      )
+      if (selected.platformConfigId) {
+        await SettingsManager.activatePlatformConfig(selected.platformConfigId)
+      }
+      this.updateStatusBar()
+      const platform = platforms.find((p) => p.id === selected.platformConfigId)
+      vscode.window.showInformationMessage(
+        platform
+          ? `代码库 "${library.name}" 已绑定同步配置 "${platform.name}"`
+          : `代码库 "${library.name}" 已解除同步配置绑定`
+      )
+    } catch (error) {
+      console.error('绑定同步配置失败:', error)
+      vscode.window.showErrorMessage(`绑定同步配置失败: ${error}`)
+    }
+  }
+
+  /**
+   * 删除代码库及其中的所有代码片段，默认代码库不能删除
+   */
+  public async deleteLibrary(): Promise<void> {
+    if (!this.checkStorageVersion()) {
+      return
+    }
+
+    const libraries = SettingsManager.getSnippetLibraries()
+    const candidates = libraries.filter((l) => l.id !== SettingsManager.DEFAULT_LIBRARY_ID)
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage('没有可以删除的代码库，默认代码库不能删除')
+      return
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      candidates.map((library) => ({
+        label: library.name,
+        description: library.id === this.currentLibraryId ? '当前代码库' : undefined,
+        library,
+      })),
+      { placeHolder: '选择要删除的代码库' }
+    )
+    if (!selected) {
+      return
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `确定要删除代码库 "${selected.library.name}" 吗？其中的所有代码片段都将被删除，此操作无法撤销。`,
+      { modal: true },
+      '删除'
+    )
+    if (confirm !== '删除') {
+      return
+    }
+
+    try {
+      if (selected.library.id === this.currentLibraryId) {
+        await this.switchLibrary(SettingsManager.DEFAULT_LIBRARY_ID)
+        if (this.currentLibraryId === selected.library.id) {
+          return
+        }
+      }
+      await new V2StorageStrategy(this.context, selected.library.id).deleteAll()
+      await TrashManager.deleteLibraryTrash(this.context, selected.library.id)
+      await SettingsManager.saveSnippetLibraries(libraries.filter((l) => l.id !== selected.library.id))
+      vscode.window.showInformationMessage(`已删除代码库 "${selected.library.name}"`)
+    } catch (error) {
+      console.error('删除代码库失败:', error)
+      vscode.window.showErrorMessage(`删除代码库失败: ${error}`)
+    }
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((d) => d.dispose())
+    this.disposables = []
+  }
+
+  /**
+   * 存储切换到当前激活的代码库（已是当前代码库时不做任何操作）
+   * 切换前先把正在编辑的内容保存到原代码库，保存失败时恢复原来的当前代码库
+   */
+  private async applyActiveLibrary(): Promise<void> {
+    const library = SettingsManager.getActiveSnippetLibrary()
+    if (library.id === this.currentLibraryId || this.storageContext.getCurrentStorageVersion() !== 'v2') {
+      return
+    }
+
+    if (this.pendingEdits && !(await this.pendingEdits.saveAllEdits())) {
+      vscode.window.showWarningMessage('正在编辑的代码片段未能保存，已取消切换代码库')
+      await SettingsManager.setActiveSnippetLibrary(this.currentLibraryId)
+      return
+    }
+    // 保存期间可能已由其他调用完成切换
+    if (library.id === this.currentLibraryId) {
+      return
+    }
+
+    this.currentLibraryId = library.id
+    this.storageContext.switchLibrary(library.id)
+    this._onDidSwitchLibrary.fire(library)
+  }
+
+  /**
+   * 多代码库只支持V2格式
+   */
+  private checkStorageVersion(): boolean {
+    if (this.storageContext.getCurrentStorageVersion() !== 'v2') {
+      vscode.window.showWarningMessage('多代码库仅支持 V2 存储格式，请先迁移数据')
+      return false
+    }
+    return true
+  }
+
+  private updateStatusBar(): void {
+    if (this.storageContext.getCurrentStorageVersion() !== 'v2') {
+      this.statusBarItem.hide()
+      return
+    }
+
+    const library = SettingsManager.getActiveSnippetLibrary()
+    const platforms = SettingsManager.getMultiPlatformCloudSyncConfig().platforms
+    this.statusBarItem.text = `$(library) ${library.name}`
+    this.statusBarItem.tooltip = `StarCode 代码库: ${library.name}\n同步: ${getBindingDescription(library, platforms)}\n点击切换代码库`
+    this.statusBarItem.show()
+  }
+}
+
+/**
+ * 获取代码库绑定的同步配置的说明
+ */
+function getBindingDescription(library: SnippetLibrary, platforms: { id: string; name: string }[]): string {
+  if (!library.platformConfigId) {
+    return library.id === SettingsManager.DEFAULT_LIBRARY_ID ? '使用当前激活的同步配置' : '未绑定同步配置'
+  }
+  const platform = platforms.find((p) => p.id === library.platformConfigId)
+  return platform ? `同步到 ${platform.name}` : '绑定的同步配置已删除'
+}
@@ -30,6 +30,11 @@ export class PathBasedManager {
       order: snippetV1.order,
       createTime: snippetV1.createTime,
       language: snippetV1.language,
+      insertAsPlainText: snippetV1.insertAsPlainText,
+      prefix: snippetV1.prefix,
+      description: snippetV1.description,
+      tags: snippetV1.tags,
+      uuid: snippetV1.uuid,
     }
   }
 
@@ -50,6 +55,11 @@ export class PathBasedManager {
       order: snippetV2.order,
       createTime: snippetV2.createTime,
       language: snippetV2.language,
+      insertAsPlainText: snippetV2.insertAsPlainText,
+      prefix: snippetV2.prefix,
+      description: snippetV2.description,
+      tags: snippetV2.tags,
+      uuid: snippetV2.uuid,
     }
   }
 
@@ -63,6 +73,7 @@ export class PathBasedManager {
       name: directoryV1.name,
       fullPath: fullPath,
       order: directoryV1.order,
+      uuid: directoryV1.uuid,
     }
   }
 
@@ -77,6 +88,7 @@ export class PathBasedManager {
       name: directoryV2.name,
       parentId: parentId,
       order: directoryV2.order,
+      uuid: directoryV2.uuid,
     }
   }
 
@@ -0,0 +1,290 @@
+import * as vscode from 'vscode'
+import { CodeSnippet, Directory } from '../types/types'
+import { StorageContext } from './storageContext'
+import { findMovedItemIndex, withUniqueUuid } from './snippetIdentityUtils'
+
+// 项目代码库在工作区中的存储目录
+const PROJECT_LIBRARY_FOLDER = '.starcode'
+
+/**
+ * 项目代码库在代码片段树中的根路径，项目代码库中代码片段和目录的 fullPath 都以它开头
+ * 目录名称不能以 . 开头，因此不会与全局代码库中的路径冲突
+ */
+export const PROJECT_LIBRARY_ROOT = `/${PROJECT_LIBRARY_FOLDER}/`
+
+/**
+ * 判断路径是否属于项目代码库
+ */
+export function isProjectLibraryPath(fullPath: string | undefined): boolean {
+  return !!fullPath && fullPath.startsWith(PROJECT_LIBRARY_ROOT)
+}
+
+/**
+ * 项目代码库（仅支持V2格式）
+ * 代码片段和目录保存在第一个工作区文件夹的 .starcode/snippets.json 和 .starcode/directories.json 中，
+ * 随项目一起提交，不参与云端同步。文件中的路径与全局代码库的V2格式相同，
+ * 读取时加上 PROJECT_LIBRARY_ROOT 前缀，作为代码片段树中的一个独立根目录显示
+ */
+export class ProjectLibrary implements vscode.Disposable {
+  private snippetsCache: CodeSnippet[] | null = null
+  private directoriesCache: Directory[] | null = null
+  private disposables: vscode.Disposable[] = []
+
+  // 写入或工作区中的文件被修改（如拉取代码）后触发
+  private _onDidChangeData = new vscode.EventEmitter<void>()
+  readonly onDidChangeData: vscode.Event<void> = this._onDidChangeData.event
+
+  constructor(private storageContext: StorageContext) {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${PROJECT_LIBRARY_FOLDER}/*.json`)
+    const onExternalChange = () => {
+      this.clearCache()
+      this._onDidChangeData.fire()
+    }
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(onExternalChange),
+      watcher.onDidChange(onExternalChange),
+      watcher.onDidDelete(onExternalChange),
+      vscode.workspace.onDidChangeWorkspaceFolders(onExternalChange),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('starcode-snippets.enableProjectLibrary')) {
+          onExternalChange()
+        }
+      }),
+      this._onDidChangeData
+    )
+  }
+
+  /**
+   * 是否可以使用项目代码库：已打开工作区文件夹、已启用且全局代码库为V2格式
+   */
+  public isAvailable(): boolean {
+    return (
+      !!this.getFolder() &&
+      vscode.workspace.getConfiguration('starcode-snippets').get<boolean>('enableProjectLibrary', true) &&
+      this.storageContext.getCurrentStorageVersion() === 'v2'
+    )
+  }
+
+  /**
+   * 项目代码库根目录在树中显示的名称
+   */
+  public getLabel(): string {
+    return `项目代码库 (${this.getFolder()?.name || ''})`
+  }
+
+  /**
+   * 获取项目代码库中的所有代码片段，路径带有 PROJECT_LIBRARY_ROOT 前缀
+   */
+  public async getAllSnippets(): Promise<CodeSnippet[]> {
+    if (!this.isAvailable()) {
+      return []
+    }
+    try {
+      return (await this.loadSnippets()).map((snippet) => ({ ...snippet, fullPath: toLibraryPath(snippet.fullPath) }))
+    } catch (error) {
+      console.error('读取项目代码库失败:', error)
+      return []
+    }
+  }
+
+  /**
+   * 获取项目代码库中的所有目录，路径带有 PROJECT_LIBRARY_ROOT 前缀
+   * 第一个条目为项目代码库的根目录，不保存在文件中
+   */
+  public async getAllDirectories(): Promise<Directory[]> {
+    if (!this.isAvailable()) {
+      return []
+    }
+
+    const root: Directory = { name: this.getLabel(), fullPath: PROJECT_LIBRARY_ROOT, order: Number.MAX_SAFE_INTEGER }
+    try {
+      const directories = await this.loadDirectories()
+      return [root, ...directories.map((directory) => ({ ...directory, fullPath: toLibraryPath(directory.fullPath) }))]
+    } catch (error) {
+      console.error('读取项目代码库失败:', error)
+      return [root]
+    }
+  }
+
+  public async getSnippetByPath(fullPath: string): Promise<CodeSnippet | null> {
+    const snippets = await this.getAllSnippets()
+    return snippets.find((snippet) => snippet.fullPath === fullPath) || null
+  }
+
+  public async saveSnippet(snippet: CodeSnippet): Promise<void> {
+    const snippets = await this.loadSnippets()
+    snippets.push(withUniqueUuid(toStoredItem(snippet), snippets))
+    await this.saveSnippets(snippets)
+  }
+
+  public async updateSnippet(snippet: CodeSnippet): Promise<void> {
+    const snippets = await this.loadSnippets()
+    const stored = toStoredItem(snippet)
+    const index = snippets.findIndex((s) => s.fullPath === stored.fullPath)
+    if (index === -1) {
+      throw new Error(`未找到要更新的代码片段: ${snippet.fullPath}`)
+    }
+
+    snippets[index] = stored.uuid ? stored : { ...stored, uuid: snippets[index].uuid }
+    await this.saveSnippets(snippets)
+  }
+
+  /**
+   * 在项目代码库内重命名或移动代码片段，一次写入完成，uuid 保持不变
+   */
+  public async moveSnippet(oldFullPath: string, snippet: CodeSnippet): Promise<void> {
+    const snippets = await this.loadSnippets()
+    const stored = toStoredItem(snippet)
+    const index = findMovedItemIndex(snippets, toStoredPath(oldFullPath), snippet.uuid)
+    if (index === -1) {
+      throw new Error(`未找到要移动的代码片段: ${oldFullPath}`)
+    }
+    if (snippets.some((s, i) => i !== index && s.fullPath === stored.fullPath)) {
+      throw new Error(`目标路径已存在代码片段: ${snippet.fullPath}`)
+    }
+
+    snippets[index] = { ...stored, uuid: snippets[index].uuid }
+    await this.saveSnippets(snippets)
+  }
+
+  public async deleteSnippet(fullPath: string): Promise<void> {
+    const snippets = await this.loadSnippets()
+    const storedPath = toStoredPath(fullPath)
+    const remaining = snippets.filter((snippet) => snippet.fullPath !== storedPath)
+    if (remaining.length === snippets.length) {
+      console.warn(`未找到要删除的代码片段: ${fullPath}`)
+      return
+    }
+    await this.saveSnippets(remaining)
+  }
+
+  public async createDirectory(directory: Directory): Promise<void> {
+    const directories = await this.loadDirectories()
+    const stored = toStoredItem(directory)
+    if (directories.some((d) => d.fullPath === stored.fullPath)) {
+      throw new Error(`目录已存在: ${directory.fullPath}`)
+    }
+
+    directories.push(withUniqueUuid(stored, directories))
+    await this.saveDirectories(directories)
+  }
+
+  public async updateDirectory(directory: Directory): Promise<void> {
+    const directories = await this.loadDirectories()
+    const stored = toStoredItem(directory)
+    const index = directories.findIndex((d) => d.fullPath === stored.fullPath)
+    if (index === -1) {
+      throw new Error(`未找到要更新的目录: ${directory.fullPath}`)
+    }
+
+    directories[index] = stored.uuid ? stored : { ...stored, uuid: directories[index].uuid }
+    await this.saveDirectories(directories)
+  }
+
+  /**
+   * 删除目录及其下的所有子目录和代码片段
+   */
+  public async deleteDirectory(fullPath: string): Promise<void> {
+    const storedPath = toStoredPath(fullPath)
+    const directories = await this.loadDirectories()
+    const snippets = await this.loadSnippets()
+
+    await this.saveDirectories(directories.filter((directory) => !directory.fullPath.startsWith(storedPath)))
+    await this.saveSnippets(snippets.filter((snippet) => !snippet.fullPath.startsWith(storedPath)))
+  }
+
+  public clearCache(): void {
+    this.snippetsCache = null
+    this.directoriesCache = null
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((d) => d.dispose())
+    this.disposables = []
+  }
+
+  private getFolder(): vscode.WorkspaceFolder | undefined {
+    return vscode.workspace.workspaceFolders?.[0]
+  }
+
+  private getFileUri(fileName: string): vscode.Uri {
+    const folder = this.getFolder()
+    if (!folder) {
+      throw new Error('未打开工作区文件夹，无法使用项目代码库')
+    }
+    return vscode.Uri.joinPath(folder.uri, PROJECT_LIBRARY_FOLDER, fileName)
+  }
+
+  private async loadSnippets(): Promise<CodeSnippet[]> {
+    if (!this.snippetsCache) {
+      this.snippetsCache = await this.readFile<CodeSnippet>('snippets.json')
+    }
+    return [...this.snippetsCache]
+  }
+
+  private async loadDirectories(): Promise<Directory[]> {
+    if (!this.directoriesCache) {
+      this.directoriesCache = await this.readFile<Directory>('directories.json')
+    }
+    return [...this.directoriesCache]
+  }
+
+  private async saveSnippets(snippets: CodeSnippet[]): Promise<void> {
+    await this.writeFile('snippets.json', snippets)
+    this.snippetsCache = snippets
+    this._onDidChangeData.fire()
+  }
+
+  private async saveDirectories(directories: Directory[]): Promise<void> {
+    await this.writeFile('directories.json', directories)
+    this.directoriesCache = directories
+    this._onDidChangeData.fire()
+  }
+
+  /**
+   * 读取项目代码库文件，文件不存在时返回空列表
+   * 文件内容无效（如合并冲突未解决）时抛出错误，避免之后的写入覆盖文件中的数据
+   */
+  private async readFile<T>(fileName: string): Promise<T[]> {
+    const uri = this.getFileUri(fileName)
+    let content: string
+    try {
+      content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')
+    } catch (error) {
+      if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+        return []
+      }
+      throw error
+    }
+
+    const data = JSON.parse(content)
+    if (!Array.isArray(data)) {
+      throw new Error(`${PROJECT_LIBRARY_FOLDER}/${fileName} 格式无效`)
+    }
+    return data
+  }
+
+  private async writeFile(fileName: string, data: unknown[]): Promise<void> {
+    const uri = this.getFileUri(fileName)
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'))
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(`${JSON.stringify(data, null, 2)}\n`, 'utf8'))
+  }
+}
+
+function toLibraryPath(storedPath: string): string {
+  return `${PROJECT_LIBRARY_ROOT}${storedPath.replace(/^\/+/, '')}`
+}
+
+function toStoredPath(fullPath: string): string {
+  return isProjectLibraryPath(fullPath) ? `/${fullPath.substring(PROJECT_LIBRARY_ROOT.length)}` : fullPath
+}
+
+/**
+ * 转换为文件中保存的条目：去掉路径前缀，以及树节点运行时添加的 id
+ */
+function toStoredItem<T extends { fullPath: string }>(item: T): T {
+  const stored: T & { id?: string } = { ...item, fullPath: toStoredPath(item.fullPath) }
+  delete stored.id
+  return stored
+}
@@ -0,0 +1,128 @@
+import * as vscode from 'vscode'
+import { v4 as uuidv4 } from 'uuid'
+import { CodeSnippet } from '../types/types'
+import { getItemIdentity } from './snippetIdentityUtils'
+import { getVSCodeLanguageIds } from './languageUtils'
+
+const REVISIONS_KEY = 'revisions.v2'
+const MAX_REVISIONS_PER_SNIPPET = 50
+const REVISION_SCHEME = 'starcode-revision'
+const MAX_CACHED_DOCUMENTS = 50
+
+/**
+ * 代码片段的一个本地修订版本
+ */
+export interface SnippetRevision {
+  id: string
+  timestamp: number
+  name: string
+  code: string
+  language: string
+}
+
+/**
+ * 代码片段本地修订历史管理器
+ * 每次在编辑器中保存代码片段时记录一个修订版本（仅保存在本机，不参与同步），
+ * 并通过只读虚拟文档为内置差异编辑器提供修订版本的内容
+ */
+export class RevisionHistoryManager implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private contents = new Map<string, string>()
+  private registration: vscode.Disposable
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.registration = vscode.workspace.registerTextDocumentContentProvider(REVISION_SCHEME, this)
+  }
+
+  /**
+   * 获取代码片段的修订版本，最新的在前
+   */
+  public getRevisions(snippet: CodeSnippet): SnippetRevision[] {
+    const revisions = this.getAllRevisions()[getItemIdentity(snippet)] || []
+    return [...revisions].sort((a, b) => b.timestamp - a.timestamp)
+  }
+
+  /**
+   * 记录代码片段保存后的版本
+   * 第一次记录时如果提供了保存前的版本，会先记录保存前的版本，以便撤销第一次保存
+   * 与最近一个修订版本完全相同时不重复记录
+   */
+  public async recordRevision(snippet: CodeSnippet, previous?: CodeSnippet): Promise<void> {
+    const allRevisions = this.getAllRevisions()
+    const key = getItemIdentity(snippet)
+    const revisions = [...(allRevisions[key] || [])]
+
+    if (revisions.length === 0 && previous && !isSameContent(previous, snippet)) {
+      revisions.push(createRevision(previous, Date.now() - 1))
+    }
+
+    const latest = revisions[revisions.length - 1]
+    if (latest && isSameContent(latest, snippet)) {
+      return
+    }
+    revisions.push(createRevision(snippet, Date.now()))
+
+    allRevisions[key] = revisions.slice(-MAX_REVISIONS_PER_SNIPPET)
+    await this.context.globalState.update(REVISIONS_KEY, allRevisions)
+  }
+
+  /**
+   * 在内置差异编辑器中比较两个版本
+   */
+  public async showDiff(
+    left: { title: string; code: string; language: string },
+    right: { title: string; code: string; language: string },
+    title: string
+  ): Promise<void> {
+    const leftUri = await this.openVirtualDocument(left.title, left.code, left.language)
+    const rightUri = await this.openVirtualDocument(right.title, right.code, right.language)
+    await vscode.commands.executeCommand('vscode.diff', leftUri, rightUri, title)
+  }
+
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) || ''
+  }
+
+  public dispose(): void {
+    this.registration.dispose()
+    this.contents.clear()
+  }
+
+  private async openVirtualDocument(title: string, code: string, language: string): Promise<vscode.Uri> {
+    const uri = vscode.Uri.from({ scheme: REVISION_SCHEME, path: `/${title}`, query: uuidv4() })
+    this.contents.set(uri.toString(), code)
+
+    // 只保留最近打开的虚拟文档内容（设置文档语言时文档会被重新打开，因此不在关闭时释放）
+    if (this.contents.size > MAX_CACHED_DOCUMENTS) {
+      this.contents.delete(this.contents.keys().next().value as string)
+    }
+
+    const document = await vscode.workspace.openTextDocument(uri)
+    const languageId = getVSCodeLanguageIds(language)[0]
+    if (languageId !== 'plaintext') {
+      try {
+        await vscode.languages.setTextDocumentLanguage(document, languageId)
+      } catch {
+        // 语言不受支持时按纯文本显示
+      }
+    }
+    return uri
+  }
+
+  private getAllRevisions(): Record<string, SnippetRevision[]> {
+    return { ...this.context.globalState.get<Record<string, SnippetRevision[]>>(REVISIONS_KEY, {}) }
+  }
+}
+
+function createRevision(snippet: CodeSnippet, timestamp: number): SnippetRevision {
+  return {
+    id: uuidv4(),
+    timestamp,
+    name: snippet.name,
+    code: snippet.code,
+    language: snippet.language || 'plaintext',
+  }
+}
+
+function isSameContent(a: { name: string; code: string; language?: string }, b: CodeSnippet): boolean {
+  return a.name === b.name && a.code === b.code && (a.language || 'plaintext') === (b.language || 'plaintext')
+}
@@ -1,27 +1,59 @@
 import * as vscode from 'vscode'
 import { CodeSnippet, Directory } from '../types/types'
 import { ContextManager } from './contextManager'
+import { collectTags, hasAllTags } from './tagUtils'
+import { matchesSearchFilters, parseSearchQuery, ParsedSearchQuery, SearchScope } from './searchQuery'
+import { SnippetSearchIndex } from './snippetSearchIndex'
 
 export enum SearchMode {
   NAME = 'name',
   CONTENT = 'content',
+  FUZZY = 'fuzzy',
+  REGEX = 'regex',
+}
+
+const SEARCH_MODE_LABELS: Record<SearchMode, string> = {
+  [SearchMode.NAME]: '名称',
+  [SearchMode.CONTENT]: '内容',
+  [SearchMode.FUZZY]: '模糊',
+  [SearchMode.REGEX]: '正则',
+}
+
+// 各字段匹配得分的权重，名称匹配排在路径和内容匹配之前
+const FIELD_WEIGHTS: Record<SearchScope, number> = { name: 3, path: 2, content: 1 }
+
+// 查询中没有 in: 时各搜索模式的匹配范围
+const DEFAULT_SCOPES: Record<SearchMode, SearchScope[]> = {
+  [SearchMode.NAME]: ['name'],
+  [SearchMode.CONTENT]: ['content'],
+  [SearchMode.FUZZY]: ['name', 'path', 'content'],
+  [SearchMode.REGEX]: ['name', 'path', 'content'],
 }
 
 export interface SearchResult {
   snippet: CodeSnippet
-  matchType: 'name' | 'content'
+  matchType: SearchScope
   matchText: string
-  highlightRanges: Array<{ start: number; end: number }>
+  highlightRanges: Array<{ start: number; end: number }> // 在匹配字段（名称、路径或代码）中的位置
+  score: number // 越大越相关
 }
 
 export class SearchManager {
   private _searchQuery: string = ''
   private _searchMode: SearchMode = SearchMode.NAME
   private _isActive: boolean = false
+  private _tagFilter: string[] = []
+  private _regexCache: { source: string; regex: RegExp | null } | undefined
+  private _parsedQueryCache: { key: string; parsed: ParsedSearchQuery } | undefined
   private _onDidChangeSearch = new vscode.EventEmitter<void>()
 
   public readonly onDidChangeSearch = this._onDidChangeSearch.event
 
+  /**
+   * @param _index 代码内容的词索引，用于跳过代码中一定不包含查询的代码片段；不传时逐个扫描代码
+   */
+  constructor(private _index?: SnippetSearchIndex) {}
+
   get searchQuery(): string {
     return this._searchQuery
   }
@@ -34,14 +66,26 @@ export class SearchManager {
     return this._isActive
   }
 
+  get tagFilter(): string[] {
+    return this._tagFilter
+  }
+
+  get hasTagFilter(): boolean {
+    return this._tagFilter.length > 0
+  }
+
   /**
    * 开始搜索
    */
   async startSearch(): Promise<void> {
+    const isRegexMode = this._searchMode === SearchMode.REGEX
     const searchQuery = await vscode.window.showInputBox({
-      prompt: `搜索代码片段 (当前模式: ${this._searchMode === SearchMode.NAME ? '名称搜索' : '内容搜索'})`,
-      placeHolder: '输入搜索关键字...',
+      prompt: `搜索代码片段 (当前模式: ${SEARCH_MODE_LABELS[this._searchMode]}搜索)`,
+      placeHolder: isRegexMode
+        ? '输入正则表达式（不区分大小写），可加 lang: path: tag: in:name|path|code 限定'
+        : '输入关键字，可加 lang: path: tag: in:name|path|code 限定，- 排除',
       value: this._searchQuery,
+      validateInput: (value) => this.validateQuery(value.trim()),
     })
 
     if (searchQuery !== undefined) {
@@ -55,7 +99,7 @@ export class SearchManager {
 
       if (this._isActive) {
         vscode.window.showInformationMessage(
-          `搜索模式: ${this._searchMode === SearchMode.NAME ? '名称' : '内容'} | 关键字: "${this._searchQuery}"`
+          `搜索模式: ${SEARCH_MODE_LABELS[this._searchMode]} | 关键字: "${this._searchQuery}"`
         )
       }
     }
@@ -75,6 +119,53 @@ export class SearchManager {
     vscode.window.showInformationMessage('已清除搜索')
   }
 
+  /**
+   * 选择标签过滤条件，只显示包含全部所选标签的代码片段
+   */
+  async startTagFilter(snippets: CodeSnippet[]): Promise<void> {
+    const allTags = collectTags(snippets)
+    if (allTags.length === 0) {
+      vscode.window.showInformationMessage('还没有代码片段设置标签，可在代码片段右键菜单中选择"编辑标签"')
+      return
+    }
+
+    const selectedTags = new Set(this._tagFilter.map((tag) => tag.toLowerCase()))
+    const items = allTags.map(({ tag, count }) => ({
+      label: tag,
+      description: `${count} 个代码片段`,
+      picked: selectedTags.has(tag.toLowerCase()),
+    }))
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: '选择要过滤的标签（可多选，不选择任何标签则清除过滤）',
+      canPickMany: true,
+    })
+
+    if (selected !== undefined) {
+      this.setTagFilter(selected.map((item) => item.label))
+    }
+  }
+
+  /**
+   * 设置标签过滤条件
+   */
+  setTagFilter(tags: string[]): void {
+    this._tagFilter = tags
+
+    // 更新上下文
+    ContextManager.setActiveTagFilter(this.hasTagFilter)
+
+    this._onDidChangeSearch.fire()
+  }
+
+  /**
+   * 清除标签过滤
+   */
+  clearTagFilter(): void {
+    this.setTagFilter([])
+    vscode.window.showInformationMessage('已清除标签过滤')
+  }
+
   /**
    * 切换搜索模式
    */
@@ -83,6 +174,8 @@ export class SearchManager {
     const allModes = [
       { label: '名称搜索', value: SearchMode.NAME, description: '在代码片段名称中搜索' },
       { label: '内容搜索', value: SearchMode.CONTENT, description: '在代码片段内容中搜索' },
+      { label: '模糊搜索', value: SearchMode.FUZZY, description: '按相关度在名称、路径和内容中模糊匹配' },
+      { label: '正则搜索', value: SearchMode.REGEX, description: '使用正则表达式在名称、路径和内容中搜索' },
     ]
 
     // 将当前模式移到最前面
@@ -114,51 +207,252 @@ export class SearchManager {
   }
 
   /**
-   * 搜索代码片段
+   * 搜索代码片段，结果按相关度从高到低排序
+   * 查询中可以使用 lang:、path:、tag:、in: 限定条件和 - 取反，与当前搜索模式一起生效
    */
   searchSnippets(snippets: CodeSnippet[]): SearchResult[] {
     if (!this._isActive || !this._searchQuery) {
       return []
     }
 
-    const results: SearchResult[] = []
-    const query = this._searchQuery.toLowerCase()
+    return this.findSnippets(snippets, this._searchQuery, this._searchMode)
+  }
 
+  /**
+   * 按指定查询和搜索模式搜索代码片段，不改变树视图中的搜索状态，结果按相关度从高到低排序
+   */
+  findSnippets(snippets: CodeSnippet[], query: string, mode: SearchMode): SearchResult[] {
+    const results: SearchResult[] = []
     for (const snippet of snippets) {
-      if (this._searchMode === SearchMode.NAME) {
-        // 名称搜索
-        const nameMatch = this.findMatches(snippet.name.toLowerCase(), query)
-        if (nameMatch.length > 0) {
-          results.push({
-            snippet,
-            matchType: 'name',
-            matchText: snippet.name,
-            highlightRanges: nameMatch,
-          })
+      const result = this.matchSnippet(snippet, query, mode)
+      if (result) {
+        results.push(result)
+      }
+    }
+
+    // 排序稳定，得分相同的代码片段保持原有顺序
+    return results.sort((a, b) => b.score - a.score)
+  }
+
+  /**
+   * 按查询和搜索模式匹配单个代码片段，不匹配时返回 null
+   */
+  private matchSnippet(snippet: CodeSnippet, query: string, mode: SearchMode): SearchResult | null {
+    const parsed = this.getParsedQuery(query, mode)
+    if (parsed.errors.length > 0 || !matchesSearchFilters(snippet, parsed.filters)) {
+      return null
+    }
+
+    const scopes = parsed.scopes.length > 0 ? parsed.scopes : DEFAULT_SCOPES[mode]
+    const fields = scopes.map((scope) => ({ field: scope, text: getFieldText(snippet, scope) }))
+
+    const excluded = parsed.excludedTerms.some((term) =>
+      fields.some(({ field, text }) => this.mayContain(snippet, field, term) && text.toLowerCase().includes(term))
+    )
+    if (excluded) {
+      return null
+    }
+
+    // 只有过滤条件时，满足条件的代码片段全部作为结果
+    if (!parsed.text) {
+      return { snippet, matchType: 'name', matchText: snippet.name, highlightRanges: [], score: 0 }
+    }
+
+    if (mode === SearchMode.REGEX) {
+      const regex = this.getRegex(parsed.text)
+      return regex ? this.matchFields(snippet, fields, (text) => this.matchRegex(text, regex)) : null
+    }
+
+    // 词索引中代码一定不包含查询时跳过代码，不再逐字扫描（正则无法用词索引缩小范围）
+    const text = parsed.text.toLowerCase()
+    const indexedFields = fields.filter(({ field }) => this.mayContain(snippet, field, text))
+    switch (mode) {
+      case SearchMode.NAME:
+      case SearchMode.CONTENT:
+        return this.matchFields(snippet, indexedFields, (fieldText) => {
+          const matches = this.findMatches(fieldText.toLowerCase(), text)
+          return matches.length > 0 ? { score: matches.length, ranges: matches } : null
+        })
+      case SearchMode.FUZZY:
+        return this.matchFields(snippet, indexedFields, (fieldText, field) =>
+          field === 'content' ? this.matchContentTerms(fieldText, text) : this.fuzzyMatch(fieldText, text)
+        )
+    }
+  }
+
+  /**
+   * 字段是否可能包含查询文本：只对代码使用词索引判断，名称和路径较短，直接匹配
+   */
+  private mayContain(snippet: CodeSnippet, field: SearchScope, text: string): boolean {
+    return field !== 'content' || !this._index || this._index.mayContain(snippet, text)
+  }
+
+  /**
+   * 在指定字段中匹配，返回加权得分最高的字段
+   */
+  private matchFields(
+    snippet: CodeSnippet,
+    fields: Array<{ field: SearchScope; text: string }>,
+    match: (text: string, field: SearchScope) => { score: number; ranges: Array<{ start: number; end: number }> } | null
+  ): SearchResult | null {
+    let best: SearchResult | null = null
+    for (const { field, text } of fields) {
+      const matched = match(text, field)
+      if (!matched) {
+        continue
+      }
+
+      const score = matched.score * FIELD_WEIGHTS[field]
+      if (!best || score > best.score) {
+        best = {
+          snippet,
+          matchType: field,
+          matchText: field === 'content' ? this.getMatchContext(text, matched.ranges[0], '') : text,
+          highlightRanges: matched.ranges,
+          score,
         }
+      }
+    }
+    return best
+  }
+
+  /**
+   * 解析查询，查询和搜索模式与上次相同时复用上次的结果
+   */
+  private getParsedQuery(query: string, mode: SearchMode): ParsedSearchQuery {
+    const key = `${mode}|${query}`
+    if (this._parsedQueryCache?.key !== key) {
+      this._parsedQueryCache = {
+        key,
+        parsed: parseSearchQuery(query, mode === SearchMode.REGEX),
+      }
+    }
+    return this._parsedQueryCache.parsed
+  }
+
+  /**
+   * 模糊匹配：查询中的字符按顺序出现在文本中即为匹配
+   * 连续匹配、单词开头和文本开头的匹配得分更高，返回的位置已合并相邻字符
+   */
+  private fuzzyMatch(text: string, query: string): { score: number; ranges: Array<{ start: number; end: number }> } | null {
+    const lowerText = text.toLowerCase()
+    const pattern = query.replace(/\s+/g, '')
+    if (!pattern) {
+      return null
+    }
+
+    // 完整包含查询时直接按子串匹配，得分最高
+    const substringIndex = lowerText.indexOf(pattern)
+    if (substringIndex !== -1) {
+      const startBonus = substringIndex === 0 ? 2 : isWordStart(text, substringIndex) ? 1 : 0
+      return {
+        score: pattern.length * 4 + startBonus * pattern.length,
+        ranges: [{ start: substringIndex, end: substringIndex + pattern.length }],
+      }
+    }
+
+    const ranges: Array<{ start: number; end: number }> = []
+    let score = 0
+    let textIndex = 0
+    for (const char of pattern) {
+      const index = lowerText.indexOf(char, textIndex)
+      if (index === -1) {
+        return null
+      }
+
+      const last = ranges[ranges.length - 1]
+      if (last && last.end === index) {
+        last.end++
+        score += 3
       } else {
-        // 内容搜索
-        const contentMatch = this.findMatches(snippet.code.toLowerCase(), query)
-        if (contentMatch.length > 0) {
-          // 获取匹配的上下文
-          const contextMatch = this.getMatchContext(snippet.code, contentMatch[0], query)
-          results.push({
-            snippet,
-            matchType: 'content',
-            matchText: contextMatch,
-            highlightRanges: contentMatch,
-          })
-        }
+        ranges.push({ start: index, end: index + 1 })
+        score += isWordStart(text, index) ? 2 : 1
+      }
+      textIndex = index + 1
+    }
+
+    // 分散的匹配得分递减
+    return { score: Math.max(1, score - (ranges.length - 1)), ranges }
+  }
+
+  /**
+   * 内容的模糊匹配：查询中的每个词都出现在代码中即为匹配，避免在长代码中匹配到零散字符
+   */
+  private matchContentTerms(text: string, query: string): { score: number; ranges: Array<{ start: number; end: number }> } | null {
+    const lowerText = text.toLowerCase()
+    const ranges: Array<{ start: number; end: number }> = []
+
+    for (const term of query.split(/\s+/).filter((t) => t)) {
+      const matches = this.findMatches(lowerText, term)
+      if (matches.length === 0) {
+        return null
+      }
+      ranges.push(...matches)
+    }
+
+    return ranges.length > 0
+      ? { score: Math.min(ranges.length, 10), ranges: ranges.sort((a, b) => a.start - b.start) }
+      : null
+  }
+
+  /**
+   * 正则匹配，得分为匹配次数（空匹配不计）
+   */
+  private matchRegex(text: string, regex: RegExp): { score: number; ranges: Array<{ start: number; end: number }> } | null {
+    const ranges: Array<{ start: number; end: number }> = []
+    for (const match of text.matchAll(regex)) {
+      if (match[0].length > 0 && match.index !== undefined) {
+        ranges.push({ start: match.index, end: match.index + match[0].length })
       }
     }
+    return ranges.length > 0 ? { score: Math.min(ranges.length, 10), ranges } : null
+  }
 
-    return results
+  /**
+   * 编译正则查询，无效时返回 null
+   */
+  private getRegex(source: string): RegExp | null {
+    if (this._regexCache?.source !== source) {
+      let regex: RegExp | null = null
+      try {
+        regex = new RegExp(source, 'gi')
+      } catch {
+        regex = null
+      }
+      this._regexCache = { source, regex }
+    }
+    return this._regexCache.regex
+  }
+
+  /**
+   * 校验查询中的限定条件以及正则模式下的正则表达式，返回错误信息，有效时返回 undefined
+   */
+  private validateQuery(query: string): string | undefined {
+    const isRegexMode = this._searchMode === SearchMode.REGEX
+    const parsed = parseSearchQuery(query, isRegexMode)
+    if (parsed.errors.length > 0) {
+      return parsed.errors[0]
+    }
+    if (!isRegexMode) {
+      return undefined
+    }
+
+    try {
+      new RegExp(parsed.text, 'gi')
+      return undefined
+    } catch (error) {
+      return `无效的正则表达式: ${error instanceof Error ? error.message : error}`
+    }
   }
 
   /**
    * 过滤代码片段（用于树视图显示）
    */
   filterSnippets(snippets: CodeSnippet[]): CodeSnippet[] {
+    if (this.hasTagFilter) {
+      snippets = snippets.filter((snippet) => hasAllTags(snippet.tags, this._tagFilter))
+    }
+
     if (!this._isActive) {
       return snippets
     }
@@ -171,7 +465,7 @@ export class SearchManager {
    * 过滤目录（只显示包含匹配代码片段的目录）
    */
   filterDirectories(directories: Directory[], filteredSnippets: CodeSnippet[]): Directory[] {
-    if (!this._isActive) {
+    if (!this._isActive && !this.hasTagFilter) {
       return directories
     }
 
@@ -264,20 +558,22 @@ export class SearchManager {
   }
 
   /**
-   * 生成高亮的标签文本
+   * 生成代码片段在树视图中的标签，名称中匹配的部分高亮显示
    */
-  generateHighlightedLabel(text: string, query: string): string {
-    if (!this._isActive || !query) {
-      return text
+  getHighlightedLabel(snippet: CodeSnippet): string | vscode.TreeItemLabel {
+    if (!this._isActive || !this._searchQuery) {
+      return snippet.name
     }
 
-    const matches = this.findMatches(text.toLowerCase(), query.toLowerCase())
-    if (matches.length === 0) {
-      return text
+    const result = this.matchSnippet(snippet, this._searchQuery, this._searchMode)
+    if (!result || result.matchType !== 'name') {
+      return snippet.name
     }
 
-    // 为了简化，我们在名称前添加搜索图标
-    return `🔍 ${text}`
+    return {
+      label: snippet.name,
+      highlights: result.highlightRanges.map((range): [number, number] => [range.start, range.end]),
+    }
   }
 
   /**
@@ -288,7 +584,43 @@ export class SearchManager {
       return ''
     }
 
-    const modeText = this._searchMode === SearchMode.NAME ? '名称' : '内容'
-    return `搜索: "${this._searchQuery}" (${modeText}模式)`
+    return `搜索: "${this._searchQuery}" (${SEARCH_MODE_LABELS[this._searchMode]}模式)`
+  }
+
+  /**
+   * 获取标签过滤状态描述
+   */
+  getTagFilterDescription(): string {
+    if (!this.hasTagFilter) {
+      return ''
+    }
+
+    return `标签: ${this._tagFilter.join(' + ')}`
+  }
+}
+
+/**
+ * 判断位置是否为单词开头（文本开头、分隔符之后或小写到大写的转换处）
+ */
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) {
+    return true
+  }
+  const previous = text[index - 1]
+  const current = text[index]
+  return /[\s_\-./\\]/.test(previous) || (previous === previous.toLowerCase() && current !== current.toLowerCase())
+}
+
+/**
+ * 获取代码片段在搜索范围中的文本
+ */
+function getFieldText(snippet: CodeSnippet, scope: SearchScope): string {
+  switch (scope) {
+    case 'name':
+      return snippet.name
+    case 'path':
+      return snippet.fullPath || ''
+    case 'content':
+      return snippet.code || ''
   }
 }
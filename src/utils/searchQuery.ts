@@ -0,0 +1,133 @@
+import { CodeSnippet } from '../types/types'
+import { fromVSCodeLanguageId, SNIPPET_LANGUAGES } from './languageUtils'
+import { normalizeTags } from './tagUtils'
+
+/**
+ * 搜索范围：关键字在名称、路径或代码中匹配，可用 in: 限定
+ */
+export type SearchScope = 'name' | 'path' | 'content'
+
+const SCOPE_ALIASES: Record<string, SearchScope> = {
+  name: 'name',
+  path: 'path',
+  code: 'content',
+  content: 'content',
+}
+
+// lang: 中常用的语言简写
+const LANGUAGE_SHORTHANDS: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  py: 'python',
+  sh: 'shell',
+  bash: 'shell',
+  md: 'markdown',
+  yml: 'yaml',
+  cs: 'csharp',
+  rs: 'rust',
+  rb: 'ruby',
+  text: 'plaintext',
+  txt: 'plaintext',
+}
+
+/**
+ * 按属性过滤的条件，如 lang:typescript、-tag:legacy
+ */
+export interface SearchFilter {
+  key: 'lang' | 'path' | 'tag'
+  value: string
+  negated: boolean
+}
+
+/**
+ * 解析后的搜索查询
+ */
+export interface ParsedSearchQuery {
+  text: string // 除过滤条件外的关键字，按原顺序以空格连接
+  excludedTerms: string[] // 以 - 开头的关键字，匹配的代码片段被排除
+  filters: SearchFilter[]
+  scopes: SearchScope[] // 为空时按搜索模式决定匹配范围
+  errors: string[]
+}
+
+/**
+ * 解析搜索框中的查询
+ * 支持 lang:、path:、tag:、in: 限定条件和 - 取反，值中有空格时可用双引号包裹，如 path:"/my dir"
+ * rawText 为 true 时关键字原样保留在 text 中，不解析 - 取反和双引号（用于正则搜索，避免误解析正则表达式）
+ */
+export function parseSearchQuery(query: string, rawText: boolean = false): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { text: '', excludedTerms: [], filters: [], scopes: [], errors: [] }
+  const textTerms: string[] = []
+
+  for (const token of tokenize(query)) {
+    const qualifier = /^(-?)(lang|path|tag|in):(.*)$/i.exec(token)
+    if (qualifier) {
+      const negated = qualifier[1] === '-'
+      const key = qualifier[2].toLowerCase()
+      const value = unquote(qualifier[3])
+
+      if (!value) {
+        parsed.errors.push(`${key}: 缺少值`)
+      } else if (key === 'in') {
+        const scope = SCOPE_ALIASES[value.toLowerCase()]
+        if (!scope) {
+          parsed.errors.push(`未知的搜索范围 "${value}"，可用 in:name、in:path、in:code`)
+        } else if (negated) {
+          parsed.errors.push('in: 不支持取反')
+        } else if (!parsed.scopes.includes(scope)) {
+          parsed.scopes.push(scope)
+        }
+      } else {
+        parsed.filters.push({ key: key as SearchFilter['key'], value, negated })
+      }
+      continue
+    }
+
+    if (rawText) {
+      textTerms.push(token)
+    } else if (token.startsWith('-') && token.length > 1) {
+      parsed.excludedTerms.push(unquote(token.substring(1)).toLowerCase())
+    } else {
+      textTerms.push(unquote(token))
+    }
+  }
+
+  parsed.text = textTerms.join(' ')
+  return parsed
+}
+
+/**
+ * 判断代码片段是否满足全部过滤条件
+ */
+export function matchesSearchFilters(snippet: CodeSnippet, filters: SearchFilter[]): boolean {
+  return filters.every((filter) => matchesFilter(snippet, filter) !== filter.negated)
+}
+
+function matchesFilter(snippet: CodeSnippet, filter: SearchFilter): boolean {
+  const value = filter.value.toLowerCase()
+
+  switch (filter.key) {
+    case 'lang': {
+      const language = (snippet.language || 'plaintext').toLowerCase()
+      const label = SNIPPET_LANGUAGES.find((l) => l.id === language)?.label.toLowerCase()
+      return language === (LANGUAGE_SHORTHANDS[value] || fromVSCodeLanguageId(value)) || label === value
+    }
+    case 'path':
+      return (snippet.fullPath || '').toLowerCase().includes(value)
+    case 'tag':
+      return normalizeTags(snippet.tags).some((tag) => tag.toLowerCase() === value.replace(/^#+/, ''))
+  }
+}
+
+/**
+ * 按空白分割查询，双引号内的空白不分割
+ */
+function tokenize(query: string): string[] {
+  return query.match(/(?:[^\s"]+|"[^"]*"?)+/g) || []
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '')
+}
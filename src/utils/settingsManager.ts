@@ -1,11 +1,20 @@
 import * as vscode from 'vscode'
-import { CloudSyncConfig, CloudSyncStatus, GitPlatformConfig, MultiPlatformCloudSyncConfig } from '../types/types'
+import {
+  CloudSyncConfig,
+  CloudSyncStatus,
+  GitPlatformConfig,
+  MultiPlatformCloudSyncConfig,
+  SnippetLibrary,
+} from '../types/types'
 import { PathUtils } from './pathUtils'
 import * as crypto from 'crypto'
 
 export class SettingsManager {
   private static readonly MULTI_PLATFORM_CONFIG_KEY = 'starcode-snippets.multiPlatformCloudSync'
   private static readonly STATUS_KEY = 'starcode-snippets.cloudSyncStatus'
+  private static readonly LIBRARIES_KEY = 'starcode-snippets.libraries'
+  private static readonly ACTIVE_LIBRARY_KEY = 'starcode-snippets.activeLibraryId'
+  static readonly DEFAULT_LIBRARY_ID = 'default'
   private static extensionContext: vscode.ExtensionContext | null = null
   private static notifiedPathAdjustments = new Set<string>() // 记录已通知的路径调整
 
@@ -603,6 +612,95 @@ export class SettingsManager {
     }
   }
 
+  /**
+   * 获取所有代码库，默认代码库始终在最前
+   */
+  static getSnippetLibraries(): SnippetLibrary[] {
+    const libraries = vscode.workspace.getConfiguration().get<SnippetLibrary[]>(this.LIBRARIES_KEY, [])
+    const defaultLibrary = libraries.find((l) => l.id === this.DEFAULT_LIBRARY_ID) || {
+      id: this.DEFAULT_LIBRARY_ID,
+      name: '默认代码库',
+      platformConfigId: null,
+    }
+    return [defaultLibrary, ...libraries.filter((l) => l.id && l.id !== this.DEFAULT_LIBRARY_ID)]
+  }
+
+  /**
+   * 保存代码库列表
+   */
+  static async saveSnippetLibraries(libraries: SnippetLibrary[]): Promise<void> {
+    await vscode.workspace.getConfiguration().update(this.LIBRARIES_KEY, libraries, vscode.ConfigurationTarget.Global)
+  }
+
+  /**
+   * 获取当前使用的代码库，配置的代码库不存在时使用默认代码库
+   */
+  static getActiveSnippetLibrary(): SnippetLibrary {
+    const activeLibraryId = vscode.workspace.getConfiguration().get<string>(this.ACTIVE_LIBRARY_KEY, this.DEFAULT_LIBRARY_ID)
+    const libraries = this.getSnippetLibraries()
+    return libraries.find((l) => l.id === activeLibraryId) || libraries[0]
+  }
+
+  /**
+   * 设置当前使用的代码库
+   */
+  static async setActiveSnippetLibrary(libraryId: string): Promise<void> {
+    await vscode.workspace.getConfiguration().update(this.ACTIVE_LIBRARY_KEY, libraryId, vscode.ConfigurationTarget.Global)
+  }
+
+  /**
+   * 检查当前代码库能否使用当前激活的同步配置，不能同步时返回原因
+   * 绑定了同步配置的代码库只能使用绑定的配置；未绑定时只有默认代码库可以使用未被其他代码库绑定的配置，
+   * 避免把一个代码库的数据推送到另一个代码库的仓库中
+   */
+  static getLibrarySyncBlockReason(): string | null {
+    const library = this.getActiveSnippetLibrary()
+    const activePlatform = this.getActivePlatformConfig()
+
+    // 绑定到其他代码库的同步配置与当前配置使用同一本地仓库时，两个代码库的数据会互相覆盖
+    const shared =
+      activePlatform &&
+      this.findLocalPathConflict(activePlatform.id, (p) =>
+        this.getSnippetLibraries().some((l) => l.platformConfigId === p.id && l.id !== library.id)
+      )
+    if (shared) {
+      return `当前同步配置与代码库绑定的同步配置 "${shared.name}" 使用同一个本地仓库路径，请在设置中为其指定不同的本地路径`
+    }
+
+    if (library.platformConfigId) {
+      return activePlatform?.id === library.platformConfigId
+        ? null
+        : `代码库 "${library.name}" 绑定的同步配置不存在或未激活`
+    }
+    if (library.id !== this.DEFAULT_LIBRARY_ID) {
+      return `代码库 "${library.name}" 未绑定同步配置`
+    }
+
+    const owner = activePlatform && this.getSnippetLibraries().find((l) => l.platformConfigId === activePlatform.id)
+    return owner ? `当前同步配置已绑定到代码库 "${owner.name}"，请切换到该代码库后再同步` : null
+  }
+
+  /**
+   * 查找与指定同步配置使用同一本地仓库路径的其他同步配置
+   * 不同代码库的同步配置共用本地仓库时会共用工作目录和Git历史，互相覆盖数据
+   */
+  static findLocalPathConflict(
+    platformConfigId: string,
+    filter: (platform: GitPlatformConfig) => boolean = () => true
+  ): GitPlatformConfig | undefined {
+    const platforms = this.getMultiPlatformCloudSyncConfig().platforms
+    const target = platforms.find((p) => p.id === platformConfigId)
+    if (!target) {
+      return undefined
+    }
+
+    const resolveLocalPath = (platform: GitPlatformConfig) =>
+      PathUtils.resolveDefaultPathToken(platform.localPath || '', platform.provider, this.extensionContext || undefined)
+        .replace(/[\\/]+$/, '')
+    const targetPath = resolveLocalPath(target)
+    return platforms.find((p) => p.id !== target.id && filter(p) && resolveLocalPath(p) === targetPath)
+  }
+
   /**
    * 验证配置是否完整
    */
@@ -0,0 +1,167 @@
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * 可按稳定标识匹配的条目（代码片段或目录）
+ */
+interface IdentifiableItem {
+  uuid?: string
+  fullPath: string
+  name: string
+  category?: string
+}
+
+/**
+ * 三路合并中同一条目在基线、本地和远程的版本
+ */
+export interface MatchedItems<T> {
+  base: T | null
+  local: T | null
+  remote: T | null
+}
+
+/**
+ * 获取条目的合并标识：有 uuid 时使用 uuid，没有 uuid 的旧数据使用 fullPath
+ */
+export function getItemIdentity(item: { uuid?: string; fullPath: string }): string {
+  return item.uuid || item.fullPath
+}
+
+/**
+ * 为条目分配 uuid：条目没有 uuid 或与已有条目的 uuid 重复时生成新的 uuid
+ */
+export function withUniqueUuid<T extends { uuid?: string }>(item: T, existingItems: Array<{ uuid?: string }>): T {
+  if (item.uuid && !existingItems.some((existing) => existing.uuid === item.uuid)) {
+    return item
+  }
+  return { ...item, uuid: uuidv4() }
+}
+
+/**
+ * 为列表中缺少 uuid 或 uuid 重复的条目补全 uuid
+ * 没有需要补全的条目时返回原数组，便于调用方判断是否需要保存
+ */
+export function assignMissingUuids<T extends { uuid?: string }>(items: T[]): T[] {
+  const usedUuids = new Set<string>()
+  let changed = false
+
+  const result = items.map((item) => {
+    if (item.uuid && !usedUuids.has(item.uuid)) {
+      usedUuids.add(item.uuid)
+      return item
+    }
+    changed = true
+    const uuid = uuidv4()
+    usedUuids.add(uuid)
+    return { ...item, uuid }
+  })
+
+  return changed ? result : items
+}
+
+/**
+ * 按稳定标识对齐三方的条目
+ * 优先按 uuid 匹配，这样重命名或移动后的条目仍与原条目对应；没有 uuid 的旧数据按 fullPath 匹配
+ */
+export function matchItemsByIdentity<T extends IdentifiableItem>(
+  baseItems: T[],
+  localItems: T[],
+  remoteItems: T[]
+): MatchedItems<T>[] {
+  const groups: MatchedItems<T>[] = []
+
+  const place = (items: T[], side: keyof MatchedItems<T>) => {
+    const findGroup = (predicate: (other: T) => boolean) =>
+      groups.find(
+        (group) => !group[side] && [group.base, group.local, group.remote].some((other) => other && predicate(other))
+      )
+
+    // 先按 uuid 放置所有条目，再按路径放置剩余条目，避免路径匹配抢占重命名条目的位置
+    const unplaced: T[] = []
+    for (const item of items) {
+      const group = item.uuid ? findGroup((other) => other.uuid === item.uuid) : undefined
+      if (group) {
+        group[side] = item
+      } else {
+        unplaced.push(item)
+      }
+    }
+
+    // 路径相同但 uuid 不同的条目（如双方各自新建）也放在一起，交由冲突检测处理
+    for (const item of unplaced) {
+      const group = findGroup((other) => other.fullPath === item.fullPath)
+      if (group) {
+        group[side] = item
+      } else {
+        groups.push({ base: null, local: null, remote: null, [side]: item })
+      }
+    }
+  }
+
+  place(baseItems, 'base')
+  place(localItems, 'local')
+  place(remoteItems, 'remote')
+
+  return groups
+}
+
+/**
+ * 在条目列表中查找与目标对应的条目：优先按 uuid，其次按 fullPath
+ * 双方都有 uuid 时只按 uuid 匹配，避免在原路径新建的条目被误认为已重命名的原条目
+ */
+export function findMatchingItem<T extends IdentifiableItem>(items: T[], target: IdentifiableItem): T | undefined {
+  if (target.uuid) {
+    const byUuid = items.find((item) => item.uuid === target.uuid)
+    if (byUuid) {
+      return byUuid
+    }
+  }
+  return items.find((item) => item.fullPath === target.fullPath && !(item.uuid && target.uuid))
+}
+
+/**
+ * 查找要重命名或移动的条目的位置：优先按 uuid，其次按原路径
+ */
+export function findMovedItemIndex(
+  items: Array<{ uuid?: string; fullPath: string }>,
+  oldFullPath: string,
+  uuid?: string
+): number {
+  const index = uuid ? items.findIndex((item) => item.uuid === uuid) : -1
+  return index !== -1 ? index : items.findIndex((item) => item.fullPath === oldFullPath)
+}
+
+/**
+ * 合并一方重命名或移动、另一方修改其他属性的情况
+ * 只有一方改变了位置且该方没有其他修改时，返回在另一方版本上应用新位置的结果，否则返回 null
+ */
+export function mergeMovedItem<T extends IdentifiableItem>(
+  base: T,
+  local: T,
+  remote: T,
+  hasDifference: (a: T, b: T) => boolean
+): T | null {
+  const localMoved = local.fullPath !== base.fullPath
+  const remoteMoved = remote.fullPath !== base.fullPath
+  if (localMoved === remoteMoved) {
+    return null
+  }
+
+  const moved = localMoved ? local : remote
+  const other = localMoved ? remote : local
+  if (hasDifference({ ...base, ...pickLocation(moved) }, moved)) {
+    return null
+  }
+
+  return { ...other, ...pickLocation(moved) }
+}
+
+/**
+ * 提取条目的位置属性（路径、名称和分类）
+ */
+function pickLocation(item: IdentifiableItem): Partial<IdentifiableItem> {
+  const location: Partial<IdentifiableItem> = { fullPath: item.fullPath, name: item.name }
+  if (item.category !== undefined) {
+    location.category = item.category
+  }
+  return location
+}
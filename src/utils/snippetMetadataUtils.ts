@@ -0,0 +1,16 @@
+import { CodeSnippet } from '../types/types'
+import { areTagsEqual } from './tagUtils'
+
+/**
+ * 除名称、代码、语言和路径外，需要在同步中保持一致的代码片段属性
+ */
+const SYNCED_METADATA_FIELDS = ['order', 'createTime', 'prefix', 'description', 'insertAsPlainText'] as const
+
+/**
+ * 判断两个代码片段的附加属性（排序、创建时间、智能提示前缀、描述、插入方式、标签）是否不同
+ * 未设置与空值视为相同
+ */
+export function hasSnippetMetadataDifference(a: CodeSnippet, b: CodeSnippet): boolean {
+  const differs = SYNCED_METADATA_FIELDS.some((field) => (a[field] || undefined) !== (b[field] || undefined))
+  return differs || !areTagsEqual(a.tags, b.tags)
+}
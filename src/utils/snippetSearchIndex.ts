@@ -0,0 +1,187 @@
+import * as vscode from 'vscode'
+import { CodeSnippet } from '../types/types'
+import { StorageContext } from './storageContext'
+import { getItemIdentity } from './snippetIdentityUtils'
+
+// 代码中的词由字母、数字、_ 和 $ 组成，其余字符都作为分隔符
+const TOKEN_SEPARATOR = /[^\p{L}\p{N}_$]+/u
+
+// 缓存的查询词数量上限
+const MAX_CACHED_TERMS = 20
+
+interface IndexEntry {
+  code: string
+  tokens: string[]
+}
+
+/**
+ * 代码片段内容的词索引
+ * 记录每个代码片段代码中出现的词（小写），搜索时先在词表中找出可能包含查询的代码片段，
+ * 只对这些代码片段逐字匹配，避免每次查询都扫描全部代码。
+ * 代码库写入（保存、更新、删除以及同步写入）后只重新索引代码发生变化的代码片段
+ */
+export class SnippetSearchIndex implements vscode.Disposable {
+  private entries = new Map<string, IndexEntry>()
+  private postings = new Map<string, Set<string>>()
+  private termCache = new Map<string, Set<string> | null>()
+  private disposables: vscode.Disposable[] = []
+  private updateTimer: NodeJS.Timeout | undefined
+  private updating = false
+  private pendingUpdate = false
+
+  constructor(private storageContext: StorageContext) {
+    this.disposables.push(this.storageContext.onDidChangeData(() => this.scheduleUpdate()))
+    this.scheduleUpdate()
+  }
+
+  /**
+   * 判断代码片段的代码是否可能包含查询文本（不区分大小写）
+   * 返回 false 时一定不包含；代码片段尚未索引或代码已变化时返回 true，由调用方逐字匹配
+   */
+  public mayContain(snippet: CodeSnippet, text: string): boolean {
+    const entry = this.entries.get(getItemIdentity(snippet))
+    if (!entry || entry.code !== (snippet.code || '')) {
+      return true
+    }
+
+    const candidates = this.getCandidates(text)
+    return !candidates || candidates.has(getItemIdentity(snippet))
+  }
+
+  /**
+   * 按当前代码库更新索引，只重新索引新增或代码发生变化的代码片段
+   */
+  public async update(): Promise<void> {
+    if (this.updating) {
+      this.pendingUpdate = true
+      return
+    }
+
+    this.updating = true
+    try {
+      const snippets: CodeSnippet[] = await this.storageContext.getAllSnippets()
+      const keys = new Set<string>()
+
+      for (const snippet of snippets) {
+        const key = getItemIdentity(snippet)
+        if (!key) {
+          continue
+        }
+        keys.add(key)
+
+        const code = snippet.code || ''
+        const entry = this.entries.get(key)
+        if (entry && entry.code === code) {
+          // 保存新的字符串引用，查询时比较代码是否变化只需比较引用
+          entry.code = code
+          continue
+        }
+        if (entry) {
+          this.removeEntry(key, entry)
+        }
+        this.addEntry(key, code)
+      }
+
+      for (const [key, entry] of this.entries) {
+        if (!keys.has(key)) {
+          this.removeEntry(key, entry)
+        }
+      }
+      this.termCache.clear()
+    } catch (error) {
+      console.error('更新搜索索引失败:', error)
+    } finally {
+      this.updating = false
+    }
+
+    if (this.pendingUpdate) {
+      this.pendingUpdate = false
+      await this.update()
+    }
+  }
+
+  public dispose(): void {
+    if (this.updateTimer) {
+      clearTimeout(this.updateTimer)
+      this.updateTimer = undefined
+    }
+    this.disposables.forEach((d) => d.dispose())
+    this.disposables = []
+  }
+
+  /**
+   * 合并短时间内的多次写入（如同步时逐个保存代码片段），写入结束后再更新索引
+   */
+  private scheduleUpdate(): void {
+    if (this.updateTimer) {
+      clearTimeout(this.updateTimer)
+    }
+    this.updateTimer = setTimeout(() => {
+      this.updateTimer = undefined
+      this.update()
+    }, 300)
+  }
+
+  private addEntry(key: string, code: string): void {
+    const tokens = [...new Set(tokenize(code))]
+    this.entries.set(key, { code, tokens })
+    for (const token of tokens) {
+      let keys = this.postings.get(token)
+      if (!keys) {
+        keys = new Set<string>()
+        this.postings.set(token, keys)
+      }
+      keys.add(key)
+    }
+  }
+
+  private removeEntry(key: string, entry: IndexEntry): void {
+    this.entries.delete(key)
+    for (const token of entry.tokens) {
+      const keys = this.postings.get(token)
+      keys?.delete(key)
+      if (keys?.size === 0) {
+        this.postings.delete(token)
+      }
+    }
+  }
+
+  /**
+   * 获取代码中可能包含查询文本的代码片段
+   * 查询中的每个词都必须是代码中某个词的一部分；查询中没有词（只有符号）时无法缩小范围，返回 null
+   */
+  private getCandidates(text: string): Set<string> | null {
+    const cached = this.termCache.get(text)
+    if (cached !== undefined) {
+      return cached
+    }
+
+    const pieces = [...new Set(tokenize(text))]
+    let candidates: Set<string> | null = null
+    for (const piece of pieces) {
+      const keys = new Set<string>()
+      for (const [token, tokenKeys] of this.postings) {
+        if (token.includes(piece)) {
+          tokenKeys.forEach((key) => keys.add(key))
+        }
+      }
+      candidates = candidates ? new Set([...candidates].filter((key: string) => keys.has(key))) : keys
+      if (candidates.size === 0) {
+        break
+      }
+    }
+
+    if (this.termCache.size >= MAX_CACHED_TERMS) {
+      this.termCache.clear()
+    }
+    this.termCache.set(text, candidates)
+    return candidates
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(TOKEN_SEPARATOR)
+    .filter((token) => token)
+}
@@ -10,6 +10,13 @@ import { PathBasedManager } from './pathBasedManager'
 export class StorageContext {
   private strategy: StorageStrategy
 
+  // 数据写入完成后触发，供镜像、索引等依赖存储内容的组件订阅
+  private _onDidChangeData = new vscode.EventEmitter<void>()
+  readonly onDidChangeData: vscode.Event<void> = this._onDidChangeData.event
+  // 批量操作的嵌套深度，批量操作期间的写入只在全部完成后通知一次
+  private batchDepth = 0
+  private hasPendingChange = false
+
   constructor(strategy: StorageStrategy) {
     this.strategy = strategy
   }
@@ -21,6 +28,41 @@ export class StorageContext {
     this.strategy = strategy
   }
 
+  /**
+   * 切换到指定代码库的存储（仅V2支持），切换后通知依赖存储内容的组件重新读取
+   */
+  switchLibrary(libraryId: string): void {
+    this.setStrategy(new V2StorageStrategy(this.getContext(), libraryId))
+    this.notifyDataChanged()
+  }
+
+  /**
+   * 批量执行多个写入操作，期间不通知数据变化，全部完成后（包括失败时）只通知一次
+   */
+  async batch<T>(operation: () => Promise<T>): Promise<T> {
+    this.batchDepth++
+    try {
+      return await operation()
+    } finally {
+      this.batchDepth--
+      if (this.batchDepth === 0 && this.hasPendingChange) {
+        this.hasPendingChange = false
+        this._onDidChangeData.fire()
+      }
+    }
+  }
+
+  /**
+   * 通知数据已变化，处于批量操作中时推迟到批量操作结束
+   */
+  private notifyDataChanged(): void {
+    if (this.batchDepth > 0) {
+      this.hasPendingChange = true
+      return
+    }
+    this._onDidChangeData.fire()
+  }
+
   /**
    * 获取当前策略
    */
@@ -122,6 +164,7 @@ export class StorageContext {
    */
   async saveSnippet(snippet: any): Promise<void> {
     await this.strategy.saveSnippet(snippet)
+    this.notifyDataChanged()
   }
 
   /**
@@ -129,6 +172,61 @@ export class StorageContext {
    */
   async updateSnippet(snippet: any): Promise<void> {
     await this.strategy.updateSnippet(snippet)
+    this.notifyDataChanged()
+  }
+
+  /**
+   * 重命名或移动代码片段，V2格式一次写入完成，uuid 保持不变
+   */
+  async moveSnippet(oldFullPath: string, snippet: any): Promise<void> {
+    if (this.strategy.moveSnippet) {
+      await this.strategy.moveSnippet(oldFullPath, snippet)
+    } else {
+      await this.strategy.deleteSnippet(oldFullPath)
+      await this.strategy.saveSnippet(snippet)
+    }
+    this.notifyDataChanged()
+  }
+
+  /**
+   * 重命名或移动目录及其下的所有内容（仅V2支持），写入完成后只通知一次
+   */
+  async moveDirectory(oldFullPath: string, directory: any): Promise<void> {
+    if (!this.strategy.moveDirectory) {
+      throw new Error('仅 V2 存储格式支持移动目录')
+    }
+    await this.strategy.moveDirectory(oldFullPath, directory)
+    this.notifyDataChanged()
+  }
+
+  /**
+   * 一次删除多个代码片段和目录（目录连同其下的所有内容），写入完成后只通知一次
+   * 不支持批量删除的存储格式逐个删除
+   */
+  async deleteItems(snippetPaths: string[], directoryPaths: string[]): Promise<void> {
+    if (this.strategy.deleteItems) {
+      await this.strategy.deleteItems(snippetPaths, directoryPaths)
+    } else {
+      for (const path of snippetPaths) {
+        await this.strategy.deleteSnippet(path)
+      }
+      for (const path of directoryPaths) {
+        await this.strategy.deleteDirectory(path)
+      }
+    }
+    this.notifyDataChanged()
+  }
+
+  /**
+   * 用给定的代码片段和目录整体替换当前代码库（仅V2支持），写入完成后只通知一次
+   */
+  async replaceAll(snippets: CodeSnippetV2[], directories: DirectoryV2[]): Promise<void> {
+    if (!(this.strategy instanceof V2StorageStrategy)) {
+      throw new Error('仅 V2 存储格式支持整体替换代码库')
+    }
+    await this.strategy.saveDirectories(directories)
+    await this.strategy.saveSnippets(snippets)
+    this.notifyDataChanged()
   }
 
   /**
@@ -136,6 +234,7 @@ export class StorageContext {
    */
   async deleteSnippet(id: string): Promise<void> {
     await this.strategy.deleteSnippet(id)
+    this.notifyDataChanged()
   }
 
   /**
@@ -143,6 +242,7 @@ export class StorageContext {
    */
   async createDirectory(directory: any): Promise<void> {
     await this.strategy.createDirectory(directory)
+    this.notifyDataChanged()
   }
 
   /**
@@ -150,6 +250,7 @@ export class StorageContext {
    */
   async updateDirectory(directory: any): Promise<void> {
     await this.strategy.updateDirectory(directory)
+    this.notifyDataChanged()
   }
 
   /**
@@ -157,6 +258,7 @@ export class StorageContext {
    */
   async deleteDirectory(id: string): Promise<void> {
     await this.strategy.deleteDirectory(id)
+    this.notifyDataChanged()
   }
 
   /**
@@ -355,6 +457,7 @@ export class StorageContext {
 
       // 切换到V2策略
       this.setStrategy(v2Strategy)
+      this.notifyDataChanged()
     } else {
       // console.log('当前已经是V2格式，无需转换')
     }
@@ -399,6 +502,7 @@ export class StorageContext {
 
       // 切换到V1策略
       this.setStrategy(v1Strategy)
+      this.notifyDataChanged()
     } else {
       // console.log('当前已经是V1格式，无需转换')
     }
@@ -2,6 +2,8 @@ import * as vscode from 'vscode'
 import { CodeSnippetV1, DirectoryV1, CodeSnippetV2, DirectoryV2 } from '../types/types'
 import { StorageManager } from '../storage/storageManager'
 import { PathBasedManager } from './pathBasedManager'
+import { assignMissingUuids, findMovedItemIndex, withUniqueUuid } from './snippetIdentityUtils'
+import { SettingsManager } from './settingsManager'
 
 /**
  * 存储策略接口
@@ -24,6 +26,9 @@ export interface StorageStrategy {
   // 版本特定操作
   getSnippetByPath?(path: string): Promise<any | null>
   getDirectoryByPath?(path: string): Promise<any | null>
+  moveSnippet?(oldFullPath: string, snippet: any): Promise<void>
+  moveDirectory?(oldFullPath: string, directory: any): Promise<void>
+  deleteItems?(snippetPaths: string[], directoryPaths: string[]): Promise<void>
   getContext(): vscode.ExtensionContext
   getVersion(): string // 返回 "v1" 或 "v2"
 }
@@ -124,24 +129,32 @@ export class V1StorageStrategy implements StorageStrategy {
 
 /**
  * V2存储策略实现
- * 基于路径的存储逻辑
+ * 基于路径的存储逻辑，每个代码库使用独立的存储键，默认代码库沿用原有的 snippets.v2 和 directories.v2
  */
 export class V2StorageStrategy implements StorageStrategy {
   private context: vscode.ExtensionContext
-  private snippetsKey = 'snippets.v2'
-  private directoriesKey = 'directories.v2'
+  private snippetsKey: string
+  private directoriesKey: string
   private snippetsCache: CodeSnippetV2[] | null = null
   private directoriesCache: DirectoryV2[] | null = null
 
-  constructor(context: vscode.ExtensionContext) {
+  constructor(context: vscode.ExtensionContext, libraryId: string = SettingsManager.getActiveSnippetLibrary().id) {
     this.context = context
+    const keySuffix = libraryId === SettingsManager.DEFAULT_LIBRARY_ID ? '' : `.${libraryId}`
+    this.snippetsKey = `snippets.v2${keySuffix}`
+    this.directoriesKey = `directories.v2${keySuffix}`
   }
 
   async getAllSnippets(): Promise<CodeSnippetV2[]> {
     if (this.snippetsCache) {
       return this.snippetsCache
     }
-    const snippets = this.context.globalState.get<CodeSnippetV2[]>(this.snippetsKey, [])
+    const storedSnippets = this.context.globalState.get<CodeSnippetV2[]>(this.snippetsKey, [])
+    // 旧数据没有 uuid，首次读取时补全并保存
+    const snippets = assignMissingUuids(storedSnippets)
+    if (snippets !== storedSnippets) {
+      await this.context.globalState.update(this.snippetsKey, snippets)
+    }
     this.snippetsCache = snippets
     return snippets
   }
@@ -150,7 +163,11 @@ export class V2StorageStrategy implements StorageStrategy {
     if (this.directoriesCache) {
       return this.directoriesCache
     }
-    const directories = this.context.globalState.get<DirectoryV2[]>(this.directoriesKey, [])
+    const storedDirectories = this.context.globalState.get<DirectoryV2[]>(this.directoriesKey, [])
+    const directories = assignMissingUuids(storedDirectories)
+    if (directories !== storedDirectories) {
+      await this.context.globalState.update(this.directoriesKey, directories)
+    }
     this.directoriesCache = directories
     return directories
   }
@@ -179,7 +196,8 @@ export class V2StorageStrategy implements StorageStrategy {
 
   async saveSnippet(snippet: CodeSnippetV2): Promise<void> {
     const snippets = await this.getAllSnippets()
-    snippets.push(snippet)
+    // 重命名和移动会先删除再保存，保留原有的 uuid；新建或复制出的代码片段分配新的 uuid
+    snippets.push(withUniqueUuid(snippet, snippets))
     await this.context.globalState.update(this.snippetsKey, snippets)
     this.snippetsCache = snippets
   }
@@ -189,7 +207,7 @@ export class V2StorageStrategy implements StorageStrategy {
     const index = snippets.findIndex((s) => s.fullPath === snippet.fullPath)
 
     if (index !== -1) {
-      snippets[index] = snippet
+      snippets[index] = snippet.uuid ? snippet : { ...snippet, uuid: snippets[index].uuid }
       await this.context.globalState.update(this.snippetsKey, snippets)
       this.snippetsCache = snippets
     } else {
@@ -197,6 +215,24 @@ export class V2StorageStrategy implements StorageStrategy {
     }
   }
 
+  /**
+   * 重命名或移动代码片段：按 uuid（没有时按原路径）找到原记录并一次写入新路径，uuid 保持不变
+   */
+  async moveSnippet(oldFullPath: string, snippet: CodeSnippetV2): Promise<void> {
+    const snippets = await this.getAllSnippets()
+    const index = findMovedItemIndex(snippets, oldFullPath, snippet.uuid)
+    if (index === -1) {
+      throw new Error(`未找到要移动的代码片段: ${oldFullPath}`)
+    }
+    if (snippets.some((s, i) => i !== index && s.fullPath === snippet.fullPath)) {
+      throw new Error(`目标路径已存在代码片段: ${snippet.fullPath}`)
+    }
+
+    snippets[index] = { ...snippet, uuid: snippets[index].uuid }
+    await this.context.globalState.update(this.snippetsKey, snippets)
+    this.snippetsCache = snippets
+  }
+
   async deleteSnippet(id: string): Promise<void> {
     // 在V2中，需要处理多种ID格式：
     // 1. 基于路径生成的ID
@@ -233,6 +269,38 @@ export class V2StorageStrategy implements StorageStrategy {
     }
   }
 
+  /**
+   * 重命名或移动目录：目录及其下的子目录和代码片段一起改为新路径，uuid 保持不变
+   */
+  async moveDirectory(oldFullPath: string, directory: DirectoryV2): Promise<void> {
+    const oldPath = oldFullPath.endsWith('/') ? oldFullPath : `${oldFullPath}/`
+    const newPath = directory.fullPath.endsWith('/') ? directory.fullPath : `${directory.fullPath}/`
+    const toNewPath = (fullPath: string) => newPath + fullPath.substring(oldPath.length)
+    const isInSubtree = (fullPath: string) => fullPath.startsWith(oldPath) || `${fullPath}/` === oldPath
+
+    const [snippets, directories] = await Promise.all([this.getAllSnippets(), this.getAllDirectories()])
+    const index = findMovedItemIndex(directories, oldFullPath, directory.uuid)
+    if (index === -1) {
+      throw new Error(`未找到要移动的目录: ${oldFullPath}`)
+    }
+    if (directories.some((d) => !isInSubtree(d.fullPath) && (d.fullPath === newPath || `${d.fullPath}/` === newPath))) {
+      throw new Error(`目录已存在: ${newPath}`)
+    }
+
+    const movedDirectories = directories.map((d, i) => {
+      if (i === index) {
+        return { ...directory, fullPath: newPath, uuid: d.uuid }
+      }
+      return isInSubtree(d.fullPath) ? { ...d, fullPath: toNewPath(d.fullPath) } : d
+    })
+    const movedSnippets = snippets.map((s) => (s.fullPath.startsWith(oldPath) ? { ...s, fullPath: toNewPath(s.fullPath) } : s))
+
+    await this.context.globalState.update(this.directoriesKey, movedDirectories)
+    this.directoriesCache = movedDirectories
+    await this.context.globalState.update(this.snippetsKey, movedSnippets)
+    this.snippetsCache = movedSnippets
+  }
+
   async createDirectory(directory: DirectoryV2): Promise<void> {
     const directories = await this.getAllDirectories()
 
@@ -241,7 +309,7 @@ export class V2StorageStrategy implements StorageStrategy {
       throw new Error(`目录已存在: ${directory.fullPath}`)
     }
 
-    directories.push(directory)
+    directories.push(withUniqueUuid(directory, directories))
     await this.context.globalState.update(this.directoriesKey, directories)
     this.directoriesCache = directories
   }
@@ -251,7 +319,7 @@ export class V2StorageStrategy implements StorageStrategy {
     const index = directories.findIndex((d) => d.fullPath === directory.fullPath)
 
     if (index !== -1) {
-      directories[index] = directory
+      directories[index] = directory.uuid ? directory : { ...directory, uuid: directories[index].uuid }
       await this.context.globalState.update(this.directoriesKey, directories)
       this.directoriesCache = directories
     } else {
@@ -308,21 +376,54 @@ export class V2StorageStrategy implements StorageStrategy {
     }
   }
 
+  /**
+   * 一次删除多个代码片段和目录，目录连同其下的子目录和代码片段一起删除
+   */
+  async deleteItems(snippetPaths: string[], directoryPaths: string[]): Promise<void> {
+    const prefixes = directoryPaths.map((p) => (p.endsWith('/') ? p : `${p}/`))
+    const isDeleted = (fullPath: string) =>
+      prefixes.some((prefix) => fullPath.startsWith(prefix) || `${fullPath}/` === prefix)
+
+    const [snippets, directories] = await Promise.all([this.getAllSnippets(), this.getAllDirectories()])
+    const remainingDirectories = directories.filter((d) => !isDeleted(d.fullPath))
+    const remainingSnippets = snippets.filter((s) => !snippetPaths.includes(s.fullPath) && !isDeleted(s.fullPath))
+
+    if (remainingDirectories.length !== directories.length) {
+      await this.context.globalState.update(this.directoriesKey, remainingDirectories)
+      this.directoriesCache = remainingDirectories
+    }
+    if (remainingSnippets.length !== snippets.length) {
+      await this.context.globalState.update(this.snippetsKey, remainingSnippets)
+      this.snippetsCache = remainingSnippets
+    }
+  }
+
   async clearCache(): Promise<void> {
     this.snippetsCache = null
     this.directoriesCache = null
   }
 
   async saveSnippets(snippets: CodeSnippetV2[]): Promise<void> {
+    snippets = assignMissingUuids(snippets)
     await this.context.globalState.update(this.snippetsKey, snippets)
     this.snippetsCache = snippets
   }
 
   async saveDirectories(directories: DirectoryV2[]): Promise<void> {
+    directories = assignMissingUuids(directories)
     await this.context.globalState.update(this.directoriesKey, directories)
     this.directoriesCache = directories
   }
 
+  /**
+   * 删除该代码库的全部数据（删除代码库时使用）
+   */
+  async deleteAll(): Promise<void> {
+    await this.context.globalState.update(this.snippetsKey, undefined)
+    await this.context.globalState.update(this.directoriesKey, undefined)
+    await this.clearCache()
+  }
+
   getContext(): vscode.ExtensionContext {
     return this.context
   }
@@ -15,6 +15,8 @@ import { ConflictDetector } from '../conflict/conflictDetector'
 import { ConflictResolver } from '../conflict/conflictResolver'
 import { ManualConflictHandler } from '../conflict/manualConflictHandler'
 import { ThreeWayMergeManager } from './threeWayMergeManager'
+import { normalizeTags } from '../tagUtils'
+import { hasSnippetMetadataDifference } from '../snippetMetadataUtils'
 
 /**
  * 数据同步核心管理器
@@ -950,7 +952,8 @@ export class DataSyncManager {
       local.category !== remote.category ||
       local.language !== remote.language ||
       local.filePath !== remote.filePath ||
-      local.fileName !== remote.fileName
+      local.fileName !== remote.fileName ||
+      hasSnippetMetadataDifference(local, remote)
     )
   }
 
@@ -978,11 +981,20 @@ export class DataSyncManager {
       fullPath: snippet.fullPath,
       filePath: snippet.filePath || '',
       category: snippet.category || '',
+      order: snippet.order || 0,
+      createTime: snippet.createTime || 0,
+      prefix: snippet.prefix || '',
+      description: snippet.description || '',
+      insertAsPlainText: !!snippet.insertAsPlainText,
+      tags: normalizeTags(snippet.tags).sort(),
+      uuid: snippet.uuid || '',
     })
 
     const normalizeDirectoryForComparison = (dir: Directory) => ({
+      uuid: dir.uuid || '',
       name: dir.name,
       fullPath: dir.fullPath,
+      order: dir.order || 0,
     })
 
     // 规范化并排序
@@ -1444,7 +1456,17 @@ export class DataSyncManager {
     for (const targetSnippet of targetSnippets) {
       console.log(`🔍 分析目标片段: ${targetSnippet.fullPath}`)
 
-      // 【修复】优先通过fullPath匹配，如果不匹配则尝试通过name和filePath匹配
+      // 优先通过uuid匹配，重命名或移动后的代码片段仍对应原来的片段
+      const renamedSnippet = targetSnippet.uuid
+        ? currentSnippets.find((s) => s.uuid === targetSnippet.uuid && s.fullPath !== targetSnippet.fullPath)
+        : undefined
+      if (renamedSnippet) {
+        // 原路径保留在删除列表中，按新路径保存（uuid 不变）
+        snippetsToAdd.push(targetSnippet)
+        continue
+      }
+
+      // 【修复】通过fullPath匹配，如果不匹配则尝试通过name和filePath匹配
       let currentSnippet = currentSnippets.find((s) => s.fullPath === targetSnippet.fullPath)
       console.log(`   通过fullPath匹配: ${currentSnippet ? '找到' : '未找到'}`)
 
@@ -1477,9 +1499,13 @@ export class DataSyncManager {
         snippetsToAdd.push(targetSnippet)
       } else {
         // 检查是否需要更新
-        if (this.hasSnippetContentDifference(currentSnippet, targetSnippet)) {
+        if (
+          this.hasSnippetContentDifference(currentSnippet, targetSnippet) ||
+          (targetSnippet.uuid && targetSnippet.uuid !== currentSnippet.uuid)
+        ) {
           console.log(`   🔄 决策: 更新片段 (检测到内容差异)`)
-          snippetsToUpdate.push(targetSnippet)
+          // Git 中没有 uuid 的旧数据沿用本地的 uuid
+          snippetsToUpdate.push(targetSnippet.uuid ? targetSnippet : { ...targetSnippet, uuid: currentSnippet.uuid })
         } else {
           console.log(`   ✅ 决策: 无需更新 (内容相同)`)
         }
@@ -1500,6 +1526,15 @@ export class DataSyncManager {
     const directoriesToDelete: Directory[] = [...currentDirectories] // 先假设全部要删除
 
     for (const targetDirectory of targetDirectories) {
+      const renamedDirectory = targetDirectory.uuid
+        ? currentDirectories.find((d) => d.uuid === targetDirectory.uuid && d.fullPath !== targetDirectory.fullPath)
+        : undefined
+      if (renamedDirectory) {
+        // 重命名或移动的目录：原路径保留在删除列表中，按新路径创建
+        directoriesToAdd.push(targetDirectory)
+        continue
+      }
+
       const currentDirectory = currentDirectories.find((d) => d.fullPath === targetDirectory.fullPath)
 
       if (!currentDirectory) {
@@ -1507,8 +1542,13 @@ export class DataSyncManager {
         directoriesToAdd.push(targetDirectory)
       } else {
         // 检查是否需要更新
-        if (this.hasDirectoryContentDifference(currentDirectory, targetDirectory)) {
-          directoriesToUpdate.push(targetDirectory)
+        if (
+          this.hasDirectoryContentDifference(currentDirectory, targetDirectory) ||
+          (targetDirectory.uuid && targetDirectory.uuid !== currentDirectory.uuid)
+        ) {
+          directoriesToUpdate.push(
+            targetDirectory.uuid ? targetDirectory : { ...targetDirectory, uuid: currentDirectory.uuid }
+          )
         }
 
         // 从删除列表中移除（因为目标中存在）
@@ -1549,23 +1589,23 @@ export class DataSyncManager {
       throw new Error('StorageManager 未初始化')
     }
 
-    // 首先创建新目录
+    // 首先删除不需要的目录（重命名或移动的目录在新路径下以相同的 uuid 重新创建）
+    for (const directory of changeSet.directoriesToDelete) {
+      console.log(`🗑️ 删除目录: ${directory.fullPath}`)
+      await this.storageManager.deleteDirectory(directory.fullPath)
+    }
+
+    // 然后创建新目录
     for (const directory of changeSet.directoriesToAdd) {
       console.log(`➕ 创建目录: ${directory.fullPath}`)
       await this.storageManager.createDirectory(directory)
     }
 
-    // 然后更新现有目录
+    // 最后更新现有目录
     for (const directory of changeSet.directoriesToUpdate) {
       console.log(`🔄 更新目录: ${directory.fullPath}`)
       await this.storageManager.updateDirectory(directory)
     }
-
-    // 最后删除不需要的目录
-    for (const directory of changeSet.directoriesToDelete) {
-      console.log(`🗑️ 删除目录: ${directory.fullPath}`)
-      await this.storageManager.deleteDirectory(directory.fullPath)
-    }
   }
 
   /**
@@ -3,16 +3,31 @@ import * as path from 'path'
 import * as crypto from 'crypto'
 import { CodeSnippet, Directory } from '../../types/types'
 import { SettingsManager } from '../settingsManager'
+import { normalizeTags } from '../tagUtils'
+import { hasSnippetMetadataDifference } from '../snippetMetadataUtils'
+import { findMatchingItem } from '../snippetIdentityUtils'
+import { TrashManager } from '../trashManager'
+import { withLanguageSuffix } from '../languageUtils'
 
 /**
- * 极简文件系统管理器 - 纯代码文件存储版本
- * 负责Git仓库的纯代码文件操作，不存储任何元数据
+ * 目录信息文件名，每个目录下一个，用于保存目录名称、排序并保留空目录
+ */
+const DIRECTORY_MARKER_FILE = '.starcode-directory.json'
+
+/**
+ * 备份目录在Git本地排除列表中的规则
+ */
+const BACKUP_EXCLUDE_PATTERN = '/.backup-*/'
+
+/**
+ * 极简文件系统管理器 - 代码文件存储版本
+ * 负责Git仓库的代码文件操作
  * 
  * 设计原则：
- * - Git仓库只存储纯代码文件
- * - 所有元数据（名称、分类、时间戳等）保存在VSCode本地存储
+ * - 每个代码片段一个Markdown代码块文件，文件头部的元数据块保存名称、排序、时间戳、描述、标签等属性
+ * - 每个目录下的 .starcode-directory.json 保存目录名称和排序，使空目录也能同步
  * - 通过gitPath字段建立映射关系
- * - 目录结构从文件系统直接推导
+ * - 没有元数据的旧文件仍从文件系统直接推导
  */
 export class FileSystemManager {
 
@@ -57,8 +72,14 @@ export class FileSystemManager {
       // 验证输入数据
       await this.validateInputData(snippets, directories)
 
+      // 回收站中的条目在彻底删除前保留其在仓库中的文件，不作为删除推送
+      const trashed = TrashManager.getTrashedItems()
+
       // 【修复】智能文件更新：只更新有变更的文件，而不是删除重建
-      await this.smartUpdateCodeFiles(effectiveLocalPath, snippets)
+      await this.smartUpdateCodeFiles(effectiveLocalPath, snippets, trashed.snippets)
+
+      // 写入目录信息，保留目录排序和空目录
+      this.updateDirectoryMarkers(effectiveLocalPath, directories, trashed.directories)
 
       console.log(`✅ Git仓库数据写入完成`)
 
@@ -81,11 +102,20 @@ export class FileSystemManager {
         return { snippets: [], directories: [] }
       }
 
-      // 扫描代码文件
-      const snippets = await this.scanCodeFiles(effectiveLocalPath)
+      // 扫描代码文件，回收站中的条目不作为现有数据返回
+      const trashed = TrashManager.getTrashedItems()
+      const snippets = this.excludeTrashedItems(
+        this.clearDuplicateUuids(await this.scanCodeFiles(effectiveLocalPath)),
+        trashed.snippets
+      )
       
-      // 从文件结构推导目录
-      const directories = this.deriveDirectoriesFromFiles(snippets)
+      // 从文件结构和目录信息文件推导目录
+      const directoryMarkers = this.scanDirectoryMarkers(effectiveLocalPath)
+      const directories = this.excludeTrashedItems(
+        this.clearDuplicateUuids(this.deriveDirectoriesFromFiles(snippets, directoryMarkers)),
+        trashed.directories.map((d) => ({ ...d, fullPath: d.fullPath.replace(/\/$/, '') })),
+        (d) => ({ ...d, fullPath: d.fullPath.replace(/\/$/, '') })
+      )
 
       console.log(`✅ Git仓库数据读取完成: ${snippets.length} 个代码片段, ${directories.length} 个目录`)
       return { snippets, directories }
@@ -200,36 +230,11 @@ export class FileSystemManager {
    * 写入纯代码文件
    */
   private async writeCodeFiles(repoPath: string, snippets: CodeSnippet[]): Promise<void> {
-    // 使用基础名称（不含扩展名）作为唯一性判断依据
-    const processedSnippets = new Map<string, CodeSnippet>()
-    
-    for (const snippet of snippets) {
-      try {
-        const gitPath = this.generateGitPath(snippet)
-        const baseKey = this.getSnippetBaseKey(gitPath)
-        
-        // 检查是否已有同名片段（基于基础名称）
-        if (processedSnippets.has(baseKey)) {
-          const existingSnippet = processedSnippets.get(baseKey)!
-          console.log(`⚠️ 发现同名代码片段: ${snippet.name}，将合并内容`)
-          
-          // 合并逻辑：保留更新的内容，或合并两者
-          const mergedSnippet = this.mergeSnippets(existingSnippet, snippet)
-          processedSnippets.set(baseKey, mergedSnippet)
-        } else {
-          processedSnippets.set(baseKey, snippet)
-        }
-        
-      } catch (error) {
-        console.error(`❌ 处理代码片段失败 ${snippet.name}:`, error)
-        throw error
-      }
-    }
+    const processedSnippets = this.resolveSnippetGitPaths(snippets)
     
     // 写入合并后的代码片段
-    for (const [baseKey, snippet] of processedSnippets) {
+    for (const [gitPath, snippet] of processedSnippets) {
       try {
-        const gitPath = this.generateGitPath(snippet)
         const fullFilePath = path.join(repoPath, gitPath)
         const dirPath = path.dirname(fullFilePath)
         
@@ -254,7 +259,11 @@ export class FileSystemManager {
    * 【新增】智能文件更新：检测变更并只更新必要的文件
    * 这样可以确保Git能够正确检测到语言变更（文件扩展名变更）
    */
-  private async smartUpdateCodeFiles(repoPath: string, snippets: CodeSnippet[]): Promise<void> {
+  private async smartUpdateCodeFiles(
+    repoPath: string,
+    snippets: CodeSnippet[],
+    trashedSnippets: CodeSnippet[] = []
+  ): Promise<void> {
     // 确保仓库目录存在
     if (!fs.existsSync(repoPath)) {
       fs.mkdirSync(repoPath, { recursive: true })
@@ -264,40 +273,25 @@ export class FileSystemManager {
     const existingFiles = this.scanExistingCodeFiles(repoPath)
     console.log(`📋 扫描到现有文件: ${existingFiles.size} 个`)
 
-    // 第二步：处理同名片段合并
-    const processedSnippets = new Map<string, CodeSnippet>()
-    
-    for (const snippet of snippets) {
-      try {
-        const gitPath = this.generateGitPath(snippet)
-        const baseKey = this.getSnippetBaseKey(gitPath)
-        
-        // 检查是否已有同名片段（基于基础名称）
-        if (processedSnippets.has(baseKey)) {
-          const existingSnippet = processedSnippets.get(baseKey)!
-          console.log(`⚠️ 发现同名代码片段: ${snippet.name}，将合并内容`)
-          
-          // 合并逻辑：保留更新的内容，或合并两者
-          const mergedSnippet = this.mergeSnippets(existingSnippet, snippet)
-          processedSnippets.set(baseKey, mergedSnippet)
-        } else {
-          processedSnippets.set(baseKey, snippet)
-        }
-        
-      } catch (error) {
-        console.error(`❌ 处理代码片段失败 ${snippet.name}:`, error)
-        throw error
-      }
-    }
+    // 第二步：处理同名片段合并，确定每个代码片段的文件路径
+    const processedSnippets = this.resolveSnippetGitPaths([...snippets, ...trashedSnippets])
+    const trashedSet = new Set(trashedSnippets)
 
     // 第三步：分析变更需求
     const requiredFiles = new Set<string>()
     const changedFiles: string[] = []
     const newFiles: string[] = []
 
-    for (const [baseKey, snippet] of processedSnippets) {
-      const gitPath = this.generateGitPath(snippet)
+    for (const [gitPath, snippet] of processedSnippets) {
       const fullFilePath = path.join(repoPath, gitPath)
+
+      // 回收站中的代码片段只保留已有文件，不创建也不更新
+      if (trashedSet.has(snippet)) {
+        if (existingFiles.has(gitPath)) {
+          requiredFiles.add(gitPath)
+        }
+        continue
+      }
       
       requiredFiles.add(gitPath)
 
@@ -485,6 +479,61 @@ export class FileSystemManager {
     }
   }
 
+  /**
+   * 合并同名代码片段并确定每个代码片段在Git仓库中的文件路径
+   * 同一目录下名称相同（清理后）且语言相同的代码片段合并为一个文件；
+   * 名称相同但语言不同的代码片段分别写入带语言扩展名的文件，如 debounce.ts、debounce.py
+   */
+  private resolveSnippetGitPaths(snippets: CodeSnippet[]): Map<string, CodeSnippet> {
+    // 基础路径 -> 语言 -> 代码片段
+    const groups = new Map<string, Map<string, CodeSnippet>>()
+
+    for (const snippet of snippets) {
+      try {
+        const baseKey = this.getSnippetBaseKey(this.generateGitPath(snippet))
+        const language = this.normalizeLanguageId(snippet.language || 'plaintext')
+        const variants = groups.get(baseKey) || new Map<string, CodeSnippet>()
+        groups.set(baseKey, variants)
+
+        // 检查是否已有同名同语言片段（基于基础名称）
+        const existingSnippet = variants.get(language)
+        if (existingSnippet) {
+          console.log(`⚠️ 发现同名代码片段: ${snippet.name}，将合并内容`)
+          
+          // 合并逻辑：保留更新的内容，或合并两者
+          variants.set(language, this.mergeSnippets(existingSnippet, snippet))
+        } else {
+          variants.set(language, snippet)
+        }
+      } catch (error) {
+        console.error(`❌ 处理代码片段失败 ${snippet.name}:`, error)
+        throw error
+      }
+    }
+
+    const resolved = new Map<string, CodeSnippet>()
+    for (const [baseKey, variants] of groups) {
+      if (variants.size === 1) {
+        const [snippet] = variants.values()
+        resolved.set(this.generateGitPath(snippet), snippet)
+        continue
+      }
+
+      for (const [language, snippet] of variants) {
+        resolved.set(`${baseKey}${this.getLanguageFileExtension(language)}`, snippet)
+      }
+    }
+
+    return resolved
+  }
+
+  /**
+   * 获取区分同名代码片段时使用的文件扩展名
+   */
+  private getLanguageFileExtension(language: string): string {
+    return this.languageExtensionMap[language] || `.${this.sanitizeFileName(language)}`
+  }
+
   /**
    * 获取代码片段的基础键值（用于唯一性判断）
    * 基于目录路径 + 基础文件名（不含扩展名）
@@ -514,7 +563,17 @@ export class FileSystemManager {
       filePath: incoming.filePath || existing.filePath,
       category: incoming.category || existing.category,
       order: Math.max(existing.order || 0, incoming.order || 0),
-      createTime: Math.max(existingTime, incomingTime)
+      createTime: Math.max(existingTime, incomingTime),
+      prefix: incoming.prefix || existing.prefix,
+      description: incoming.description || existing.description,
+      insertAsPlainText: incoming.insertAsPlainText ?? existing.insertAsPlainText,
+      uuid: existing.uuid || incoming.uuid
+    }
+
+    // 合并双方的标签
+    const tags = normalizeTags([...(existing.tags || []), ...(incoming.tags || [])])
+    if (tags.length > 0) {
+      merged.tags = tags
     }
     
     console.log(`🔀 合并代码片段: ${existing.name} + ${incoming.name} -> ${merged.name}`)
@@ -553,26 +612,125 @@ export class FileSystemManager {
           // 创建代码片段对象
           const snippet = this.createSnippetFromFile(fullEntryPath, entryRelativePath)
           if (snippet) {
-            const baseKey = this.getSnippetBaseKey(entryRelativePath)
-            
-            // 检查是否已有同名片段（读取时的合并逻辑）
-            if (snippetMap.has(baseKey)) {
-              const existingSnippet = snippetMap.get(baseKey)!
-              console.log(`⚠️ 读取时发现同名代码片段: ${snippet.name}，将合并`)
-              
-              // 合并时选择更完整或更新的版本
-              const mergedSnippet = this.mergeSnippetsOnRead(existingSnippet, snippet)
-              snippetMap.set(baseKey, mergedSnippet)
-            } else {
-              snippetMap.set(baseKey, snippet)
-            }
+            this.addScannedSnippet(snippetMap, snippet, entryRelativePath)
           }
         }
       }
     }
     
     scanDir(repoPath)
-    return Array.from(snippetMap.values())
+    return this.ensureUniqueFullPaths(Array.from(snippetMap.values()))
+  }
+
+  /**
+   * 将扫描到的代码片段加入结果，同名且同语言的代码片段合并为一个
+   */
+  private addScannedSnippet(snippetMap: Map<string, CodeSnippet>, snippet: CodeSnippet, gitPath: string): void {
+    // 同名但语言不同的代码片段分别保留
+    const baseKey = `${this.getSnippetBaseKey(gitPath)}|${snippet.language || 'plaintext'}`
+    
+    // 检查是否已有同名片段（读取时的合并逻辑）
+    if (snippetMap.has(baseKey)) {
+      const existingSnippet = snippetMap.get(baseKey)!
+      console.log(`⚠️ 读取时发现同名代码片段: ${snippet.name}，将合并`)
+      
+      // 合并时选择更完整或更新的版本
+      const mergedSnippet = this.mergeSnippetsOnRead(existingSnippet, snippet)
+      snippetMap.set(baseKey, mergedSnippet)
+    } else {
+      snippetMap.set(baseKey, snippet)
+    }
+  }
+
+  /**
+   * 从仓库某一时刻的文件列表重建VSCode数据结构，用于读取历史提交中的数据
+   * readFile 按仓库中的相对路径读取文件内容，没有元数据的代码片段使用 createTime 作为创建时间
+   */
+  public async readFromSnapshot(
+    gitPaths: string[],
+    readFile: (gitPath: string) => Promise<string>,
+    createTime: number
+  ): Promise<{ snippets: CodeSnippet[]; directories: Directory[] }> {
+    const snippetMap = new Map<string, CodeSnippet>()
+    const directoryMarkers = new Map<string, Directory>()
+
+    for (const gitPath of gitPaths) {
+      const dirGitPath = path.posix.dirname(gitPath)
+
+      if (path.posix.basename(gitPath) === DIRECTORY_MARKER_FILE) {
+        // 与扫描工作目录时一致，跳过根目录和隐藏目录中的目录信息文件
+        const isHidden = dirGitPath.split('/').some((segment) => segment.startsWith('.') && segment !== '.vscode')
+        if (dirGitPath !== '.' && !isHidden) {
+          const directory = this.parseDirectoryMarker(await readFile(gitPath), dirGitPath)
+          if (directory) {
+            directoryMarkers.set(dirGitPath, directory)
+          }
+        }
+      } else if (this.isSnippetGitPath(gitPath)) {
+        this.addScannedSnippet(snippetMap, this.parseSnippetContent(await readFile(gitPath), gitPath, createTime), gitPath)
+      }
+    }
+
+    const snippets = this.clearDuplicateUuids(this.ensureUniqueFullPaths(Array.from(snippetMap.values())))
+    const directories = this.clearDuplicateUuids(this.deriveDirectoriesFromFiles(snippets, directoryMarkers))
+    return { snippets, directories }
+  }
+
+  /**
+   * 清除重复的 uuid
+   * 仓库中的文件被手动复制时会出现相同的 uuid，只保留第一个，其余条目保存到本地时会重新分配
+   */
+  private clearDuplicateUuids<T extends { uuid?: string; fullPath: string }>(items: T[]): T[] {
+    const usedUuids = new Set<string>()
+
+    return items.map((item) => {
+      if (!item.uuid) {
+        return item
+      }
+      if (usedUuids.has(item.uuid)) {
+        return { ...item, uuid: undefined }
+      }
+      usedUuids.add(item.uuid)
+      return item
+    })
+  }
+
+  /**
+   * 排除回收站中的条目：按 uuid 匹配，没有 uuid 时按路径匹配
+   */
+  private excludeTrashedItems<T extends { uuid?: string; fullPath: string; name: string }>(
+    items: T[],
+    trashedItems: T[],
+    normalize: (item: T) => T = (item) => item
+  ): T[] {
+    if (trashedItems.length === 0) {
+      return items
+    }
+    return items.filter((item) => !findMatchingItem(trashedItems, normalize(item)))
+  }
+
+  /**
+   * 确保代码片段路径唯一
+   * 没有元数据的同名不同语言文件会推导出相同的路径，此时在名称和路径后同时附加语言加以区分，如 debounce (python)，
+   * 与在本地保存同名不同语言的代码片段时一致。再次写入时Git文件名由新名称生成，之后读取时不再重复
+   */
+  private ensureUniqueFullPaths(snippets: CodeSnippet[]): CodeSnippet[] {
+    const usedPaths = new Set<string>()
+
+    return snippets.map((snippet) => {
+      if (!usedPaths.has(snippet.fullPath)) {
+        usedPaths.add(snippet.fullPath)
+        return snippet
+      }
+
+      const distinguished = {
+        ...snippet,
+        name: withLanguageSuffix(snippet.name, snippet.language),
+        fullPath: withLanguageSuffix(snippet.fullPath, snippet.language),
+      }
+      usedPaths.add(distinguished.fullPath)
+      return distinguished
+    })
   }
 
   /**
@@ -611,19 +769,6 @@ export class FileSystemManager {
   private createSnippetFromFile(filePath: string, gitPath: string): CodeSnippet | null {
     try {
       const fileContent = fs.readFileSync(filePath, 'utf8')
-      const fileName = path.basename(gitPath)
-      
-      // 解析Markdown代码块格式
-      const { language, code } = this.parseMarkdownContent(fileContent)
-      
-      // 从文件名推导用户友好名称（移除.code扩展名）
-      const name = this.generateNameFromFileName(fileName)
-      
-      // 【修复】从Git路径推导VSCode fullPath，确保与原有片段路径一致
-      const fullPath = this.gitPathToVSCodePath(gitPath)
-      
-      console.log(`🔧 createSnippetFromFile: ${gitPath} -> ${fullPath}`)
-      console.log(`   文件名: ${fileName} -> 名称: ${name}`)
       
       // 【修复】使用文件的修改时间作为createTime，保持一致性
       // 而不是生成新的时间戳，这样可以避免时间差异导致的重复问题
@@ -631,28 +776,135 @@ export class FileSystemManager {
       const createTime = stats.mtime.getTime()
       
       console.log(`   使用文件修改时间: ${createTime}`)
-      
-      return {
-        name,
-        code,
-        language,
-        fullPath,
-        fileName,
-        filePath: path.dirname(gitPath),
-        category: '',
-        order: 0,
-        createTime
-      }
+
+      return this.parseSnippetContent(fileContent, gitPath, createTime)
     } catch (error) {
       console.error(`解析代码文件失败: ${filePath}`, error)
       return null
     }
   }
 
+  /**
+   * 从代码文件内容创建代码片段对象，也用于解析历史提交中的文件
+   * 文件没有元数据时使用 createTime 作为创建时间
+   */
+  public parseSnippetContent(fileContent: string, gitPath: string, createTime: number = Date.now()): CodeSnippet {
+    const fileName = path.basename(gitPath)
+    
+    // 解析Markdown代码块格式
+    const { language, code, metadata } = this.parseMarkdownContent(fileContent)
+    
+    // 从文件名推导用户友好名称（移除.code扩展名）
+    const name = this.generateNameFromFileName(fileName)
+    
+    // 【修复】从Git路径推导VSCode fullPath，确保与原有片段路径一致
+    const fullPath = this.gitPathToVSCodePath(gitPath)
+    
+    console.log(`🔧 parseSnippetContent: ${gitPath} -> ${fullPath}`)
+    console.log(`   文件名: ${fileName} -> 名称: ${name}`)
+    
+    const snippet: CodeSnippet = {
+      name,
+      code,
+      language,
+      fullPath,
+      fileName,
+      filePath: path.dirname(gitPath),
+      category: '',
+      order: 0,
+      createTime
+    }
+
+    return this.applyFrontMatter(snippet, metadata, gitPath)
+  }
+
+  /**
+   * 判断仓库中的文件是否为代码片段文件（排除隐藏文件、目录信息文件和说明文件）
+   */
+  public isSnippetGitPath(gitPath: string): boolean {
+    const segments = gitPath.split('/')
+    const fileName = segments[segments.length - 1]
+    return (
+      !segments.some((segment) => segment.startsWith('.') && segment !== '.vscode') &&
+      !fileName.startsWith('.') &&
+      fileName !== 'README.md' &&
+      fileName !== 'LICENSE'
+    )
+  }
+
+  /**
+   * 查找代码片段在Git仓库中对应的文件路径，按 uuid 或路径匹配
+   */
+  public async findSnippetGitPath(snippet: CodeSnippet): Promise<string | undefined> {
+    const repoPath = SettingsManager.getEffectiveLocalPath()
+    if (!fs.existsSync(repoPath)) {
+      return undefined
+    }
+
+    const match = findMatchingItem(await this.scanCodeFiles(repoPath), snippet)
+    if (!match) {
+      return undefined
+    }
+    return match.filePath && match.filePath !== '.' ? `${match.filePath}/${match.fileName}` : match.fileName
+  }
+
+  /**
+   * 用文件头部的元数据还原代码片段属性
+   * 名称和路径仅在与文件实际位置一致时采用，避免文件在仓库中被手动移动或重命名后路径错乱
+   */
+  private applyFrontMatter(snippet: CodeSnippet, metadata: Record<string, any>, gitPath: string): CodeSnippet {
+    const restored: CodeSnippet = { ...snippet }
+
+    if (typeof metadata.name === 'string' && typeof metadata.fullPath === 'string') {
+      // 同名不同语言的文件带有语言扩展名，比较时忽略
+      const candidate = { ...snippet, name: metadata.name, fullPath: metadata.fullPath }
+      if (this.generateGitPath(candidate) === this.getSnippetBaseKey(gitPath)) {
+        restored.name = metadata.name
+        restored.fullPath = metadata.fullPath
+      }
+    }
+
+    if (typeof metadata.uuid === 'string' && metadata.uuid) {
+      restored.uuid = metadata.uuid
+    }
+    if (typeof metadata.category === 'string') {
+      restored.category = metadata.category
+    }
+    if (typeof metadata.order === 'number') {
+      restored.order = metadata.order
+    }
+    if (typeof metadata.createTime === 'number') {
+      restored.createTime = metadata.createTime
+    }
+    if (typeof metadata.language === 'string') {
+      restored.language = metadata.language
+    }
+    if (typeof metadata.prefix === 'string') {
+      restored.prefix = metadata.prefix
+    }
+    if (typeof metadata.description === 'string') {
+      restored.description = metadata.description
+    }
+    if (metadata.insertAsPlainText === true) {
+      restored.insertAsPlainText = true
+    }
+
+    const tags = normalizeTags(Array.isArray(metadata.tags) ? metadata.tags : undefined)
+    if (tags.length > 0) {
+      restored.tags = tags
+    }
+
+    return restored
+  }
+
   /**
    * 从文件结构推导目录列表
+   * 有目录信息文件的目录使用其中保存的名称、路径和排序，只有目录信息文件的空目录也会被保留
    */
-  private deriveDirectoriesFromFiles(snippets: CodeSnippet[]): Directory[] {
+  private deriveDirectoriesFromFiles(
+    snippets: CodeSnippet[],
+    directoryMarkers: Map<string, Directory> = new Map()
+  ): Directory[] {
     const directories: Directory[] = []
     const processedPaths = new Set<string>()
     
@@ -662,11 +914,12 @@ export class FileSystemManager {
       
       for (let i = 1; i < pathParts.length; i++) {
         const dirPath = '/' + pathParts.slice(0, i).join('/')
+        const dirGitPath = this.generateDirectoryGitPath(dirPath)
         
-        if (!processedPaths.has(dirPath)) {
-          processedPaths.add(dirPath)
+        if (!processedPaths.has(dirGitPath)) {
+          processedPaths.add(dirGitPath)
           
-          directories.push({
+          directories.push(directoryMarkers.get(dirGitPath) || {
             name: pathParts[i - 1],
             fullPath: dirPath,
             order: 0
@@ -674,10 +927,153 @@ export class FileSystemManager {
         }
       }
     }
+
+    // 没有代码片段的空目录
+    for (const [dirGitPath, directory] of directoryMarkers) {
+      if (!processedPaths.has(dirGitPath)) {
+        processedPaths.add(dirGitPath)
+        directories.push(directory)
+      }
+    }
     
     return directories
   }
 
+  /**
+   * 生成目录在Git仓库中的路径
+   */
+  private generateDirectoryGitPath(fullPath: string): string {
+    return fullPath
+      .split('/')
+      .filter(p => p)
+      .map(p => this.sanitizeFileName(p))
+      .join('/')
+  }
+
+  /**
+   * 写入每个目录的目录信息文件，并删除已不存在的目录的信息文件
+   * 回收站中目录的信息文件保持不变
+   */
+  private updateDirectoryMarkers(repoPath: string, directories: Directory[], trashedDirectories: Directory[] = []): void {
+    const requiredMarkers = new Set<string>(
+      trashedDirectories.map((directory) => this.generateDirectoryGitPath(directory.fullPath)).filter((p) => p)
+    )
+
+    for (const directory of directories) {
+      const dirGitPath = this.generateDirectoryGitPath(directory.fullPath)
+      if (!dirGitPath) {
+        continue
+      }
+
+      requiredMarkers.add(dirGitPath)
+      const markerPath = path.join(repoPath, dirGitPath, DIRECTORY_MARKER_FILE)
+      const content = JSON.stringify(
+        { uuid: directory.uuid || undefined, name: directory.name, fullPath: directory.fullPath, order: directory.order || 0 },
+        null,
+        2
+      ) + '\n'
+
+      if (!fs.existsSync(markerPath) || fs.readFileSync(markerPath, 'utf8') !== content) {
+        fs.mkdirSync(path.dirname(markerPath), { recursive: true })
+        fs.writeFileSync(markerPath, content, 'utf8')
+      }
+    }
+
+    for (const dirGitPath of this.scanDirectoryMarkers(repoPath).keys()) {
+      if (!requiredMarkers.has(dirGitPath)) {
+        try {
+          fs.unlinkSync(path.join(repoPath, dirGitPath, DIRECTORY_MARKER_FILE))
+        } catch (error) {
+          console.warn(`⚠️ 删除目录信息失败 ${dirGitPath}:`, error)
+        }
+      }
+    }
+
+    this.removeEmptyDirectories(repoPath)
+  }
+
+  /**
+   * 扫描仓库中的目录信息文件
+   * 返回 Git目录路径 -> 目录 的映射，信息中的路径与实际位置不一致时以实际位置为准
+   */
+  private scanDirectoryMarkers(repoPath: string): Map<string, Directory> {
+    const markers = new Map<string, Directory>()
+
+    if (!fs.existsSync(repoPath)) {
+      return markers
+    }
+
+    const scanDir = (currentPath: string, relativePath: string = '') => {
+      const entries = fs.readdirSync(currentPath, { withFileTypes: true })
+
+      for (const entry of entries) {
+        if (!entry.isDirectory() || (entry.name.startsWith('.') && entry.name !== '.vscode')) {
+          continue
+        }
+
+        const fullEntryPath = path.join(currentPath, entry.name)
+        const entryRelativePath = relativePath ? `${relativePath}/${entry.name}` : entry.name
+        const markerPath = path.join(fullEntryPath, DIRECTORY_MARKER_FILE)
+
+        if (fs.existsSync(markerPath)) {
+          const directory = this.parseDirectoryMarker(fs.readFileSync(markerPath, 'utf8'), entryRelativePath)
+          if (directory) {
+            markers.set(entryRelativePath, directory)
+          }
+        }
+
+        scanDir(fullEntryPath, entryRelativePath)
+      }
+    }
+
+    scanDir(repoPath)
+    return markers
+  }
+
+  /**
+   * 解析目录信息文件，信息中的路径与实际位置不一致时以实际位置为准，解析失败时返回 null
+   */
+  private parseDirectoryMarker(content: string, dirGitPath: string): Directory | null {
+    try {
+      const marker = JSON.parse(content)
+      const isConsistent =
+        typeof marker.fullPath === 'string' && this.generateDirectoryGitPath(marker.fullPath) === dirGitPath
+      const directory: Directory = {
+        name: isConsistent && typeof marker.name === 'string' ? marker.name : path.posix.basename(dirGitPath),
+        fullPath: isConsistent ? marker.fullPath : `/${dirGitPath}`,
+        order: typeof marker.order === 'number' ? marker.order : 0
+      }
+      if (typeof marker.uuid === 'string' && marker.uuid) {
+        directory.uuid = marker.uuid
+      }
+      return directory
+    } catch (error) {
+      console.warn(`解析目录信息失败 ${dirGitPath}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * 删除仓库中的空目录（跳过.git等隐藏目录）
+   */
+  private removeEmptyDirectories(repoPath: string): void {
+    const removeIfEmpty = (dirPath: string) => {
+      for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+        if (entry.isDirectory() && !entry.name.startsWith('.')) {
+          removeIfEmpty(path.join(dirPath, entry.name))
+        }
+      }
+
+      if (dirPath !== repoPath && fs.readdirSync(dirPath).length === 0) {
+        fs.rmdirSync(dirPath)
+      }
+    }
+
+    if (fs.existsSync(repoPath)) {
+      removeIfEmpty(repoPath)
+    }
+  }
+
   /**
    * 生成Git仓库中的文件路径
    */
@@ -709,10 +1105,10 @@ export class FileSystemManager {
   }
 
   /**
-   * 生成Markdown代码块格式内容
+   * 生成代码片段文件内容（元数据块和Markdown代码块），与 parseSnippetContent 对应
    * 不对用户代码内容进行任何修改，保持用户的空行和空格
    */
-  private generateMarkdownContent(snippet: CodeSnippet): string {
+  public generateMarkdownContent(snippet: CodeSnippet): string {
     // 规范化语言ID，避免写入无效的语言ID到Git文件
     const normalizedLanguage = this.normalizeLanguageId(snippet.language || 'plaintext')
     const code = snippet.code || ''
@@ -720,15 +1116,88 @@ export class FileSystemManager {
     // 【重要修复】严格按照markdown格式生成，不在代码前后额外添加换行符
     // 格式: ```language\n{用户代码内容}```
     // 注意：用户代码内容不做任何修改，完全保持原样
-    return `\`\`\`${normalizedLanguage}\n${code}\`\`\``
+    return `${this.generateFrontMatter(snippet)}\`\`\`${normalizedLanguage}\n${code}\`\`\``
+  }
+
+  /**
+   * 生成文件头部的元数据块
+   * 格式: ---\n键: JSON值\n---\n，每个属性一行，便于Git按行合并
+   */
+  private generateFrontMatter(snippet: CodeSnippet): string {
+    const tags = normalizeTags(snippet.tags)
+    const normalizedLanguage = this.normalizeLanguageId(snippet.language || 'plaintext')
+
+    const metadata: Record<string, unknown> = {
+      uuid: snippet.uuid || undefined,
+      name: snippet.name,
+      fullPath: snippet.fullPath,
+      category: snippet.category || undefined,
+      order: snippet.order || 0,
+      createTime: snippet.createTime,
+      // 代码块标记中的语言经过规范化，与原始语言不同时才单独保存
+      language: snippet.language && snippet.language !== normalizedLanguage ? snippet.language : undefined,
+      prefix: snippet.prefix || undefined,
+      description: snippet.description || undefined,
+      insertAsPlainText: snippet.insertAsPlainText || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+    }
+
+    const lines = Object.entries(metadata)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    return `---\n${lines.join('\n')}\n---\n`
+  }
+
+  /**
+   * 拆分文件头部的元数据块和Markdown代码块
+   * 只有元数据块之后紧跟代码块时才视为元数据，避免误解析以 --- 开头的普通文本
+   */
+  private splitFrontMatter(content: string): { metadata: Record<string, any>; body: string } {
+    const normalized = content.replace(/^\uFEFF/, '')
+    if (!normalized.startsWith('---\n') && !normalized.startsWith('---\r\n')) {
+      return { metadata: {}, body: content }
+    }
+
+    const match = normalized.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/)
+    if (!match || !normalized.substring(match[0].length).startsWith('```')) {
+      return { metadata: {}, body: content }
+    }
+
+    const metadata: Record<string, any> = {}
+    for (const line of match[1].split(/\r?\n/)) {
+      const separatorIndex = line.indexOf(':')
+      if (separatorIndex <= 0) {
+        continue
+      }
+      const key = line.substring(0, separatorIndex).trim()
+      const rawValue = line.substring(separatorIndex + 1).trim()
+      try {
+        metadata[key] = JSON.parse(rawValue)
+      } catch {
+        metadata[key] = rawValue
+      }
+    }
+
+    return { metadata, body: normalized.substring(match[0].length) }
+  }
+
+  /**
+   * 解析Markdown代码块格式内容（包括可选的元数据块）
+   */
+  private parseMarkdownContent(content: string): { language: string; code: string; metadata: Record<string, any> } {
+    const { metadata, body } = this.splitFrontMatter(content)
+    return {
+      ...this.parseCodeBlock(body),
+      metadata,
+    }
   }
 
   /**
-   * 解析Markdown代码块格式内容
+   * 解析Markdown代码块
    * 使用原始字符串操作，避免正则表达式的问题
    */
-  private parseMarkdownContent(content: string): { language: string; code: string } {
-    console.log('🔧 parseMarkdownContent 调试:')
+  private parseCodeBlock(content: string): { language: string; code: string } {
+    console.log('🔧 parseCodeBlock 调试:')
     console.log(`   原始内容长度: ${content.length}`)
     console.log(`   原始内容前30字符: "${content.substring(0, 30)}"`)
     console.log(`   原始内容后30字符: "${content.slice(-30)}"`)
@@ -1030,6 +1499,7 @@ export class FileSystemManager {
       
       // 创建备份目录
       fs.mkdirSync(backupDir, { recursive: true })
+      this.excludeBackupsFromGit(effectiveLocalPath)
       
       // 复制所有非Git和非备份文件
       await this.copyDirectoryContents(effectiveLocalPath, backupDir, ['.git', '.backup-'])
@@ -1042,6 +1512,22 @@ export class FileSystemManager {
     }
   }
 
+  /**
+   * 将备份目录加入仓库的本地排除列表，避免保留的备份在同步时被提交
+   */
+  private excludeBackupsFromGit(repoPath: string): void {
+    const excludePath = path.join(repoPath, '.git', 'info', 'exclude')
+    if (!fs.existsSync(path.join(repoPath, '.git'))) {
+      return
+    }
+
+    const content = fs.existsSync(excludePath) ? fs.readFileSync(excludePath, 'utf8') : ''
+    if (!content.split('\n').includes(BACKUP_EXCLUDE_PATTERN)) {
+      fs.mkdirSync(path.dirname(excludePath), { recursive: true })
+      fs.writeFileSync(excludePath, `${content}${content && !content.endsWith('\n') ? '\n' : ''}${BACKUP_EXCLUDE_PATTERN}\n`, 'utf8')
+    }
+  }
+
   /**
    * 恢复备份
    */
@@ -1148,7 +1634,8 @@ export class FileSystemManager {
     return (
       local.name !== remote.name ||
       local.code !== remote.code ||
-      local.language !== remote.language
+      local.language !== remote.language ||
+      hasSnippetMetadataDifference(local, remote)
     )
   }
 
@@ -1,5 +1,7 @@
 import { SimpleGit } from 'simple-git'
 import { CodeSnippet, Directory } from '../../types/types'
+import { hasSnippetMetadataDifference } from '../snippetMetadataUtils'
+import { findMatchingItem, getItemIdentity, mergeMovedItem } from '../snippetIdentityUtils'
 
 /**
  * Git 标准三路合并器
@@ -129,19 +131,22 @@ export class GitStandardMerger {
     const deleted: CodeSnippet[] = []
     const unchanged: CodeSnippet[] = []
 
-    // 创建映射便于查找
-    const baseMap = new Map(baseSnippets.map(s => [s.fullPath, s]))
-    const targetMap = new Map(targetSnippets.map(s => [s.fullPath, s]))
+    // 记录已匹配的基线代码片段
+    const matchedBaseSnippets = new Set<CodeSnippet>()
 
-    // 分析目标中的每个代码片段
+    // 分析目标中的每个代码片段（按 uuid 匹配基线，重命名或移动视为修改）
     for (const targetSnippet of targetSnippets) {
-      const baseSnippet = baseMap.get(targetSnippet.fullPath)
+      const baseSnippet = findMatchingItem(baseSnippets, targetSnippet)
       
       if (!baseSnippet) {
         // 新增的代码片段
         added.push(targetSnippet)
-      } else if (this.hasContentDifference(baseSnippet, targetSnippet)) {
+      } else if (
+        baseSnippet.fullPath !== targetSnippet.fullPath ||
+        this.hasContentDifference(baseSnippet, targetSnippet)
+      ) {
         // 修改的代码片段
+        matchedBaseSnippets.add(baseSnippet)
         modified.push({
           fullPath: targetSnippet.fullPath,
           baseVersion: baseSnippet,
@@ -150,13 +155,14 @@ export class GitStandardMerger {
         })
       } else {
         // 未变更的代码片段
+        matchedBaseSnippets.add(baseSnippet)
         unchanged.push(targetSnippet)
       }
     }
 
     // 查找删除的代码片段
     for (const baseSnippet of baseSnippets) {
-      if (!targetMap.has(baseSnippet.fullPath)) {
+      if (!matchedBaseSnippets.has(baseSnippet)) {
         deleted.push(baseSnippet)
       }
     }
@@ -182,16 +188,29 @@ export class GitStandardMerger {
   public detectConflicts(localChanges: GitChangeSet, remoteChanges: GitChangeSet): GitConflict[] {
     const conflicts: GitConflict[] = []
 
-    // 创建本地变更的映射
-    const localModifiedMap = new Map(localChanges.modified.map(m => [m.fullPath, m]))
+    // 创建本地变更的映射（修改和删除按基线版本的标识匹配，重命名后仍能对应）
+    const localModifiedMap = new Map(localChanges.modified.map(m => [getItemIdentity(m.baseVersion), m]))
     const localAddedSet = new Set(localChanges.added.map(s => s.fullPath))
-    const localDeletedSet = new Set(localChanges.deleted.map(s => s.fullPath))
+    const localDeletedSet = new Set(localChanges.deleted.map(s => getItemIdentity(s)))
 
     // 检测修改-修改冲突
     for (const remoteModification of remoteChanges.modified) {
-      const localModification = localModifiedMap.get(remoteModification.fullPath)
+      const localModification = localModifiedMap.get(getItemIdentity(remoteModification.baseVersion))
       
       if (localModification) {
+        // 一方只重命名或移动、另一方修改了内容时，双方都采用应用了新位置的修改版本
+        const movedSnippet = mergeMovedItem(
+          remoteModification.baseVersion,
+          localModification.targetVersion,
+          remoteModification.targetVersion,
+          (a, b) => this.hasContentDifference(a, b)
+        )
+        if (movedSnippet) {
+          localModification.targetVersion = movedSnippet
+          remoteModification.targetVersion = movedSnippet
+          continue
+        }
+
         // 双方都修改了同一文件
         if (!this.isSameChange(localModification.targetVersion, remoteModification.targetVersion)) {
           conflicts.push({
@@ -224,7 +243,7 @@ export class GitStandardMerger {
 
     // 检测修改-删除冲突
     for (const remoteModification of remoteChanges.modified) {
-      if (localDeletedSet.has(remoteModification.fullPath)) {
+      if (localDeletedSet.has(getItemIdentity(remoteModification.baseVersion))) {
         conflicts.push({
           type: 'modify-delete',
           fullPath: remoteModification.fullPath,
@@ -237,8 +256,8 @@ export class GitStandardMerger {
 
     // 检测删除-修改冲突
     for (const localModification of localChanges.modified) {
-      const remoteDeletedSet = new Set(remoteChanges.deleted.map(s => s.fullPath))
-      if (remoteDeletedSet.has(localModification.fullPath)) {
+      const remoteDeletedSet = new Set(remoteChanges.deleted.map(s => getItemIdentity(s)))
+      if (remoteDeletedSet.has(getItemIdentity(localModification.baseVersion))) {
         conflicts.push({
           type: 'delete-modify',
           fullPath: localModification.fullPath,
@@ -288,7 +307,8 @@ export class GitStandardMerger {
 
     // 应用修改
     for (const modification of changes.modified) {
-      const index = mergedSnippets.findIndex(s => s.fullPath === modification.fullPath)
+      const identity = getItemIdentity(modification.baseVersion)
+      const index = mergedSnippets.findIndex(s => getItemIdentity(s) === identity)
       if (index !== -1) {
         mergedSnippets[index] = modification.targetVersion
         console.log(`   ✅ 应用${side}修改: ${modification.fullPath}`)
@@ -297,7 +317,8 @@ export class GitStandardMerger {
 
     // 应用删除
     for (const deleted of changes.deleted) {
-      const index = mergedSnippets.findIndex(s => s.fullPath === deleted.fullPath)
+      const identity = getItemIdentity(deleted)
+      const index = mergedSnippets.findIndex(s => getItemIdentity(s) === identity)
       if (index !== -1) {
         mergedSnippets.splice(index, 1)
         console.log(`   ✅ 应用${side}删除: ${deleted.fullPath}`)
@@ -312,7 +333,8 @@ export class GitStandardMerger {
     return snippet1.code !== snippet2.code ||
            snippet1.name !== snippet2.name ||
            snippet1.language !== snippet2.language ||
-           snippet1.fileName !== snippet2.fileName
+           snippet1.fileName !== snippet2.fileName ||
+           hasSnippetMetadataDifference(snippet1, snippet2)
   }
 
   /**
@@ -0,0 +1,123 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { CodeSnippet, Directory } from '../../types/types'
+import { GitCommitInfo } from '../../types/syncTypes'
+import { GitOperationsManager } from '../git/gitOperationsManager'
+import { FileSystemManager } from './fileSystemManager'
+import { ThreeWayMergeManager } from './threeWayMergeManager'
+import { StorageContext } from '../storageContext'
+import { SettingsManager } from '../settingsManager'
+import { findMatchingItem } from '../snippetIdentityUtils'
+
+/**
+ * 历史提交中的代码库
+ */
+export interface LibrarySnapshot {
+  commit: GitCommitInfo
+  snippets: CodeSnippet[]
+  directories: Directory[]
+}
+
+/**
+ * 历史版本与当前代码库中代码片段的对比结果
+ * added: 只存在于历史版本中，恢复后会重新出现；removed: 只存在于当前代码库中，恢复后会被删除
+ */
+export interface SnapshotComparisonItem {
+  status: 'added' | 'removed' | 'changed' | 'unchanged'
+  snippet: CodeSnippet
+  current?: CodeSnippet
+}
+
+/**
+ * 代码库时光机
+ * 列出本地同步仓库中的提交，预览任意提交时的代码库，并将整个本地代码库恢复到该状态
+ */
+export class LibraryTimeMachine {
+  private gitOpsManager: GitOperationsManager
+  private fileSystemManager: FileSystemManager
+
+  constructor(private storageContext: StorageContext) {
+    this.gitOpsManager = new GitOperationsManager(SettingsManager.getCloudSyncConfig())
+    this.fileSystemManager = new FileSystemManager()
+  }
+
+  /**
+   * 本地同步仓库是否存在
+   */
+  public hasRepository(): boolean {
+    return fs.existsSync(path.join(SettingsManager.getEffectiveLocalPath(), '.git'))
+  }
+
+  /**
+   * 获取同步提交，最新的在前
+   */
+  public async getSyncCommits(maxCount: number = 100): Promise<GitCommitInfo[]> {
+    return this.gitOpsManager.getCommitHistory(maxCount)
+  }
+
+  /**
+   * 读取指定提交时的代码库
+   */
+  public async readSnapshot(commit: GitCommitInfo): Promise<LibrarySnapshot> {
+    const git = await this.gitOpsManager.getGitInstance()
+    const data = await new ThreeWayMergeManager(git, this.fileSystemManager).readDataFromCommit(commit.hash)
+    if (!data) {
+      throw new Error(`无法读取提交 ${commit.hash.substring(0, 7)} 中的代码库数据`)
+    }
+    return { commit, ...data }
+  }
+
+  /**
+   * 将历史版本与当前代码库对比，按 uuid 或路径对应代码片段
+   */
+  public async compareWithCurrent(snapshot: LibrarySnapshot): Promise<SnapshotComparisonItem[]> {
+    const currentSnippets: CodeSnippet[] = await this.storageContext.getAllSnippets()
+    const items: SnapshotComparisonItem[] = snapshot.snippets.map((snippet) => {
+      const current = findMatchingItem(currentSnippets, snippet)
+      if (!current) {
+        return { status: 'added', snippet }
+      }
+      const changed =
+        current.fullPath !== snippet.fullPath || this.fileSystemManager.hasSnippetContentDifference(current, snippet)
+      return { status: changed ? 'changed' : 'unchanged', snippet, current }
+    })
+
+    for (const current of currentSnippets) {
+      if (!findMatchingItem(snapshot.snippets, current)) {
+        items.push({ status: 'removed', snippet: current, current })
+      }
+    }
+    return items
+  }
+
+  /**
+   * 将整个本地代码库恢复到历史版本（仅支持V2格式）
+   * 恢复前先把当前代码库写入同步仓库的工作目录并创建备份，备份失败时不做任何修改；恢复时一次写入整个代码库
+   */
+  public async restoreSnapshot(snapshot: LibrarySnapshot): Promise<{ backupDir?: string }> {
+    // 恢复会写入同步仓库的工作目录，当前代码库不能使用该仓库时不做任何修改
+    const libraryBlockReason = SettingsManager.getLibrarySyncBlockReason()
+    if (libraryBlockReason) {
+      throw new Error(libraryBlockReason)
+    }
+    if (this.storageContext.getCurrentStorageVersion() !== 'v2') {
+      throw new Error('代码库时光机仅支持 V2 存储格式，请先迁移数据')
+    }
+
+    const [currentSnippets, currentDirectories]: [CodeSnippet[], Directory[]] = await Promise.all([
+      this.storageContext.getAllSnippets(),
+      this.storageContext.getAllDirectories(),
+    ])
+
+    // 工作目录可能落后于本地代码库，先写入当前数据，使备份包含被覆盖前的完整代码库
+    await this.fileSystemManager.writeToGit(currentSnippets, currentDirectories)
+    const backup = await this.fileSystemManager.createBackup()
+    if (!backup.success) {
+      throw new Error('创建备份失败，已取消恢复')
+    }
+
+    await this.storageContext.replaceAll(snapshot.snippets, snapshot.directories)
+
+    return { backupDir: backup.backupDir }
+  }
+}
@@ -0,0 +1,153 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { CodeSnippet, Directory } from '../../types/types'
+import { GitFileCommit } from '../../types/syncTypes'
+import { GitOperationsManager } from '../git/gitOperationsManager'
+import { FileSystemManager } from './fileSystemManager'
+import { StorageContext } from '../storageContext'
+import { SettingsManager } from '../settingsManager'
+import { PathBasedManager } from '../pathBasedManager'
+import { findMatchingItem } from '../snippetIdentityUtils'
+
+/**
+ * 代码片段在某次提交中的版本
+ */
+export interface SnippetHistoryEntry {
+  commit: GitFileCommit
+  snippet: CodeSnippet | null // 该提交删除了文件时为 null
+  diff: string
+}
+
+/**
+ * 在历史提交中被删除、当前库中不存在的代码片段
+ */
+export interface DeletedSnippetEntry {
+  commit: GitFileCommit // 删除该代码片段的提交
+  snippet: CodeSnippet // 删除前的版本
+}
+
+/**
+ * 代码片段Git历史管理器
+ * 通过同步仓库的提交历史查看单个代码片段的历史版本，找回已删除的代码片段，并恢复到本地存储
+ */
+export class SnippetGitHistoryManager {
+  private gitOpsManager: GitOperationsManager
+  private fileSystemManager: FileSystemManager
+
+  constructor(private storageContext: StorageContext) {
+    this.gitOpsManager = new GitOperationsManager(SettingsManager.getCloudSyncConfig())
+    this.fileSystemManager = new FileSystemManager()
+  }
+
+  /**
+   * 本地同步仓库是否存在
+   */
+  public hasRepository(): boolean {
+    return fs.existsSync(path.join(SettingsManager.getEffectiveLocalPath(), '.git'))
+  }
+
+  /**
+   * 获取代码片段的提交历史，最新的提交在前
+   * 代码片段还没有同步到仓库时返回空数组
+   */
+  public async getSnippetHistory(snippet: CodeSnippet): Promise<SnippetHistoryEntry[]> {
+    const gitPath = await this.fileSystemManager.findSnippetGitPath(snippet)
+    if (!gitPath) {
+      return []
+    }
+
+    const commits = await this.gitOpsManager.getFileHistory(gitPath)
+    const entries: SnippetHistoryEntry[] = []
+    for (const commit of commits) {
+      const content = await this.gitOpsManager.getFileAtCommit(commit.hash, commit.filePath)
+      entries.push({
+        commit,
+        snippet:
+          content === undefined
+            ? null
+            : this.fileSystemManager.parseSnippetContent(content, commit.filePath, commit.date),
+        diff: await this.gitOpsManager.getFileDiff(commit.hash, commit.filePath),
+      })
+    }
+    return entries
+  }
+
+  /**
+   * 查找在历史提交中被删除、且当前库中不存在的代码片段，同一文件多次删除时只保留最近一次
+   */
+  public async getDeletedSnippets(): Promise<DeletedSnippetEntry[]> {
+    const currentSnippets: CodeSnippet[] = await this.storageContext.getAllSnippets()
+    const deletedFiles = await this.gitOpsManager.getDeletedFiles()
+    const seenPaths = new Set<string>()
+    const entries: DeletedSnippetEntry[] = []
+
+    for (const commit of deletedFiles) {
+      if (seenPaths.has(commit.filePath) || !this.fileSystemManager.isSnippetGitPath(commit.filePath)) {
+        continue
+      }
+      seenPaths.add(commit.filePath)
+
+      const content = await this.gitOpsManager.getFileAtCommit(`${commit.hash}^`, commit.filePath)
+      if (content === undefined) {
+        continue
+      }
+
+      const snippet = this.fileSystemManager.parseSnippetContent(content, commit.filePath, commit.date)
+      if (!findMatchingItem(currentSnippets, snippet) && !entries.some((e) => findMatchingItem([e.snippet], snippet))) {
+        entries.push({ commit, snippet })
+      }
+    }
+    return entries
+  }
+
+  /**
+   * 用历史版本的代码和属性覆盖现有代码片段，名称和位置保持不变
+   */
+  public async restoreVersion(snippet: CodeSnippet, version: CodeSnippet): Promise<CodeSnippet> {
+    const current = findMatchingItem<CodeSnippet>(await this.storageContext.getAllSnippets(), snippet)
+    if (!current) {
+      throw new Error(`代码片段 "${snippet.name}" 已不存在`)
+    }
+
+    const restored: CodeSnippet = {
+      ...current,
+      code: version.code,
+      language: version.language,
+      prefix: version.prefix,
+      description: version.description,
+      insertAsPlainText: version.insertAsPlainText,
+      tags: version.tags,
+    }
+    await this.storageContext.updateSnippet(restored)
+    return restored
+  }
+
+  /**
+   * 将已删除的代码片段恢复到原位置，缺失的上级目录会一并重建
+   * 原位置已有同名代码片段时在名称后追加 (恢复)
+   */
+  public async restoreDeleted(snippet: CodeSnippet): Promise<CodeSnippet> {
+    const parentPath = snippet.fullPath.substring(0, snippet.fullPath.lastIndexOf('/') + 1)
+    const existingSnippets: CodeSnippet[] = await this.storageContext.getAllSnippets()
+    const isTaken = (name: string) => existingSnippets.some((s) => s.fullPath === `${parentPath}${name}`)
+
+    let name = snippet.name
+    for (let suffix = 1; isTaken(name); suffix++) {
+      name = suffix === 1 ? `${snippet.name} (恢复)` : `${snippet.name} (恢复 ${suffix})`
+    }
+
+    const directories: Directory[] = await this.storageContext.getAllDirectories()
+    const existingDirectoryPaths = new Set(
+      directories.map((d) => (d.fullPath.endsWith('/') ? d.fullPath : `${d.fullPath}/`))
+    )
+    for (const parent of PathBasedManager.extractDirectoriesFromPaths([snippet.fullPath])) {
+      if (!existingDirectoryPaths.has(parent.fullPath)) {
+        await this.storageContext.createDirectory(parent)
+      }
+    }
+
+    const restored: CodeSnippet = { ...snippet, name, fullPath: `${parentPath}${name}` }
+    await this.storageContext.saveSnippet(restored)
+    return restored
+  }
+}
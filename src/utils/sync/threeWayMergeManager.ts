@@ -3,6 +3,8 @@ import { SimpleGit } from 'simple-git'
 import { CodeSnippet, Directory } from '../../types/types'
 import { FileSystemManager } from './fileSystemManager'
 import { GitStandardConflictDetector } from '../conflict/gitStandardConflictDetector'
+import { hasSnippetMetadataDifference } from '../snippetMetadataUtils'
+import { matchItemsByIdentity, mergeMovedItem } from '../snippetIdentityUtils'
 
 /**
  * 三路合并管理器
@@ -55,17 +57,23 @@ export class ThreeWayMergeManager {
       const mergedSnippets: CodeSnippet[] = []
       const mergedDirectories: Directory[] = []
 
-      // 处理所有可能存在的代码片段路径
-      const allPaths = new Set<string>()
-      baseData.snippets.forEach(s => allPaths.add(s.fullPath))
-      localSnippets.forEach(s => allPaths.add(s.fullPath))
-      remoteSnippets.forEach(s => allPaths.add(s.fullPath))
-
-      // 逐一检查每个路径的冲突情况
-      for (const path of allPaths) {
-        const baseSnippet = baseData.snippets.find(s => s.fullPath === path) || null
-        const localSnippet = localSnippets.find(s => s.fullPath === path) || null
-        const remoteSnippet = remoteSnippets.find(s => s.fullPath === path) || null
+      // 按 uuid 对齐三方的代码片段，重命名或移动后的代码片段仍与原片段对应
+      const snippetGroups = matchItemsByIdentity(baseData.snippets, localSnippets, remoteSnippets)
+
+      // 逐一检查每个代码片段的冲突情况
+      for (const { base: baseSnippet, local: localSnippet, remote: remoteSnippet } of snippetGroups) {
+        const path = (localSnippet || remoteSnippet || baseSnippet)!.fullPath
+
+        // 一方只重命名或移动、另一方修改了内容时，把修改应用到新位置上
+        if (baseSnippet && localSnippet && remoteSnippet) {
+          const movedSnippet = mergeMovedItem(baseSnippet, localSnippet, remoteSnippet, (a, b) =>
+            this.hasContentDifference(a, b)
+          )
+          if (movedSnippet) {
+            mergedSnippets.push(movedSnippet)
+            continue
+          }
+        }
 
         const conflictResult = this.standardConflictDetector.detectSnippetConflict(
           baseSnippet, localSnippet, remoteSnippet, path
@@ -84,15 +92,18 @@ export class ThreeWayMergeManager {
       }
 
       // 处理目录（同样的逻辑）
-      const allDirPaths = new Set<string>()
-      baseData.directories.forEach(d => allDirPaths.add(d.fullPath))
-      localDirectories.forEach(d => allDirPaths.add(d.fullPath))
-      remoteDirectories.forEach(d => allDirPaths.add(d.fullPath))
+      const directoryGroups = matchItemsByIdentity(baseData.directories, localDirectories, remoteDirectories)
 
-      for (const path of allDirPaths) {
-        const baseDir = baseData.directories.find(d => d.fullPath === path) || null
-        const localDir = localDirectories.find(d => d.fullPath === path) || null
-        const remoteDir = remoteDirectories.find(d => d.fullPath === path) || null
+      for (const { base: baseDir, local: localDir, remote: remoteDir } of directoryGroups) {
+        const path = (localDir || remoteDir || baseDir)!.fullPath
+
+        if (baseDir && localDir && remoteDir) {
+          const movedDir = mergeMovedItem(baseDir, localDir, remoteDir, (a, b) => a.order !== b.order)
+          if (movedDir) {
+            mergedDirectories.push(movedDir)
+            continue
+          }
+        }
 
         const conflictResult = this.standardConflictDetector.detectDirectoryConflict(
           baseDir, localDir, remoteDir, path
@@ -228,9 +239,10 @@ export class ThreeWayMergeManager {
       return remote // 临时返回远程版本，但这应该是冲突
     }
 
-    // 三方都存在且确认无冲突，优先选择远程版本
+    // 三方都存在且确认无冲突：远程有变更时选择远程版本，否则保留本地的修改（包括重命名或移动）
     if (base && local && remote) {
-      return remote
+      const remoteChanged = remote.fullPath !== base.fullPath || this.hasContentDifference(base, remote)
+      return remoteChanged ? remote : local
     }
 
     // 双方都新增相同路径的内容（已确认无冲突）
@@ -270,7 +282,8 @@ export class ThreeWayMergeManager {
       return null
     }
     if (base && local && remote) {
-      return remote
+      const remoteChanged = remote.fullPath !== base.fullPath || remote.order !== base.order
+      return remoteChanged ? remote : local
     }
     if (!base && local && remote) {
       return remote
@@ -572,10 +585,26 @@ export class ThreeWayMergeManager {
 
   /**
    * 从指定提交读取数据（真实文件存储版本）
+   * 依次兼容当前的纯代码文件格式、带根目录元数据文件的旧格式和旧JSON格式
    */
-  private async readDataFromCommit(commit: string): Promise<{ snippets: CodeSnippet[]; directories: Directory[] } | null> {
+  public async readDataFromCommit(commit: string): Promise<{ snippets: CodeSnippet[]; directories: Directory[] } | null> {
     try {
       console.log(`📖 正在从提交 ${commit} 读取数据（真实文件存储模式）...`)
+
+      const fileList = await this.git.raw(['-c', 'core.quotePath=false', 'ls-tree', '-r', '--name-only', commit])
+      const files = fileList.trim().split('\n').filter(f => f.trim())
+
+      // 当前的纯代码文件格式：没有根目录元数据文件和旧JSON文件
+      if (!files.includes('.snippet-meta.json') && !files.includes('snippets.json')) {
+        const commitTime = Number((await this.git.raw(['show', '-s', '--format=%ct', commit])).trim()) * 1000
+        const data = await this.fileSystemManager.readFromSnapshot(
+          files,
+          (file) => this.git.show([`${commit}:${file}`]),
+          commitTime
+        )
+        console.log(`   🗂️ 解析结果: ${data.snippets.length} 个代码片段, ${data.directories.length} 个目录`)
+        return data
+      }
       
       // 检查提交是否存在根目录元数据文件
       let metadataContent: string
@@ -588,9 +617,6 @@ export class ThreeWayMergeManager {
         console.log(`   📊 提交中包含 ${metadata.totalSnippets || 0} 个代码片段, ${metadata.totalDirectories || 0} 个目录`)
         
         // 从提交中重建真实文件结构数据
-        const fileList = await this.git.raw(['ls-tree', '-r', '--name-only', commit])
-        const files = fileList.trim().split('\n').filter(f => f.trim())
-        
         console.log(`   📁 提交中包含 ${files.length} 个文件`)
         
         // 扫描代码片段文件
@@ -1017,7 +1043,8 @@ export class ThreeWayMergeManager {
            snippet1.code !== snippet2.code ||
            snippet1.category !== snippet2.category ||
            snippet1.language !== snippet2.language ||
-           snippet1.fileName !== snippet2.fileName
+           snippet1.fileName !== snippet2.fileName ||
+           hasSnippetMetadataDifference(snippet1, snippet2)
   }
 
   /**
@@ -0,0 +1,60 @@
+/**
+ * 规范化标签列表：去除首尾空白和前导 #，去掉空标签并按出现顺序去重（不区分大小写）
+ * 支持传入逗号分隔的字符串或字符串数组
+ */
+export function normalizeTags(input: string | string[] | undefined | null): string[] {
+  if (!input) {
+    return []
+  }
+
+  const rawTags = Array.isArray(input) ? input : input.split(/[,，]/)
+  const seen = new Set<string>()
+  const tags: string[] = []
+
+  for (const rawTag of rawTags) {
+    const tag = String(rawTag).trim().replace(/^#+/, '').trim()
+    if (tag && !seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase())
+      tags.push(tag)
+    }
+  }
+
+  return tags
+}
+
+/**
+ * 比较两个标签列表是否一致（忽略顺序，未设置与空列表视为相同）
+ */
+export function areTagsEqual(a: string[] | undefined, b: string[] | undefined): boolean {
+  const left = normalizeTags(a).sort()
+  const right = normalizeTags(b).sort()
+  return left.length === right.length && left.every((tag, index) => tag === right[index])
+}
+
+/**
+ * 判断代码片段是否包含指定的全部标签（不区分大小写）
+ */
+export function hasAllTags(snippetTags: string[] | undefined, requiredTags: string[]): boolean {
+  const tags = new Set(normalizeTags(snippetTags).map((tag) => tag.toLowerCase()))
+  return requiredTags.every((tag) => tags.has(tag.toLowerCase()))
+}
+
+/**
+ * 统计所有代码片段中使用的标签及其数量，按标签名排序
+ */
+export function collectTags(snippets: Array<{ tags?: string[] }>): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, { tag: string; count: number }>()
+
+  for (const snippet of snippets) {
+    for (const tag of normalizeTags(snippet.tags)) {
+      const entry = counts.get(tag.toLowerCase())
+      if (entry) {
+        entry.count++
+      } else {
+        counts.set(tag.toLowerCase(), { tag, count: 1 })
+      }
+    }
+  }
+
+  return Array.from(counts.values()).sort((a, b) => a.tag.localeCompare(b.tag))
+}
@@ -0,0 +1,240 @@
+import * as vscode from 'vscode'
+import { v4 as uuidv4 } from 'uuid'
+import { CodeSnippet, Directory } from '../types/types'
+import { StorageContext } from './storageContext'
+import { SettingsManager } from './settingsManager'
+import { PathBasedManager } from './pathBasedManager'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 回收站中的条目：删除的代码片段，或删除的目录及其下的所有内容
+ */
+export interface TrashEntry {
+  id: string
+  type: 'snippet' | 'directory'
+  name: string
+  fullPath: string
+  deletedAt: number
+  snippets: CodeSnippet[]
+  directories: Directory[]
+}
+
+/**
+ * 回收站管理器（仅支持V2格式）
+ * 删除的代码片段和目录先移入回收站，可以恢复或彻底删除，超过保留天数后自动清除。
+ * 回收站中的条目在Git仓库中的文件会被保留，彻底删除后才会在下次同步时作为删除推送到远程
+ */
+export class TrashManager implements vscode.Disposable {
+  private _onDidChange = new vscode.EventEmitter<void>()
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private storageContext: StorageContext
+  ) {}
+
+  /**
+   * 获取回收站的保留天数，0 表示不自动清除
+   */
+  public static getRetentionDays(): number {
+    return vscode.workspace.getConfiguration('starcode-snippets').get<number>('trashRetentionDays', 30)
+  }
+
+  /**
+   * 获取回收站中的所有代码片段和目录，同步时据此保留它们在Git仓库中的文件
+   */
+  public static getTrashedItems(): { snippets: CodeSnippet[]; directories: Directory[] } {
+    const entries = SettingsManager.getExtensionContext()?.globalState.get<TrashEntry[]>(getTrashKey(), []) || []
+    return {
+      snippets: entries.flatMap((entry) => entry.snippets),
+      directories: entries.flatMap((entry) => entry.directories),
+    }
+  }
+
+  /**
+   * 删除代码库的回收站，删除代码库时调用
+   */
+  public static async deleteLibraryTrash(context: vscode.ExtensionContext, libraryId: string): Promise<void> {
+    await context.globalState.update(getTrashKey(libraryId), undefined)
+  }
+
+  /**
+   * 获取回收站中的条目，最近删除的在前
+   */
+  public getEntries(): TrashEntry[] {
+    return [...this.context.globalState.get<TrashEntry[]>(getTrashKey(), [])].sort((a, b) => b.deletedAt - a.deletedAt)
+  }
+
+  /**
+   * 获取条目自动清除的时间，未启用自动清除时返回 undefined
+   */
+  public getExpiresAt(entry: TrashEntry): number | undefined {
+    const retentionDays = TrashManager.getRetentionDays()
+    return retentionDays > 0 ? entry.deletedAt + retentionDays * DAY_MS : undefined
+  }
+
+  /**
+   * 将代码片段移入回收站
+   */
+  public async trashSnippet(snippet: CodeSnippet): Promise<void> {
+    await this.trashItems([snippet], [])
+  }
+
+  /**
+   * 将目录及其下的所有子目录和代码片段作为一个条目移入回收站
+   */
+  public async trashDirectory(directory: Directory): Promise<void> {
+    await this.trashItems([], [directory])
+  }
+
+  /**
+   * 将多个代码片段和目录一次移入回收站，每个代码片段和目录（连同其下的所有内容）各为一个条目
+   * 所有条目一次写入，代码片段和目录一次删除，只触发一次刷新和同步
+   */
+  public async trashItems(snippetsToTrash: CodeSnippet[], directoriesToTrash: Directory[]): Promise<void> {
+    if (snippetsToTrash.length === 0 && directoriesToTrash.length === 0) {
+      return
+    }
+
+    const [snippets, directories]: [CodeSnippet[], Directory[]] = await Promise.all([
+      this.storageContext.getAllSnippets(),
+      this.storageContext.getAllDirectories(),
+    ])
+
+    const entries: Omit<TrashEntry, 'id' | 'deletedAt'>[] = snippetsToTrash.map((snippet) => {
+      const current = snippets.find((s) => s.fullPath === snippet.fullPath) || snippet
+      return {
+        type: 'snippet',
+        name: current.name,
+        fullPath: current.fullPath,
+        snippets: [current],
+        directories: [],
+      }
+    })
+    for (const directory of directoriesToTrash) {
+      const directoryPath = toDirectoryPath(directory.fullPath)
+      entries.push({
+        type: 'directory',
+        name: directory.name,
+        fullPath: directoryPath,
+        snippets: snippets.filter((s) => s.fullPath.startsWith(directoryPath)),
+        directories: directories.filter((d) => toDirectoryPath(d.fullPath).startsWith(directoryPath)),
+      })
+    }
+
+    await this.addEntries(entries)
+    // 目录连同其下的子目录和代码片段一次删除
+    await this.storageContext.deleteItems(
+      snippetsToTrash.map((s) => s.fullPath),
+      directoriesToTrash.map((d) => toDirectoryPath(d.fullPath))
+    )
+  }
+
+  /**
+   * 将条目恢复到原位置，缺失的上级目录会一并重建
+   * 原位置已存在同名代码片段或目录时不做任何修改并抛出错误
+   */
+  public async restore(entryId: string): Promise<void> {
+    const entry = this.getEntries().find((e) => e.id === entryId)
+    if (!entry) {
+      return
+    }
+
+    const [snippets, directories]: [CodeSnippet[], Directory[]] = await Promise.all([
+      this.storageContext.getAllSnippets(),
+      this.storageContext.getAllDirectories(),
+    ])
+    const existingDirectoryPaths = new Set(directories.map((d) => toDirectoryPath(d.fullPath)))
+
+    const conflict =
+      entry.snippets.find((s) => snippets.some((existing) => existing.fullPath === s.fullPath))?.fullPath ||
+      entry.directories.map((d) => toDirectoryPath(d.fullPath)).find((p) => existingDirectoryPaths.has(p))
+    if (conflict) {
+      throw new Error(`原位置已存在 "${conflict}"，请先重命名或移动后再恢复`)
+    }
+
+    for (const parent of PathBasedManager.extractDirectoriesFromPaths([entry.fullPath])) {
+      if (!existingDirectoryPaths.has(parent.fullPath)) {
+        await this.storageContext.createDirectory(parent)
+      }
+    }
+    for (const directory of entry.directories) {
+      await this.storageContext.createDirectory(directory)
+    }
+    for (const snippet of entry.snippets) {
+      await this.storageContext.saveSnippet(snippet)
+    }
+
+    await this.removeEntries([entryId])
+  }
+
+  /**
+   * 彻底删除回收站中的条目
+   */
+  public async deletePermanently(entryIds: string[]): Promise<void> {
+    await this.removeEntries(entryIds)
+  }
+
+  /**
+   * 清空回收站
+   */
+  public async empty(): Promise<void> {
+    await this.context.globalState.update(getTrashKey(), [])
+    this._onDidChange.fire()
+  }
+
+  /**
+   * 清除超过保留天数的条目，返回清除的数量
+   */
+  public async purgeExpired(): Promise<number> {
+    const now = Date.now()
+    const expired = this.getEntries().filter((entry) => {
+      const expiresAt = this.getExpiresAt(entry)
+      return expiresAt !== undefined && expiresAt <= now
+    })
+
+    if (expired.length > 0) {
+      await this.removeEntries(expired.map((entry) => entry.id))
+    }
+    return expired.length
+  }
+
+  public dispose(): void {
+    this._onDidChange.dispose()
+  }
+
+  private async addEntries(newEntries: Omit<TrashEntry, 'id' | 'deletedAt'>[]): Promise<void> {
+    await this.purgeExpired()
+    const deletedAt = Date.now()
+    const entries = this.context.globalState.get<TrashEntry[]>(getTrashKey(), [])
+    await this.context.globalState.update(getTrashKey(), [
+      ...entries,
+      ...newEntries.map((entry) => ({ ...entry, id: uuidv4(), deletedAt })),
+    ])
+    this._onDidChange.fire()
+  }
+
+  private async removeEntries(entryIds: string[]): Promise<void> {
+    const entries = this.context.globalState.get<TrashEntry[]>(getTrashKey(), [])
+    await this.context.globalState.update(
+      getTrashKey(),
+      entries.filter((entry) => !entryIds.includes(entry.id))
+    )
+    this._onDidChange.fire()
+  }
+}
+
+/**
+ * 获取代码库的回收站存储键，每个代码库有独立的回收站，默认代码库沿用原来的键
+ */
+function getTrashKey(libraryId: string = SettingsManager.getActiveSnippetLibrary().id): string {
+  return libraryId === SettingsManager.DEFAULT_LIBRARY_ID ? 'trash.v2' : `trash.v2.${libraryId}`
+}
+
+/**
+ * 规范化目录路径，确保以 / 结尾
+ */
+function toDirectoryPath(fullPath: string): string {
+  return fullPath.endsWith('/') ? fullPath : `${fullPath}/`
+}